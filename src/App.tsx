@@ -1,5 +1,6 @@
 import { Routes, Route, Navigate } from 'react-router-dom'
 import { AuthProvider } from './contexts/AuthContext'
+import { OrderEventsProvider } from './contexts/OrderEventsContext'
 import { ProtectedRoute } from './components/ProtectedRoute'
 import { Layout } from './components/Layout'
 import { Login } from './pages/Login'
@@ -11,7 +12,11 @@ import { Vendors } from './pages/Vendors'
 import { VendorForm } from './pages/VendorForm'
 import { Upsells } from './pages/Upsells'
 import { UpsellForm } from './pages/UpsellForm'
+import { BundleForm } from './pages/BundleForm'
 import { Orders } from './pages/Orders'
+import { OrderDetail } from './pages/OrderDetail'
+import { OrderForm } from './pages/OrderForm'
+import { OrderImport } from './pages/OrderImport'
 import { Analytics } from './pages/Analytics'
 import { Settings } from './pages/Settings'
 
@@ -25,24 +30,31 @@ function App() {
           path="/*"
           element={
             <ProtectedRoute>
-              <Layout>
-                <Routes>
-                  <Route path="/" element={<Navigate to="/dashboard" replace />} />
-                  <Route path="/dashboard" element={<Dashboard />} />
-                  <Route path="/properties" element={<Properties />} />
-                  <Route path="/properties/new" element={<PropertyForm />} />
-                  <Route path="/properties/:id/edit" element={<PropertyForm />} />
-                  <Route path="/vendors" element={<Vendors />} />
-                  <Route path="/vendors/new" element={<VendorForm />} />
-                  <Route path="/vendors/:id/edit" element={<VendorForm />} />
-                  <Route path="/upsells" element={<Upsells />} />
-                  <Route path="/upsells/new" element={<UpsellForm />} />
-                  <Route path="/upsells/:id/edit" element={<UpsellForm />} />
-                  <Route path="/orders" element={<Orders />} />
-                  <Route path="/analytics" element={<Analytics />} />
-                  <Route path="/settings" element={<Settings />} />
-                </Routes>
-              </Layout>
+              <OrderEventsProvider>
+                <Layout>
+                  <Routes>
+                    <Route path="/" element={<Navigate to="/dashboard" replace />} />
+                    <Route path="/dashboard" element={<Dashboard />} />
+                    <Route path="/properties" element={<Properties />} />
+                    <Route path="/properties/new" element={<PropertyForm />} />
+                    <Route path="/properties/:id/edit" element={<PropertyForm />} />
+                    <Route path="/vendors" element={<Vendors />} />
+                    <Route path="/vendors/new" element={<VendorForm />} />
+                    <Route path="/vendors/:id/edit" element={<VendorForm />} />
+                    <Route path="/upsells" element={<Upsells />} />
+                    <Route path="/upsells/new" element={<UpsellForm />} />
+                    <Route path="/upsells/:id/edit" element={<UpsellForm />} />
+                    <Route path="/upsells/packages/new" element={<BundleForm />} />
+                    <Route path="/upsells/packages/:id/edit" element={<BundleForm />} />
+                    <Route path="/orders" element={<Orders />} />
+                    <Route path="/orders/new" element={<OrderForm />} />
+                    <Route path="/orders/import" element={<OrderImport />} />
+                    <Route path="/orders/:id" element={<OrderDetail />} />
+                    <Route path="/analytics" element={<Analytics />} />
+                    <Route path="/settings" element={<Settings />} />
+                  </Routes>
+                </Layout>
+              </OrderEventsProvider>
             </ProtectedRoute>
           }
         />
@@ -0,0 +1,272 @@
+import { addMonths, format, getDay, startOfMonth } from 'date-fns'
+import { Plus, Trash2 } from 'lucide-react'
+import type { AvailabilityRules, Weekday } from '../types'
+import {
+  describeGuestLimits,
+  getMonthAvailability,
+  sortTimeSlots,
+  validateAvailabilityRules,
+  weekdays
+} from '../lib/availability'
+
+interface AvailabilityRulesEditorProps {
+  value: AvailabilityRules
+  onChange: (rules: AvailabilityRules) => void
+}
+
+// Empty inputs mean "no limit" for the optional numbers
+const toNullableNumber = (value: string) => (value === '' ? null : Number(value))
+
+export const AvailabilityRulesEditor: React.FC<AvailabilityRulesEditorProps> = ({ value: rules, onChange }) => {
+  const update = (changes: Partial<AvailabilityRules>) => onChange({ ...rules, ...changes })
+  const errors = validateAvailabilityRules(rules)
+
+  const toggleDay = (day: Weekday) => {
+    update({
+      days_of_week: rules.days_of_week.includes(day)
+        ? rules.days_of_week.filter(d => d !== day)
+        : [...rules.days_of_week, day].sort() as Weekday[],
+    })
+  }
+
+  const previewMonth = addMonths(startOfMonth(new Date()), 1)
+  const preview = getMonthAvailability(rules, previewMonth)
+  const bookableDays = preview.filter(day => day.isBookable).length
+  // Monday-first grid, so Sunday (0) needs six leading blanks
+  const leadingBlanks = (getDay(previewMonth) + 6) % 7
+  const guestLimits = describeGuestLimits(rules)
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <label className="label">Days Offered</label>
+        <div className="flex flex-wrap gap-2">
+          {weekdays.map((day) => {
+            const isOn = rules.days_of_week.includes(day.value)
+            return (
+              <button
+                key={day.value}
+                type="button"
+                onClick={() => toggleDay(day.value)}
+                className={`px-3 py-1.5 rounded-lg text-sm font-medium border ${
+                  isOn
+                    ? 'bg-primary-50 border-primary-300 text-primary-700'
+                    : 'bg-white border-gray-300 text-gray-500 hover:bg-gray-50'
+                }`}
+                title={day.label}
+              >
+                {day.short}
+              </button>
+            )
+          })}
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between">
+          <label className="label">Time Slots</label>
+          <button
+            type="button"
+            onClick={() => update({ time_slots: [...rules.time_slots, { start: '', end: '' }] })}
+            className="text-sm text-blue-600 hover:text-blue-800 inline-flex items-center"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add slot
+          </button>
+        </div>
+        {rules.time_slots.length === 0 ? (
+          <p className="text-sm text-gray-500">No slots, the service is booked for the whole day.</p>
+        ) : (
+          <div className="space-y-2">
+            {rules.time_slots.map((slot, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <input
+                  type="time"
+                  value={slot.start}
+                  onChange={(e) => update({
+                    time_slots: rules.time_slots.map((s, i) => (i === index ? { ...s, start: e.target.value } : s)),
+                  })}
+                  onBlur={() => update({ time_slots: sortTimeSlots(rules.time_slots) })}
+                  className="input w-32"
+                />
+                <span className="text-sm text-gray-500">to</span>
+                <input
+                  type="time"
+                  value={slot.end || ''}
+                  onChange={(e) => update({
+                    time_slots: rules.time_slots.map((s, i) => (i === index ? { ...s, end: e.target.value } : s)),
+                  })}
+                  className="input w-32"
+                />
+                <button
+                  type="button"
+                  onClick={() => update({ time_slots: rules.time_slots.filter((_, i) => i !== index) })}
+                  className="p-2 text-gray-400 hover:text-red-600"
+                  title="Remove slot"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="label">Minimum Lead Time (hours)</label>
+          <input
+            type="number"
+            min="0"
+            value={rules.min_lead_time_hours}
+            onChange={(e) => update({ min_lead_time_hours: Number(e.target.value) || 0 })}
+            className="input"
+          />
+        </div>
+        <div>
+          <label className="label">Maximum Advance (days)</label>
+          <input
+            type="number"
+            min="1"
+            value={rules.max_advance_days ?? ''}
+            onChange={(e) => update({ max_advance_days: toNullableNumber(e.target.value) })}
+            className="input"
+            placeholder="No limit"
+          />
+        </div>
+        <div>
+          <label className="label">Daily Capacity</label>
+          <input
+            type="number"
+            min="1"
+            value={rules.daily_capacity ?? ''}
+            onChange={(e) => update({ daily_capacity: toNullableNumber(e.target.value) })}
+            className="input"
+            placeholder="Unlimited"
+          />
+        </div>
+        <div>
+          <label className="label">Minimum Guests</label>
+          <input
+            type="number"
+            min="1"
+            value={rules.min_guests}
+            onChange={(e) => update({ min_guests: Number(e.target.value) || 1 })}
+            className="input"
+          />
+        </div>
+        <div>
+          <label className="label">Maximum Guests</label>
+          <input
+            type="number"
+            min="1"
+            value={rules.max_guests ?? ''}
+            onChange={(e) => update({ max_guests: toNullableNumber(e.target.value) })}
+            className="input"
+            placeholder="No limit"
+          />
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between">
+          <label className="label">Blackout Dates</label>
+          <button
+            type="button"
+            onClick={() => update({ blackouts: [...rules.blackouts, { from: '', to: '', reason: '' }] })}
+            className="text-sm text-blue-600 hover:text-blue-800 inline-flex items-center"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add blackout
+          </button>
+        </div>
+        {rules.blackouts.length === 0 ? (
+          <p className="text-sm text-gray-500">No blackout dates.</p>
+        ) : (
+          <div className="space-y-2">
+            {rules.blackouts.map((blackout, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2">
+                <input
+                  type="date"
+                  value={blackout.from}
+                  onChange={(e) => update({
+                    blackouts: rules.blackouts.map((b, i) => (
+                      i === index ? { ...b, from: e.target.value, to: b.to || e.target.value } : b
+                    )),
+                  })}
+                  className="input w-40"
+                />
+                <span className="text-sm text-gray-500">to</span>
+                <input
+                  type="date"
+                  value={blackout.to}
+                  min={blackout.from || undefined}
+                  onChange={(e) => update({
+                    blackouts: rules.blackouts.map((b, i) => (i === index ? { ...b, to: e.target.value } : b)),
+                  })}
+                  className="input w-40"
+                />
+                <input
+                  type="text"
+                  value={blackout.reason || ''}
+                  onChange={(e) => update({
+                    blackouts: rules.blackouts.map((b, i) => (i === index ? { ...b, reason: e.target.value } : b)),
+                  })}
+                  className="input flex-1 min-w-[10rem]"
+                  placeholder="Reason (optional)"
+                />
+                <button
+                  type="button"
+                  onClick={() => update({ blackouts: rules.blackouts.filter((_, i) => i !== index) })}
+                  className="p-2 text-gray-400 hover:text-red-600"
+                  title="Remove blackout"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-sm text-danger-600 list-disc list-inside">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      <div className="border-t pt-6">
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="text-md font-medium text-gray-900">Bookable in {format(previewMonth, 'MMMM yyyy')}</h4>
+          <span className="text-sm text-gray-500">
+            {bookableDays} of {preview.length} days
+            {rules.daily_capacity !== null && ` · up to ${rules.daily_capacity} per day`}
+            {guestLimits && ` · ${guestLimits}`}
+          </span>
+        </div>
+        <div className="grid grid-cols-7 gap-1 text-center">
+          {weekdays.map(day => (
+            <div key={day.value} className="text-xs font-medium text-gray-500 py-1">{day.short}</div>
+          ))}
+          {Array.from({ length: leadingBlanks }, (_, i) => <div key={`blank-${i}`} />)}
+          {preview.map((day) => (
+            <div
+              key={day.date.toISOString()}
+              className={`rounded-md px-1 py-1.5 text-xs ${
+                day.isBookable ? 'bg-green-50 text-green-800 border border-green-200' : 'bg-gray-50 text-gray-400'
+              }`}
+              title={day.isBookable
+                ? (day.slots.length > 0 ? `Slots: ${day.slots.join(', ')}` : 'Whole day')
+                : day.reason}
+            >
+              <div className="font-medium">{format(day.date, 'd')}</div>
+              {day.isBookable && day.slots.length > 0 && (
+                <div className="text-[10px] truncate">{day.slots.length} slot{day.slots.length === 1 ? '' : 's'}</div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+import { Link } from 'react-router-dom'
+import { Boxes, Trash2 } from 'lucide-react'
+import type { Upsell, UpsellBundle } from '../types'
+import { getBundleComponents, getBundlePrice, getComponentsTotal } from '../lib/bundles'
+import { formatCurrency } from '../lib/utils'
+
+interface BundleCardProps {
+  bundle: UpsellBundle
+  upsells: Upsell[]
+  onDelete: (bundle: UpsellBundle) => void
+}
+
+export const BundleCard: React.FC<BundleCardProps> = ({ bundle, upsells, onDelete }) => {
+  const components = getBundleComponents(bundle, upsells)
+  const price = getBundlePrice(bundle, components)
+  const savings = getComponentsTotal(components) - price
+  const currency = bundle.property?.currency
+
+  return (
+    <div className="relative flex bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow">
+      <Link to={`/upsells/packages/${bundle.id}/edit`} className="flex flex-1 min-w-0">
+        {bundle.image_url ? (
+          <img src={bundle.image_url} alt={bundle.title} className="h-full w-24 object-cover flex-shrink-0" />
+        ) : (
+          <div className="w-24 bg-gradient-to-br from-purple-50 to-indigo-100 flex items-center justify-center flex-shrink-0">
+            <Boxes className="h-8 w-8 text-purple-400" />
+          </div>
+        )}
+        <div className="p-3 min-w-0">
+          <div className="flex items-center gap-2">
+            <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+              Package
+            </span>
+            {!bundle.is_active && (
+              <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+                Inactive
+              </span>
+            )}
+          </div>
+          <h3 className="mt-1 text-sm font-semibold text-gray-900 truncate">{bundle.title}</h3>
+          <p className="text-xs text-gray-500 truncate">
+            {components.map(upsell => upsell.title).join(' + ') || `${bundle.upsell_ids.length} upsells`}
+          </p>
+          <p className="mt-1 text-sm text-gray-900">
+            {formatCurrency(price, currency)}
+            {savings > 0 && (
+              <span className="ml-2 text-xs text-green-700">saves {formatCurrency(savings, currency)}</span>
+            )}
+          </p>
+        </div>
+      </Link>
+      <button
+        onClick={() => onDelete(bundle)}
+        className="absolute top-2 right-2 p-1.5 text-gray-400 hover:text-red-600"
+        title="Delete package"
+      >
+        <Trash2 className="h-4 w-4" />
+      </button>
+    </div>
+  )
+}
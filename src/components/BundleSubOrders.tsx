@@ -0,0 +1,67 @@
+import { Link } from 'react-router-dom'
+import { useQuery } from 'react-query'
+import { Boxes } from 'lucide-react'
+import { api } from '../lib/api'
+import type { Order, PaginatedResponse } from '../types'
+import { formatCurrency } from '../lib/utils'
+import { OrderStatusBadge } from './OrderStatusBadge'
+
+interface BundleSubOrdersProps {
+  order: Order
+}
+
+// The other sub-orders created from the same package purchase, each routed to its own vendor
+export const BundleSubOrders: React.FC<BundleSubOrdersProps> = ({ order }) => {
+  const { data: subOrdersPage, isLoading } = useQuery<PaginatedResponse<Order>>(
+    ['orders', 'bundle', order.bundle_reference],
+    () => {
+      const params = new URLSearchParams({ bundle_reference: order.bundle_reference!, per_page: '50' })
+      return api.get(`/orders?${params.toString()}`).then(res => res.data)
+    },
+    { enabled: Boolean(order.bundle_reference) }
+  )
+
+  if (!order.bundle_reference) return null
+
+  const subOrders = subOrdersPage?.data
+
+  const packageTotal = (subOrders || []).reduce((sum, subOrder) => sum + parseFloat(subOrder.amount.toString()), 0)
+
+  return (
+    <div className="card p-6">
+      <h3 className="text-lg font-medium text-gray-900 mb-1 flex items-center">
+        <Boxes className="h-5 w-5 mr-2 text-gray-400" />
+        {order.bundle?.title || 'Package'}
+      </h3>
+      <p className="text-sm text-gray-500 mb-4">This order is part of a package, bought together with:</p>
+
+      {isLoading ? (
+        <div className="h-16 animate-pulse bg-gray-100 rounded" />
+      ) : (
+        <table className="w-full text-sm">
+          <tbody className="divide-y divide-gray-100">
+            {subOrders?.map((subOrder) => (
+              <tr key={subOrder.id} className={subOrder.id === order.id ? 'bg-blue-50' : ''}>
+                <td className="py-2 px-2">
+                  {subOrder.id === order.id ? (
+                    <span className="text-gray-500">#{subOrder.id}</span>
+                  ) : (
+                    <Link to={`/orders/${subOrder.id}`} className="text-blue-600 hover:text-blue-800">#{subOrder.id}</Link>
+                  )}
+                </td>
+                <td className="py-2 px-2 text-gray-900">{subOrder.upsell?.title}</td>
+                <td className="py-2 px-2 text-gray-500">{subOrder.vendor?.name}</td>
+                <td className="py-2 px-2"><OrderStatusBadge status={subOrder.status} /></td>
+                <td className="py-2 px-2 text-right text-gray-900">{formatCurrency(subOrder.amount, subOrder.currency)}</td>
+              </tr>
+            ))}
+            <tr className="font-medium">
+              <td className="py-2 px-2 text-gray-900" colSpan={4}>Package total</td>
+              <td className="py-2 px-2 text-right text-gray-900">{formatCurrency(packageTotal, order.currency)}</td>
+            </tr>
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,321 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from 'react-query'
+import { AlertTriangle, ArrowLeft, Copy, X } from 'lucide-react'
+import { api } from '../lib/api'
+import type { Property, Upsell, Vendor } from '../types'
+import {
+  buildUpsellCopies,
+  defaultCopyOptions,
+  getCopiesToCreate,
+  getSourceVendorIds,
+  validateUpsellCopies,
+  type CopyPriceMode,
+  type UpsellCopyOptions
+} from '../lib/upsellCopy'
+import { formatUnitPrice } from '../lib/upsellPricing'
+import { useExchangeRates } from '../hooks/useExchangeRates'
+import toast from 'react-hot-toast'
+
+interface CopyUpsellsModalProps {
+  upsells: Upsell[]
+  allUpsells: Upsell[]
+  onClose: () => void
+  onCopied: () => void
+}
+
+export const CopyUpsellsModal: React.FC<CopyUpsellsModalProps> = ({ upsells, allUpsells, onClose, onCopied }) => {
+  const queryClient = useQueryClient()
+  const { reportingCurrency, rates } = useExchangeRates()
+  const [options, setOptions] = useState<UpsellCopyOptions>(defaultCopyOptions)
+  const [showPreview, setShowPreview] = useState(false)
+
+  const { data: properties } = useQuery<Property[]>(
+    'properties',
+    () => api.get('/properties').then(res => res.data.properties)
+  )
+
+  const { data: vendors } = useQuery<Vendor[]>(
+    'vendors',
+    () => api.get('/vendors').then(res => res.data.vendors)
+  )
+
+  const update = (changes: Partial<UpsellCopyOptions>) => setOptions(prev => ({ ...prev, ...changes }))
+  const sourcePropertyIds = new Set(upsells.map(upsell => upsell.property_id))
+  const targetProperties = properties?.filter(property => options.propertyIds.includes(property.id)) || []
+  const sourceVendorIds = getSourceVendorIds(upsells)
+  const copies = buildUpsellCopies(upsells, properties || [], allUpsells, options, reportingCurrency, rates)
+  const copiesToCreate = getCopiesToCreate(copies, options)
+  const copyErrors = validateUpsellCopies(copies, options)
+
+  const toggleProperty = (propertyId: number) => {
+    update({
+      propertyIds: options.propertyIds.includes(propertyId)
+        ? options.propertyIds.filter(id => id !== propertyId)
+        : [...options.propertyIds, propertyId],
+    })
+  }
+
+  const mapVendor = (propertyId: number, sourceVendorId: number, vendorId: number) => {
+    update({
+      vendorMap: {
+        ...options.vendorMap,
+        [propertyId]: { ...options.vendorMap[propertyId], [sourceVendorId]: vendorId },
+      },
+    })
+  }
+
+  const vendorName = (vendorId?: number) => vendors?.find(vendor => vendor.id === vendorId)?.name || `#${vendorId}`
+
+  const copyMutation = useMutation(
+    () => api.post('/upsells/bulk-create', { upsells: copiesToCreate.map(copy => copy.payload) }),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries('upsells')
+        toast.success(`${copiesToCreate.length} upsell${copiesToCreate.length === 1 ? '' : 's'} copied`)
+        onCopied()
+      },
+      onError: (error: any) => {
+        toast.error(error.response?.data?.message || 'Failed to copy upsells')
+      }
+    }
+  )
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="fixed inset-0 bg-gray-600 bg-opacity-75" onClick={onClose} />
+      <div className="relative w-full max-w-3xl max-h-[90vh] flex flex-col bg-white rounded-xl shadow-xl">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">
+            Copy {upsells.length} upsell{upsells.length === 1 ? '' : 's'} to properties
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 overflow-y-auto space-y-6">
+          {!showPreview ? (
+            <>
+              <div>
+                <label className="label">Copy to</label>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {properties?.map((property) => {
+                    const isOnlySource = sourcePropertyIds.size === 1 && sourcePropertyIds.has(property.id)
+                    return (
+                      <label
+                        key={property.id}
+                        className={`flex items-center border rounded-lg px-3 py-2 text-sm ${
+                          isOnlySource ? 'opacity-50' : 'cursor-pointer hover:bg-gray-50'
+                        }`}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={options.propertyIds.includes(property.id)}
+                          onChange={() => toggleProperty(property.id)}
+                          disabled={isOnlySource}
+                          className="h-4 w-4 mr-2 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                        />
+                        <span className="flex-1 truncate">{property.name}</span>
+                        <span className="text-xs text-gray-500">{isOnlySource ? 'source' : property.currency}</span>
+                      </label>
+                    )
+                  })}
+                </div>
+              </div>
+
+              <div>
+                <label className="label">Prices</label>
+                <div className="flex flex-wrap items-center gap-3">
+                  <select
+                    value={options.priceMode}
+                    onChange={(e) => update({ priceMode: e.target.value as CopyPriceMode })}
+                    className="input w-auto"
+                  >
+                    <option value="keep">Keep the same amounts</option>
+                    <option value="percent">Adjust by a percentage</option>
+                    <option value="convert">Convert into each property's currency</option>
+                  </select>
+                  {options.priceMode === 'percent' && (
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="number"
+                        step="1"
+                        min="-99"
+                        value={Number.isFinite(options.percent) ? options.percent : ''}
+                        onChange={(e) => update({ percent: e.target.value === '' ? NaN : Number(e.target.value) })}
+                        className="input w-24"
+                      />
+                      <span className="text-sm text-gray-500">% (negative to lower)</span>
+                    </div>
+                  )}
+                </div>
+                {options.priceMode === 'convert' && (
+                  <p className="mt-1 text-xs text-gray-500">Uses the exchange rates from Settings, rounded to the cent.</p>
+                )}
+              </div>
+
+              <div>
+                <label className="label">Vendors</label>
+                <select
+                  value={options.vendorMode}
+                  onChange={(e) => update({ vendorMode: e.target.value as UpsellCopyOptions['vendorMode'] })}
+                  className="input w-auto"
+                >
+                  <option value="keep">Keep the same vendors</option>
+                  <option value="swap">Swap in local vendors</option>
+                </select>
+
+                {options.vendorMode === 'swap' && (
+                  targetProperties.length === 0 ? (
+                    <p className="mt-2 text-sm text-gray-500">Pick the properties first.</p>
+                  ) : (
+                    <div className="mt-3 space-y-4">
+                      {targetProperties.map((property) => (
+                        <div key={property.id}>
+                          <p className="text-sm font-medium text-gray-900 mb-2">{property.name}</p>
+                          <div className="space-y-2">
+                            {sourceVendorIds.map((sourceVendorId) => (
+                              <div key={sourceVendorId} className="flex items-center gap-2 text-sm">
+                                <span className="w-40 truncate text-gray-600">{vendorName(sourceVendorId)}</span>
+                                <span className="text-gray-400">→</span>
+                                <select
+                                  value={options.vendorMap[property.id]?.[sourceVendorId] || sourceVendorId}
+                                  onChange={(e) => mapVendor(property.id, sourceVendorId, Number(e.target.value))}
+                                  className="input flex-1"
+                                >
+                                  {vendors?.map((vendor) => (
+                                    <option key={vendor.id} value={vendor.id}>
+                                      {vendor.name} ({vendor.service_type})
+                                    </option>
+                                  ))}
+                                </select>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )
+                )}
+              </div>
+
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={options.skipExisting}
+                  onChange={(e) => update({ skipExisting: e.target.checked })}
+                  className="h-4 w-4 mr-2 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                />
+                Skip upsells a property already has with the same title
+              </label>
+
+              {copyErrors.length > 0 && (
+                <ul className="text-sm text-danger-600 list-disc list-inside">
+                  {copyErrors.map(error => <li key={error}>{error}</li>)}
+                </ul>
+              )}
+
+              <p className="text-xs text-gray-500">
+                Images, descriptions, translations, pricing options and availability are copied as they are. Images are shared, not uploaded again.
+              </p>
+            </>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  <th className="py-2 pr-2">Upsell</th>
+                  <th className="py-2 pr-2">Property</th>
+                  <th className="py-2 pr-2">Vendor</th>
+                  <th className="py-2 text-right">Price</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {copies.map((copy) => {
+                  const isSkipped = copy.isDuplicate && options.skipExisting
+                  // Only convert mode requotes the amounts, the others carry the number over as it is
+                  const isUnconverted = options.priceMode !== 'convert'
+                    && Boolean(copy.sourceCurrency) && copy.sourceCurrency !== copy.property.currency
+                  return (
+                    <tr key={`${copy.property.id}-${copy.source.id}`} className={isSkipped || copy.error ? 'text-gray-400' : 'text-gray-900'}>
+                      <td className="py-2 pr-2">
+                        <div className="flex items-center gap-2">
+                          {copy.payload.image_url && (
+                            <img src={copy.payload.image_url} alt="" className="h-8 w-8 rounded object-cover" />
+                          )}
+                          <span>{copy.payload.title}</span>
+                        </div>
+                        {isSkipped && <p className="text-xs">Skipped, already on this property</p>}
+                        {!isSkipped && copy.isDuplicate && <p className="text-xs text-yellow-700">Already on this property, will be added again</p>}
+                        {!isSkipped && isUnconverted && (
+                          <p className="text-xs text-yellow-700 flex items-center">
+                            <AlertTriangle className="h-3 w-3 mr-1" />
+                            {copy.sourceCurrency} amounts kept as {copy.property.currency}, convert prices to requote them
+                          </p>
+                        )}
+                        {copy.error && (
+                          <p className="text-xs text-danger-600 flex items-center">
+                            <AlertTriangle className="h-3 w-3 mr-1" />
+                            {copy.error}
+                          </p>
+                        )}
+                      </td>
+                      <td className="py-2 pr-2">{copy.property.name}</td>
+                      <td className="py-2 pr-2">{vendorName(copy.payload.primary_vendor_id)}</td>
+                      <td className="py-2 text-right whitespace-nowrap">
+                        {copy.payload.price !== copy.source.price || copy.sourceCurrency !== copy.property.currency ? (
+                          <>
+                            <span className="text-xs text-gray-400 line-through mr-1">
+                              {formatUnitPrice(copy.source.price, copy.sourceCurrency, copy.source.price_unit)}
+                            </span>
+                            {formatUnitPrice(copy.payload.price, copy.property.currency, copy.payload.price_unit)}
+                          </>
+                        ) : (
+                          formatUnitPrice(copy.payload.price, copy.property.currency, copy.payload.price_unit)
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between px-6 py-4 border-t border-gray-200">
+          <span className="text-sm text-gray-500">
+            {copiesToCreate.length} upsell{copiesToCreate.length === 1 ? '' : 's'} will be created
+          </span>
+          <div className="flex gap-2">
+            {showPreview ? (
+              <>
+                <button onClick={() => setShowPreview(false)} className="btn-secondary btn-md">
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Back
+                </button>
+                <button
+                  onClick={() => copyMutation.mutate()}
+                  disabled={copiesToCreate.length === 0 || copyErrors.length > 0 || copyMutation.isLoading}
+                  className="btn-primary btn-md"
+                >
+                  <Copy className="h-4 w-4 mr-2" />
+                  {copyMutation.isLoading ? 'Copying...' : 'Create Copies'}
+                </button>
+              </>
+            ) : (
+              <>
+                <button onClick={onClose} className="btn-secondary btn-md">Cancel</button>
+                <button
+                  onClick={() => setShowPreview(true)}
+                  disabled={copies.length === 0 || copyErrors.length > 0}
+                  className="btn-primary btn-md"
+                >
+                  Preview
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
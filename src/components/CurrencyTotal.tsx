@@ -0,0 +1,42 @@
+import { AlertTriangle } from 'lucide-react'
+import type { CurrencyAmounts } from '../types'
+import { formatCurrency } from '../lib/utils'
+import { sortAmounts } from '../lib/currency'
+import { useExchangeRates } from '../hooks/useExchangeRates'
+
+interface CurrencyTotalProps {
+  amounts: CurrencyAmounts
+  className?: string
+  // Hide the per-currency lines, e.g. in tight spots like board column headers
+  compact?: boolean
+}
+
+export const CurrencyTotal: React.FC<CurrencyTotalProps> = ({ amounts, className = '', compact = false }) => {
+  const { reportingCurrency, convert } = useExchangeRates()
+  const { total, missing } = convert(amounts)
+  const breakdown = sortAmounts(amounts)
+  const isMixed = breakdown.length > 1 || (breakdown.length === 1 && breakdown[0][0] !== reportingCurrency)
+  const breakdownText = breakdown.map(([currency, amount]) => formatCurrency(amount, currency)).join(' · ')
+
+  return (
+    <div title={isMixed ? breakdownText : undefined}>
+      <p className={className}>
+        {formatCurrency(total, reportingCurrency)}
+        {missing.length > 0 && (
+          <AlertTriangle
+            className="inline h-4 w-4 ml-1 text-yellow-500 align-baseline"
+            aria-label={`No exchange rate for ${missing.join(', ')}; excluded from the total`}
+          />
+        )}
+      </p>
+      {!compact && isMixed && (
+        <p className="text-xs text-gray-500 truncate">{breakdownText}</p>
+      )}
+      {!compact && missing.length > 0 && (
+        <p className="text-xs text-yellow-700">
+          No rate for {missing.join(', ')}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,246 @@
+import { useEffect, useRef } from 'react'
+import { useForm } from 'react-hook-form'
+import { useQuery, useMutation, useQueryClient } from 'react-query'
+import { AlertTriangle, Mail, MessageCircle, Send, X } from 'lucide-react'
+import { api } from '../lib/api'
+import type { DispatchChannel, Order, Vendor } from '../types'
+import {
+  buildWhatsAppLink,
+  defaultDispatchTemplates,
+  dispatchChannels,
+  dispatchPlaceholders,
+  renderDispatchTemplate,
+  responseWindows
+} from '../lib/dispatch'
+import toast from 'react-hot-toast'
+
+interface DispatchOrderModalProps {
+  order: Order
+  escalate?: boolean
+  onClose: () => void
+}
+
+interface DispatchFormData {
+  vendor_id: number
+  channel: DispatchChannel
+  subject: string
+  message: string
+  respond_within_hours: number
+  auto_escalate: boolean
+}
+
+export const DispatchOrderModal: React.FC<DispatchOrderModalProps> = ({ order, escalate = false, onClose }) => {
+  const queryClient = useQueryClient()
+  const primaryVendorId = order.upsell?.primary_vendor_id || order.vendor_id
+  const secondaryVendorId = order.upsell?.secondary_vendor_id
+
+  const { data: vendors } = useQuery<Vendor[]>(
+    'vendors',
+    () => api.get('/vendors').then(res => res.data.vendors)
+  )
+
+  const { register, handleSubmit, watch, setValue, formState: { errors, dirtyFields } } = useForm<DispatchFormData>({
+    defaultValues: {
+      vendor_id: escalate && secondaryVendorId ? secondaryVendorId : primaryVendorId,
+      channel: 'email',
+      subject: '',
+      message: '',
+      respond_within_hours: 2,
+      auto_escalate: Boolean(secondaryVendorId) && !escalate,
+    }
+  })
+
+  const vendorId = watch('vendor_id')
+  const channel = watch('channel')
+  const vendor = vendors?.find(v => v.id === vendorId)
+  const isPrimary = vendorId === primaryVendorId
+
+  const isChannelAvailable = (value: DispatchChannel) =>
+    value === 'email' ? Boolean(vendor?.email) : Boolean(vendor?.whatsapp_number)
+
+  // Stay on a channel the vendor can actually receive
+  useEffect(() => {
+    if (!vendor || isChannelAvailable(channel)) return
+    const available = dispatchChannels.find(({ value }) => isChannelAvailable(value))
+    if (available) setValue('channel', available.value)
+  }, [vendor, channel, setValue])
+
+  // Refill the template when the recipient or channel changes, keyed on ids since order refetches
+  // rebuild the objects, and never over what the admin already typed
+  const templateKey = `${channel}:${vendor?.id ?? ''}`
+  const filledTemplateKey = useRef<string | null>(null)
+  useEffect(() => {
+    if (filledTemplateKey.current === templateKey) return
+    filledTemplateKey.current = templateKey
+    const template = defaultDispatchTemplates[channel]
+    if (!dirtyFields.subject) setValue('subject', renderDispatchTemplate(template.subject, order, vendor))
+    if (!dirtyFields.message) setValue('message', renderDispatchTemplate(template.message, order, vendor))
+  }, [templateKey, channel, vendor, order, dirtyFields, setValue])
+
+  const dispatchMutation = useMutation(
+    (data: DispatchFormData) => api.post(`/orders/${order.id}/dispatches`, {
+      ...data,
+      subject: data.channel === 'email' ? data.subject : undefined,
+      auto_escalate: isPrimary && data.auto_escalate,
+      is_escalation: escalate,
+    }),
+    {
+      onSuccess: (_, data) => {
+        queryClient.invalidateQueries('orders')
+        queryClient.invalidateQueries(['order', String(order.id)])
+        toast.success(data.channel === 'email' ? 'Order sent to vendor' : 'Dispatch recorded')
+        onClose()
+      },
+      onError: (error: any) => {
+        const message = error.response?.data?.message || 'Failed to dispatch order'
+        toast.error(message)
+      }
+    }
+  )
+
+  const onSubmit = (data: DispatchFormData) => {
+    // WhatsApp has no sending API here, so the admin sends it from their own account
+    if (data.channel === 'whatsapp' && vendor?.whatsapp_number) {
+      window.open(buildWhatsAppLink(vendor.whatsapp_number, data.message), '_blank', 'noopener,noreferrer')
+    }
+    dispatchMutation.mutate(data)
+  }
+
+  const getVendorLabel = (v: Vendor) => {
+    if (v.id === primaryVendorId) return `${v.name} (primary)`
+    if (v.id === secondaryVendorId) return `${v.name} (secondary)`
+    return v.name
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="fixed inset-0 bg-gray-600 bg-opacity-75" onClick={onClose} />
+      <div className="relative w-full max-w-lg bg-white rounded-xl shadow-xl">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">
+            {escalate ? 'Escalate' : 'Dispatch'} Order #{order.id}
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="px-6 py-4 space-y-4 max-h-[75vh] overflow-y-auto">
+          {escalate && (
+            <div className="flex items-start p-3 rounded-lg bg-yellow-50 border border-yellow-200 text-sm text-yellow-800">
+              <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+              The primary vendor declined or did not reply in time. This sends the order to the secondary vendor.
+            </div>
+          )}
+
+          <div>
+            <label className="label">Vendor *</label>
+            <select
+              {...register('vendor_id', { required: 'Vendor is required', valueAsNumber: true })}
+              className="input"
+            >
+              {vendors?.map((v) => (
+                <option key={v.id} value={v.id}>
+                  {getVendorLabel(v)}
+                </option>
+              ))}
+            </select>
+            {errors.vendor_id && (
+              <p className="mt-1 text-sm text-danger-600">{errors.vendor_id.message}</p>
+            )}
+          </div>
+
+          <div>
+            <label className="label">Send via</label>
+            <div className="flex gap-3">
+              {dispatchChannels.map(({ value, label }) => (
+                <label
+                  key={value}
+                  className={`flex items-center text-sm ${isChannelAvailable(value) ? 'text-gray-700' : 'text-gray-400'}`}
+                >
+                  <input
+                    {...register('channel')}
+                    type="radio"
+                    value={value}
+                    disabled={!isChannelAvailable(value)}
+                    className="h-4 w-4 mr-2 text-primary-600 focus:ring-primary-500 border-gray-300"
+                  />
+                  {value === 'email' ? <Mail className="h-4 w-4 mr-1" /> : <MessageCircle className="h-4 w-4 mr-1" />}
+                  {label}
+                </label>
+              ))}
+            </div>
+            {vendor && !vendor.whatsapp_number && (
+              <p className="mt-1 text-xs text-gray-500">Add a WhatsApp number to this vendor to send via WhatsApp.</p>
+            )}
+          </div>
+
+          {channel === 'email' && (
+            <div>
+              <label className="label">Subject *</label>
+              <input
+                {...register('subject', { validate: value => channel !== 'email' || Boolean(value.trim()) || 'Subject is required' })}
+                type="text"
+                className="input"
+              />
+              {errors.subject && (
+                <p className="mt-1 text-sm text-danger-600">{errors.subject.message}</p>
+              )}
+            </div>
+          )}
+
+          <div>
+            <label className="label">Message *</label>
+            <textarea
+              {...register('message', { required: 'Message is required' })}
+              rows={9}
+              className="input font-mono text-xs"
+            />
+            {errors.message && (
+              <p className="mt-1 text-sm text-danger-600">{errors.message.message}</p>
+            )}
+            <p className="mt-1 text-xs text-gray-500">
+              Filled from the {channel === 'email' ? 'email' : 'WhatsApp'} template using{' '}
+              {dispatchPlaceholders.map(key => `{{${key}}}`).join(', ')}.
+            </p>
+          </div>
+
+          <div>
+            <label className="label">Vendor must reply within</label>
+            <select {...register('respond_within_hours', { valueAsNumber: true })} className="input">
+              {responseWindows.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+
+          {isPrimary && secondaryVendorId && (
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                {...register('auto_escalate')}
+                type="checkbox"
+                className="h-4 w-4 mr-2 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+              />
+              Escalate to the secondary vendor if this one declines or does not reply in time
+            </label>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button type="button" onClick={onClose} className="btn-secondary btn-md">
+              Cancel
+            </button>
+            <button type="submit" disabled={dispatchMutation.isLoading} className="btn-primary btn-md">
+              <Send className="h-4 w-4 mr-2" />
+              {dispatchMutation.isLoading
+                ? 'Sending...'
+                : channel === 'whatsapp'
+                ? 'Open WhatsApp'
+                : 'Send Email'
+              }
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
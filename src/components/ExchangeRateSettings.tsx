@@ -0,0 +1,231 @@
+import { useEffect, useRef, useState } from 'react'
+import { useMutation, useQueryClient } from 'react-query'
+import { Plus, Save, Trash2, Upload } from 'lucide-react'
+import { api } from '../lib/api'
+import { currencies, parseExchangeRatesCSV, rebaseExchangeRates } from '../lib/currency'
+import { formatDateTime } from '../lib/utils'
+import { useExchangeRates } from '../hooks/useExchangeRates'
+import type { ExchangeRate, ExchangeRateSettings as ExchangeRateSettingsData } from '../types'
+import toast from 'react-hot-toast'
+
+interface RateRow {
+  currency: string
+  rate: string
+  updated_at?: string
+}
+
+const toRows = (rates: ExchangeRate[]): RateRow[] =>
+  rates.map(r => ({ currency: r.currency, rate: String(r.rate), updated_at: r.updated_at }))
+
+export const ExchangeRateSettings: React.FC = () => {
+  const queryClient = useQueryClient()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const { reportingCurrency: savedCurrency, rates: savedRates, isLoading } = useExchangeRates()
+  const [reportingCurrency, setReportingCurrency] = useState(savedCurrency)
+  const [rows, setRows] = useState<RateRow[]>([])
+
+  // Reset the draft whenever the saved settings load or change
+  useEffect(() => {
+    setReportingCurrency(savedCurrency)
+    setRows(toRows(savedRates))
+  }, [savedCurrency, savedRates])
+
+  const rowErrors = rows.map(row => {
+    if (!/^[A-Z]{3}$/.test(row.currency)) return 'Use a 3-letter currency code'
+    if (row.currency === reportingCurrency) return 'This is the reporting currency'
+    if (rows.filter(r => r.currency === row.currency).length > 1) return 'Duplicate currency'
+    const rate = Number(row.rate)
+    if (!row.rate || !Number.isFinite(rate) || rate <= 0) return 'Enter a rate above 0'
+    return null
+  })
+
+  const saveMutation = useMutation(
+    (data: ExchangeRateSettingsData) => api.put('/exchange-rates', data),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries('exchange-rates')
+        toast.success('Currency settings saved')
+      },
+      onError: (error: any) => {
+        toast.error(error.response?.data?.message || 'Failed to save currency settings')
+      }
+    }
+  )
+
+  const updateRow = (index: number, changes: Partial<RateRow>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)))
+  }
+
+  const addRow = () => {
+    const used = new Set([reportingCurrency, ...rows.map(r => r.currency)])
+    const next = currencies.find(c => !used.has(c.code))
+    setRows(prev => [...prev, { currency: next?.code || '', rate: '' }])
+  }
+
+  // Rates are quoted against the reporting currency, so they're requoted rather than kept as they are
+  const changeReportingCurrency = (nextCurrency: string) => {
+    if (rows.length > 0) {
+      const rebased = rebaseExchangeRates(
+        rows.map(row => ({ currency: row.currency, rate: Number(row.rate) })),
+        reportingCurrency,
+        nextCurrency
+      )
+      if (rebased) {
+        setRows(rebased.map(r => ({ currency: r.currency, rate: String(r.rate) })))
+        toast.success(`Rates converted to ${nextCurrency}, review and save`)
+      } else {
+        setRows([])
+        toast.error(`There was no ${nextCurrency} rate to convert from, enter the rates against ${nextCurrency} again`)
+      }
+    }
+    setReportingCurrency(nextCurrency)
+  }
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    const { rates, errors } = parseExchangeRatesCSV(await file.text())
+    if (errors.length > 0) {
+      toast.error(errors.slice(0, 3).join('\n'))
+    }
+    if (rates.length === 0) return
+
+    // Imported rates replace existing ones for the same currency and leave the rest untouched
+    const imported = rates.filter(r => r.currency !== reportingCurrency)
+    if (imported.length === 0) return
+    setRows(prev => [
+      ...prev.filter(row => !imported.some(r => r.currency === row.currency)),
+      ...imported.map(r => ({ currency: r.currency, rate: String(r.rate) })),
+    ])
+    toast.success(`Imported ${imported.length} rate${imported.length === 1 ? '' : 's'}, review and save`)
+  }
+
+  const handleSave = () => {
+    saveMutation.mutate({
+      reporting_currency: reportingCurrency,
+      rates: rows.map(row => ({ currency: row.currency, rate: Number(row.rate) })),
+    })
+  }
+
+  if (isLoading) {
+    return <div className="card p-6 h-64 animate-pulse bg-gray-100" />
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="card p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Reporting Currency</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          Revenue totals on the Dashboard, Orders and Analytics are converted into this currency.
+          Each property still charges guests in its own currency.
+        </p>
+        <select
+          value={reportingCurrency}
+          onChange={(e) => changeReportingCurrency(e.target.value)}
+          className="input max-w-xs"
+        >
+          {currencies.map((curr) => (
+            <option key={curr.code} value={curr.code}>
+              {curr.code} - {curr.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="card p-6">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-lg font-medium text-gray-900">Exchange Rates</h3>
+          <div className="flex space-x-2">
+            <input ref={fileInputRef} type="file" accept=".csv,text/csv" onChange={handleImport} className="hidden" />
+            <button onClick={() => fileInputRef.current?.click()} className="btn-secondary btn-sm">
+              <Upload className="h-4 w-4 mr-1" />
+              Import CSV
+            </button>
+            <button onClick={addRow} className="btn-secondary btn-sm">
+              <Plus className="h-4 w-4 mr-1" />
+              Add Rate
+            </button>
+          </div>
+        </div>
+        <p className="text-sm text-gray-500 mb-4">
+          How much one unit of each currency is worth in {reportingCurrency}. Amounts in a currency without a rate
+          are left out of converted totals and flagged. CSV imports expect two columns: currency and rate.
+        </p>
+
+        {rows.length === 0 ? (
+          <p className="text-sm text-gray-500 py-6 text-center border border-dashed border-gray-300 rounded-lg">
+            No exchange rates yet. Add one for every currency your properties use besides {reportingCurrency}.
+          </p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead>
+              <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                <th className="py-2 pr-4">Currency</th>
+                <th className="py-2 pr-4">1 unit =</th>
+                <th className="py-2 pr-4">Last updated</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map((row, index) => (
+                <tr key={index} className="align-top">
+                  <td className="py-2 pr-4">
+                    <input
+                      value={row.currency}
+                      onChange={(e) => updateRow(index, { currency: e.target.value.toUpperCase(), updated_at: undefined })}
+                      maxLength={3}
+                      className="input w-24 uppercase"
+                      placeholder="EUR"
+                    />
+                  </td>
+                  <td className="py-2 pr-4">
+                    <div className="flex items-center">
+                      <input
+                        value={row.rate}
+                        onChange={(e) => updateRow(index, { rate: e.target.value, updated_at: undefined })}
+                        type="number"
+                        step="any"
+                        min="0"
+                        className="input w-36"
+                        placeholder="1.00"
+                      />
+                      <span className="ml-2 text-sm text-gray-500">{reportingCurrency}</span>
+                    </div>
+                    {rowErrors[index] && (
+                      <p className="mt-1 text-sm text-danger-600">{rowErrors[index]}</p>
+                    )}
+                  </td>
+                  <td className="py-2 pr-4 text-sm text-gray-500 pt-4">
+                    {row.updated_at ? formatDateTime(row.updated_at) : 'Unsaved'}
+                  </td>
+                  <td className="py-2 text-right">
+                    <button
+                      onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+                      className="p-2 text-gray-400 hover:text-red-600"
+                      title="Remove rate"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleSave}
+          disabled={saveMutation.isLoading || rowErrors.some(Boolean)}
+          className="btn-primary btn-md"
+        >
+          <Save className="h-4 w-4 mr-2" />
+          {saveMutation.isLoading ? 'Saving...' : 'Save Changes'}
+        </button>
+      </div>
+    </div>
+  )
+}
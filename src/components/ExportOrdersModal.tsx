@@ -0,0 +1,195 @@
+import { useState } from 'react'
+import { ArrowDown, ArrowUp, Download, X } from 'lucide-react'
+import type { OrderFilters } from '../lib/orderFilters'
+import {
+  defaultExportColumns,
+  exportFormats,
+  loadExportColumns,
+  orderExportColumns,
+  saveExportColumns,
+  type ExportFormat
+} from '../lib/orderExport'
+import { exportOrdersData } from '../lib/utils'
+import toast from 'react-hot-toast'
+
+interface ExportOrdersModalProps {
+  filters: OrderFilters
+  matchingCount: number
+  selectedIds: number[]
+  onClose: () => void
+}
+
+export const ExportOrdersModal: React.FC<ExportOrdersModalProps> = ({ filters, matchingCount, selectedIds, onClose }) => {
+  const [scope, setScope] = useState<'view' | 'selection'>(selectedIds.length > 0 ? 'selection' : 'view')
+  const [format, setFormat] = useState<ExportFormat>('csv')
+  const [columns, setColumns] = useState<string[]>(loadExportColumns)
+  const [isExporting, setIsExporting] = useState(false)
+
+  // Chosen columns in their export order, followed by the ones left out
+  const unusedColumns = orderExportColumns.filter(column => !columns.includes(column.key))
+  const getLabel = (key: string) => orderExportColumns.find(column => column.key === key)?.label || key
+
+  const toggleColumn = (key: string) => {
+    setColumns(prev => (prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]))
+  }
+
+  const moveColumn = (index: number, offset: number) => {
+    setColumns(prev => {
+      const next = [...prev]
+      const [column] = next.splice(index, 1)
+      next.splice(index + offset, 0, column)
+      return next
+    })
+  }
+
+  const handleExport = async () => {
+    setIsExporting(true)
+    try {
+      await exportOrdersData({
+        filters,
+        ids: scope === 'selection' ? selectedIds : undefined,
+        columns,
+        format,
+      })
+      saveExportColumns(columns)
+      toast.success('Orders exported')
+      onClose()
+    } catch (error) {
+      toast.error('Failed to export orders')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const exportCount = scope === 'selection' ? selectedIds.length : matchingCount
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="fixed inset-0 bg-gray-600 bg-opacity-75" onClick={onClose} />
+      <div className="relative w-full max-w-lg bg-white rounded-xl shadow-xl">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Export Orders</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-5 max-h-[75vh] overflow-y-auto">
+          <div>
+            <label className="label">Orders</label>
+            <div className="space-y-2">
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="radio"
+                  checked={scope === 'view'}
+                  onChange={() => setScope('view')}
+                  className="h-4 w-4 mr-2 text-primary-600 focus:ring-primary-500 border-gray-300"
+                />
+                All {matchingCount} orders matching the current search, filters and sort
+              </label>
+              <label className={`flex items-center text-sm ${selectedIds.length > 0 ? 'text-gray-700' : 'text-gray-400'}`}>
+                <input
+                  type="radio"
+                  checked={scope === 'selection'}
+                  onChange={() => setScope('selection')}
+                  disabled={selectedIds.length === 0}
+                  className="h-4 w-4 mr-2 text-primary-600 focus:ring-primary-500 border-gray-300"
+                />
+                Only the {selectedIds.length} selected order{selectedIds.length === 1 ? '' : 's'}
+              </label>
+            </div>
+          </div>
+
+          <div>
+            <label className="label">Format</label>
+            <div className="flex gap-4">
+              {exportFormats.map(({ value, label }) => (
+                <label key={value} className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    checked={format === value}
+                    onChange={() => setFormat(value)}
+                    className="h-4 w-4 mr-2 text-primary-600 focus:ring-primary-500 border-gray-300"
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between">
+              <label className="label">Columns</label>
+              <button
+                onClick={() => setColumns(defaultExportColumns)}
+                className="text-xs text-blue-600 hover:text-blue-800"
+              >
+                Reset to default
+              </button>
+            </div>
+            <ul className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+              {columns.map((key, index) => (
+                <li key={key} className="flex items-center px-3 py-1.5 text-sm">
+                  <input
+                    type="checkbox"
+                    checked
+                    onChange={() => toggleColumn(key)}
+                    className="h-4 w-4 mr-2 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                  />
+                  <span className="flex-1 text-gray-900">{getLabel(key)}</span>
+                  <button
+                    onClick={() => moveColumn(index, -1)}
+                    disabled={index === 0}
+                    className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                    title="Move up"
+                  >
+                    <ArrowUp className="h-3 w-3" />
+                  </button>
+                  <button
+                    onClick={() => moveColumn(index, 1)}
+                    disabled={index === columns.length - 1}
+                    className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                    title="Move down"
+                  >
+                    <ArrowDown className="h-3 w-3" />
+                  </button>
+                </li>
+              ))}
+              {unusedColumns.map((column) => (
+                <li key={column.key} className="flex items-center px-3 py-1.5 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={false}
+                    onChange={() => toggleColumn(column.key)}
+                    className="h-4 w-4 mr-2 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                  />
+                  <span className="flex-1 text-gray-500">{column.label}</span>
+                  <span className="text-xs text-gray-400">{column.group}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between px-6 py-4 border-t border-gray-200">
+          <span className="text-sm text-gray-500">
+            {exportCount} order{exportCount === 1 ? '' : 's'}, {columns.length} column{columns.length === 1 ? '' : 's'}
+          </span>
+          <div className="flex space-x-3">
+            <button onClick={onClose} className="btn-secondary btn-md">
+              Cancel
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={isExporting || columns.length === 0 || exportCount === 0}
+              className="btn-primary btn-md"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              {isExporting ? 'Exporting...' : 'Export'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
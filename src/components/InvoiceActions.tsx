@@ -0,0 +1,84 @@
+import { useState } from 'react'
+import { useQueryClient } from 'react-query'
+import { FileDown, Printer } from 'lucide-react'
+import type { Order, OrderInvoice } from '../types'
+import {
+  canInvoice,
+  downloadInvoicePdf,
+  issueInvoice,
+  openInvoiceWindow,
+  printInvoice,
+  renderInvoiceHtml
+} from '../lib/invoices'
+import toast from 'react-hot-toast'
+
+interface InvoiceActionsProps {
+  order: Order
+}
+
+export const InvoiceActions: React.FC<InvoiceActionsProps> = ({ order }) => {
+  const queryClient = useQueryClient()
+  const [pending, setPending] = useState<'print' | 'pdf' | null>(null)
+
+  if (!canInvoice(order) || !order.property) {
+    return null
+  }
+
+  const property = order.property
+
+  const getInvoice = async (): Promise<OrderInvoice> => {
+    if (order.invoice) return order.invoice
+    const invoice = await issueInvoice(order.id)
+    queryClient.invalidateQueries(['order', String(order.id)])
+    return invoice
+  }
+
+  const handlePrint = async () => {
+    let printWindow: Window | null = null
+    setPending('print')
+    try {
+      printWindow = openInvoiceWindow()
+      const invoice = await getInvoice()
+      printInvoice(printWindow, renderInvoiceHtml(order, invoice, property))
+    } catch (error: any) {
+      printWindow?.close()
+      toast.error(error.response?.data?.message || error.message || 'Failed to generate invoice')
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const handleDownload = async () => {
+    setPending('pdf')
+    try {
+      const invoice = await getInvoice()
+      await downloadInvoicePdf(order, invoice)
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to download invoice')
+    } finally {
+      setPending(null)
+    }
+  }
+
+  return (
+    <div className="flex items-center">
+      <button
+        onClick={handlePrint}
+        disabled={pending !== null}
+        className="btn-secondary btn-md rounded-r-none"
+        title={order.invoice ? `Print invoice ${order.invoice.number}` : 'Issue and print invoice'}
+      >
+        <Printer className="h-4 w-4 mr-2" />
+        {pending === 'print' ? 'Preparing...' : 'Invoice'}
+      </button>
+      <button
+        onClick={handleDownload}
+        disabled={pending !== null}
+        className="btn-secondary btn-md rounded-l-none border-l-0"
+        title="Download PDF"
+      >
+        <FileDown className="h-4 w-4" />
+      </button>
+    </div>
+  )
+}
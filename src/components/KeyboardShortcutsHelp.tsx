@@ -0,0 +1,55 @@
+import { X } from 'lucide-react'
+
+interface KeyboardShortcutsHelpProps {
+  onClose: () => void
+}
+
+const shortcuts = [
+  { keys: ['j'], description: 'Next order' },
+  { keys: ['k'], description: 'Previous order' },
+  { keys: ['x'], description: 'Select or deselect the focused order' },
+  { keys: ['c'], description: 'Confirm the selected orders, or the focused one' },
+  { keys: ['f'], description: 'Fulfil the selected orders, or the focused one' },
+  { keys: ['d'], description: 'Cancel the selected orders, or the focused one' },
+  { keys: ['Enter'], description: 'Open the focused order' },
+  { keys: ['/'], description: 'Focus search' },
+  { keys: ['Esc'], description: 'Leave search or clear the focus' },
+  { keys: ['?'], description: 'Show or hide this help' },
+]
+
+export const KeyboardShortcutsHelp: React.FC<KeyboardShortcutsHelpProps> = ({ onClose }) => {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="fixed inset-0 bg-gray-600 bg-opacity-75" onClick={onClose} />
+      <div className="relative w-full max-w-md bg-white rounded-xl shadow-xl">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Keyboard Shortcuts</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4">
+          <p className="text-sm text-gray-500 mb-4">Available in the table view of Orders.</p>
+          <dl className="space-y-2">
+            {shortcuts.map(({ keys, description }) => (
+              <div key={description} className="flex items-center justify-between text-sm">
+                <dt className="text-gray-700">{description}</dt>
+                <dd className="flex gap-1">
+                  {keys.map(key => (
+                    <kbd
+                      key={key}
+                      className="min-w-[1.75rem] px-1.5 py-0.5 text-center text-xs font-mono font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded"
+                    >
+                      {key}
+                    </kbd>
+                  ))}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -14,6 +14,9 @@ import {
   User
 } from 'lucide-react'
 import { useAuth } from '../contexts/AuthContext'
+import { useOrderEvents } from '../contexts/OrderEventsContext'
+import { PinnedOrderViews } from './PinnedOrderViews'
+import { NotificationCenter } from './NotificationCenter'
 
 interface LayoutProps {
   children: React.ReactNode
@@ -32,6 +35,7 @@ const navigation = [
 export const Layout: React.FC<LayoutProps> = ({ children }) => {
   const [sidebarOpen, setSidebarOpen] = useState(false)
   const { user, logout } = useAuth()
+  const { unseenCount } = useOrderEvents()
   const location = useLocation()
 
   return (
@@ -51,7 +55,7 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
           </div>
           <nav className="flex-1 px-4 py-4 space-y-1">
             {navigation.map((item) => {
-              const isActive = location.pathname === item.href
+              const isActive = location.pathname === item.href || location.pathname.startsWith(`${item.href}/`)
               return (
                 <Link
                   key={item.name}
@@ -64,10 +68,16 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
                 >
                   <item.icon className="mr-3 h-5 w-5" />
                   {item.name}
+                  {item.href === '/orders' && unseenCount > 0 && (
+                    <span className="ml-auto inline-flex items-center justify-center min-w-[1.25rem] px-1.5 py-0.5 rounded-full text-xs font-medium bg-primary-600 text-white">
+                      {unseenCount > 99 ? '99+' : unseenCount}
+                    </span>
+                  )}
                 </Link>
               )
             })}
           </nav>
+          <PinnedOrderViews />
         </div>
       </div>
 
@@ -79,7 +89,7 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
           </div>
           <nav className="flex-1 px-4 py-4 space-y-1">
             {navigation.map((item) => {
-              const isActive = location.pathname === item.href
+              const isActive = location.pathname === item.href || location.pathname.startsWith(`${item.href}/`)
               return (
                 <Link
                   key={item.name}
@@ -92,10 +102,16 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
                 >
                   <item.icon className="mr-3 h-5 w-5" />
                   {item.name}
+                  {item.href === '/orders' && unseenCount > 0 && (
+                    <span className="ml-auto inline-flex items-center justify-center min-w-[1.25rem] px-1.5 py-0.5 rounded-full text-xs font-medium bg-primary-600 text-white">
+                      {unseenCount > 99 ? '99+' : unseenCount}
+                    </span>
+                  )}
                 </Link>
               )
             })}
           </nav>
+          <PinnedOrderViews />
         </div>
       </div>
 
@@ -114,6 +130,8 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
           <div className="flex flex-1 gap-x-4 self-stretch lg:gap-x-6">
             <div className="flex flex-1"></div>
             <div className="flex items-center gap-x-4 lg:gap-x-6">
+              <NotificationCenter />
+
               {/* User menu */}
               <div className="flex items-center gap-x-2">
                 <div className="flex items-center gap-x-2">
@@ -0,0 +1,101 @@
+import { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useQuery } from 'react-query'
+import { AlarmClock, Bell } from 'lucide-react'
+import { api } from '../lib/api'
+import { getSlaState, formatSlaDistance, describeSla } from '../lib/sla'
+import { toOrderQueryParams, toOrdersLink } from '../lib/orderFilters'
+import { useOrderSlas } from '../hooks/useOrderSlas'
+import type { Order, PaginatedResponse } from '../types'
+import toast from 'react-hot-toast'
+
+const overdueFilters = { overdue: true, sortBy: 'date' as const, sortOrder: 'asc' as const }
+// Kept for the browser session so a reload doesn't repeat the summary
+const SUMMARY_SHOWN_KEY = 'sla-overdue-summary-shown'
+
+export const NotificationCenter: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false)
+  const { slas } = useOrderSlas()
+
+  const { data } = useQuery<PaginatedResponse<Order>>(
+    ['orders', 'overdue'],
+    () => api.get(`/orders?${toOrderQueryParams(overdueFilters, 1, 20).toString()}`).then(res => res.data),
+    { refetchInterval: 60000 }
+  )
+
+  const overdueOrders = data?.data || []
+  const overdueCount = data?.total ?? overdueOrders.length
+
+  // New breaches are alerted one by one from the order.sla_breached events, this only sums up
+  // what was already overdue when the admin was opened
+  useEffect(() => {
+    if (!data || data.total === 0 || sessionStorage.getItem(SUMMARY_SHOWN_KEY)) return
+    sessionStorage.setItem(SUMMARY_SHOWN_KEY, 'true')
+    toast.error(`${data.total} order${data.total === 1 ? ' is' : 's are'} past their SLA`, { id: 'sla-overdue' })
+  }, [data])
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-1.5 text-gray-400 hover:text-gray-600"
+        title="Notifications"
+      >
+        <Bell className="h-5 w-5" />
+        {overdueCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 inline-flex items-center justify-center min-w-[1.125rem] px-1 rounded-full text-[10px] font-semibold bg-danger-600 text-white">
+            {overdueCount > 99 ? '99+' : overdueCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 z-50 mt-2 w-80 bg-white rounded-lg shadow-lg border border-gray-200">
+            <div className="px-4 py-3 border-b border-gray-200">
+              <h3 className="text-sm font-semibold text-gray-900">Notifications</h3>
+            </div>
+            {overdueOrders.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-center text-gray-500">All orders are within their SLAs</p>
+            ) : (
+              <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+                {overdueOrders.map(order => {
+                  const state = getSlaState(order, slas)
+                  return (
+                    <li key={order.id}>
+                      <Link
+                        to={`/orders/${order.id}`}
+                        onClick={() => setIsOpen(false)}
+                        className="flex items-start px-4 py-3 hover:bg-gray-50"
+                      >
+                        <AlarmClock className="h-4 w-4 mt-0.5 mr-3 flex-shrink-0 text-danger-600" />
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium text-gray-900 truncate">
+                            #{order.id} · {order.guest_name}
+                          </p>
+                          <p className="text-xs text-gray-500 truncate">
+                            {state ? `${formatSlaDistance(state)} · ${describeSla(state.sla)}` : `Overdue ${order.status} order`}
+                          </p>
+                        </div>
+                      </Link>
+                    </li>
+                  )
+                })}
+              </ul>
+            )}
+            {overdueCount > 0 && (
+              <Link
+                to={toOrdersLink({ overdue: '1' })}
+                onClick={() => setIsOpen(false)}
+                className="block px-4 py-2 text-sm text-center font-medium text-blue-600 hover:text-blue-800 border-t border-gray-200"
+              >
+                View all {overdueCount} overdue orders
+              </Link>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,140 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { GripVertical, MapPin } from 'lucide-react'
+import type { CurrencyAmounts, Order, OrderStatus, OrderSummary } from '../types'
+import { canTransition, orderStatuses } from '../lib/orderStatus'
+import { formatCurrency, formatDateTime } from '../lib/utils'
+import { describeConfiguration } from '../lib/upsellPricing'
+import { RefundBadge } from './RefundBadge'
+import { UnreadNotesBadge } from './UnreadNotesBadge'
+import { CurrencyTotal } from './CurrencyTotal'
+
+interface OrderBoardProps {
+  orders: Order[]
+  summary?: OrderSummary
+  onMove: (order: Order, to: OrderStatus) => void
+}
+
+const columnStyles: Record<OrderStatus, { title: string; accent: string }> = {
+  pending: { title: 'Pending', accent: 'border-yellow-400' },
+  confirmed: { title: 'Confirmed', accent: 'border-blue-400' },
+  fulfilled: { title: 'Fulfilled', accent: 'border-green-400' },
+  cancelled: { title: 'Cancelled', accent: 'border-red-400' },
+}
+
+const sumAmounts = (orders: Order[]): CurrencyAmounts =>
+  orders.reduce<CurrencyAmounts>((sum, order) => {
+    sum[order.currency] = (sum[order.currency] || 0) + parseFloat(order.amount.toString())
+    return sum
+  }, {})
+
+export const OrderBoard: React.FC<OrderBoardProps> = ({ orders, summary, onMove }) => {
+  const [draggedOrder, setDraggedOrder] = useState<Order | null>(null)
+  const [dropTarget, setDropTarget] = useState<OrderStatus | null>(null)
+
+  const endDrag = () => {
+    setDraggedOrder(null)
+    setDropTarget(null)
+  }
+
+  const handleDrop = (status: OrderStatus) => {
+    if (draggedOrder && draggedOrder.status !== status) {
+      onMove(draggedOrder, status)
+    }
+    endDrag()
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+      {orderStatuses.map((status) => {
+        const columnOrders = orders.filter(order => order.status === status)
+        // The summary covers every matching order, the loaded page may only hold some of them
+        const count = summary ? summary[status] : columnOrders.length
+        const total = summary?.amounts_by_status?.[status] ?? sumAmounts(columnOrders)
+        const isAllowed = draggedOrder ? canTransition(draggedOrder.status, status) : false
+        const isSource = draggedOrder?.status === status
+
+        return (
+          <div
+            key={status}
+            onDragOver={(e) => {
+              if (!isAllowed) return
+              e.preventDefault()
+              setDropTarget(status)
+            }}
+            onDragLeave={() => setDropTarget(current => (current === status ? null : current))}
+            onDrop={(e) => {
+              e.preventDefault()
+              if (isAllowed) handleDrop(status)
+            }}
+            className={`flex flex-col rounded-xl border-t-4 ${columnStyles[status].accent} bg-gray-100 transition-opacity ${
+              draggedOrder && !isAllowed && !isSource ? 'opacity-50' : ''
+            } ${dropTarget === status ? 'ring-2 ring-blue-400' : ''}`}
+          >
+            <div className="flex items-center justify-between px-4 py-3">
+              <div className="flex items-center gap-2">
+                <h3 className="text-sm font-semibold text-gray-900">{columnStyles[status].title}</h3>
+                <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-white text-gray-700">
+                  {count}
+                </span>
+              </div>
+              <CurrencyTotal amounts={total} className="text-sm font-medium text-gray-600" compact />
+            </div>
+
+            <div className="flex-1 space-y-3 px-3 pb-3 min-h-[8rem]">
+              {columnOrders.map((order) => (
+                <div
+                  key={order.id}
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move'
+                    setDraggedOrder(order)
+                  }}
+                  onDragEnd={endDrag}
+                  className={`bg-white rounded-lg shadow-sm border border-gray-200 p-3 cursor-grab active:cursor-grabbing ${
+                    draggedOrder?.id === order.id ? 'opacity-40' : ''
+                  }`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <Link to={`/orders/${order.id}`} className="text-xs text-gray-500 hover:text-blue-600">
+                        #{order.id}
+                      </Link>
+                      <p className="text-sm font-semibold text-gray-900 truncate">{order.guest_name}</p>
+                      <p className="text-sm text-gray-700 truncate">{order.upsell?.title}</p>
+                      {order.configuration && (
+                        <p className="text-xs text-gray-500 truncate">{describeConfiguration(order.configuration)}</p>
+                      )}
+                    </div>
+                    <GripVertical className="h-4 w-4 text-gray-300 flex-shrink-0" />
+                  </div>
+                  {order.property && (
+                    <p className="mt-1 flex items-center text-xs text-gray-500 truncate">
+                      <MapPin className="h-3 w-3 mr-1 flex-shrink-0" />
+                      {order.property.name}
+                    </p>
+                  )}
+                  <div className="mt-2 flex items-center justify-between">
+                    <span className="text-sm font-semibold text-gray-900">
+                      {formatCurrency(order.amount, order.currency)}
+                    </span>
+                    <span className="text-xs text-gray-400">{formatDateTime(order.created_at)}</span>
+                  </div>
+                  <div className="mt-1 flex flex-wrap gap-1">
+                    <RefundBadge order={order} />
+                    <UnreadNotesBadge order={order} />
+                  </div>
+                </div>
+              ))}
+              {columnOrders.length < count && (
+                <p className="text-xs text-center text-gray-500">
+                  {count - columnOrders.length} more on other pages
+                </p>
+              )}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,236 @@
+import { Link } from 'react-router-dom'
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+import { eachDayOfInterval, format, isSameDay, isSameMonth, isToday } from 'date-fns'
+import type { Order, OrderStatus } from '../types'
+import { upsellCategories } from '../lib/categories'
+import { orderStatuses } from '../lib/orderStatus'
+import {
+  calendarModes,
+  getCalendarRange,
+  getServiceDateTime,
+  shiftCalendarDate,
+  type CalendarColorBy,
+  type CalendarMode
+} from '../lib/orderCalendar'
+
+interface OrderCalendarProps {
+  orders: Order[]
+  mode: CalendarMode
+  date: Date
+  colorBy: CalendarColorBy
+  isFetching?: boolean
+  onModeChange: (mode: CalendarMode, date?: Date) => void
+  onDateChange: (date: Date | null) => void
+  onColorByChange: (colorBy: CalendarColorBy) => void
+}
+
+const statusColors: Record<OrderStatus, string> = {
+  pending: 'bg-yellow-50 text-yellow-800 border-yellow-400',
+  confirmed: 'bg-blue-50 text-blue-800 border-blue-400',
+  fulfilled: 'bg-green-50 text-green-800 border-green-400',
+  cancelled: 'bg-red-50 text-red-800 border-red-400 line-through',
+}
+
+const categoryPalette = [
+  'bg-orange-50 text-orange-800 border-orange-400',
+  'bg-sky-50 text-sky-800 border-sky-400',
+  'bg-teal-50 text-teal-800 border-teal-400',
+  'bg-indigo-50 text-indigo-800 border-indigo-400',
+  'bg-stone-50 text-stone-800 border-stone-400',
+  'bg-slate-50 text-slate-800 border-slate-400',
+  'bg-pink-50 text-pink-800 border-pink-400',
+  'bg-emerald-50 text-emerald-800 border-emerald-400',
+  'bg-violet-50 text-violet-800 border-violet-400',
+  'bg-gray-50 text-gray-800 border-gray-400',
+]
+
+const getCategoryColor = (category?: string) => {
+  const index = category ? upsellCategories.indexOf(category) : -1
+  return categoryPalette[index >= 0 ? index : categoryPalette.length - 1]
+}
+
+const getOrderColor = (order: Order, colorBy: CalendarColorBy) =>
+  colorBy === 'status' ? statusColors[order.status] : getCategoryColor(order.upsell?.category)
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1)
+
+// All-day services first, then by time
+const sortBySlot = (a: Order, b: Order) =>
+  (a.service_time || '').localeCompare(b.service_time || '')
+
+const OrderChip: React.FC<{ order: Order; colorBy: CalendarColorBy; detailed?: boolean }> = ({ order, colorBy, detailed }) => (
+  <Link
+    to={`/orders/${order.id}`}
+    title={`#${order.id} ${order.upsell?.title || ''} for ${order.guest_name} at ${order.property?.name || ''}`}
+    className={`block truncate rounded border-l-4 px-2 py-1 text-xs hover:opacity-80 ${getOrderColor(order, colorBy)}`}
+  >
+    <span className="font-medium">{order.service_time || 'All day'}</span>{' '}
+    {order.upsell?.title || `Order #${order.id}`}
+    {detailed && (
+      <span className="block truncate opacity-75">
+        {order.guest_name}{order.property ? ` · ${order.property.name}` : ''}
+        {order.vendor ? ` · ${order.vendor.name}` : ''}
+      </span>
+    )}
+  </Link>
+)
+
+export const OrderCalendar: React.FC<OrderCalendarProps> = ({
+  orders,
+  mode,
+  date,
+  colorBy,
+  isFetching,
+  onModeChange,
+  onDateChange,
+  onColorByChange,
+}) => {
+  const { start, end } = getCalendarRange(mode, date)
+  const days = eachDayOfInterval({ start, end })
+
+  const getOrdersOn = (day: Date) =>
+    orders
+      .filter(order => {
+        const serviceDate = getServiceDateTime(order)
+        return serviceDate !== null && isSameDay(serviceDate, day)
+      })
+      .sort(sortBySlot)
+
+  const title = mode === 'month'
+    ? format(date, 'MMMM yyyy')
+    : mode === 'week'
+    ? `${format(start, 'd MMM')} – ${format(end, 'd MMM yyyy')}`
+    : format(date, 'EEEE d MMMM yyyy')
+
+  const legend = colorBy === 'status'
+    ? orderStatuses.map(status => ({ key: status, label: capitalize(status), className: statusColors[status] }))
+    : upsellCategories.map(category => ({ key: category, label: capitalize(category), className: getCategoryColor(category) }))
+
+  const renderDay = () => {
+    const dayOrders = getOrdersOn(date)
+    const allDay = dayOrders.filter(order => !order.service_time)
+    const timed = dayOrders.filter(order => order.service_time)
+    const hours = [...new Set(timed.map(order => order.service_time!.slice(0, 2)))]
+
+    if (dayOrders.length === 0) {
+      return <p className="py-12 text-center text-sm text-gray-500">Nothing scheduled on this day.</p>
+    }
+
+    return (
+      <div className="divide-y divide-gray-100">
+        {allDay.length > 0 && (
+          <div className="flex gap-4 py-3">
+            <span className="w-16 flex-shrink-0 text-xs font-medium text-gray-500">All day</span>
+            <div className="flex-1 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+              {allDay.map(order => <OrderChip key={order.id} order={order} colorBy={colorBy} detailed />)}
+            </div>
+          </div>
+        )}
+        {hours.map(hour => (
+          <div key={hour} className="flex gap-4 py-3">
+            <span className="w-16 flex-shrink-0 text-xs font-medium text-gray-500">{hour}:00</span>
+            <div className="flex-1 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+              {timed
+                .filter(order => order.service_time!.startsWith(hour))
+                .map(order => <OrderChip key={order.id} order={order} colorBy={colorBy} detailed />)}
+            </div>
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-3 p-4 border-b border-gray-200">
+        <div className="flex items-center gap-2">
+          <button onClick={() => onDateChange(shiftCalendarDate(mode, date, -1))} className="btn-secondary btn-sm">
+            <ChevronLeft className="h-4 w-4" />
+          </button>
+          <button onClick={() => onDateChange(null)} className="btn-secondary btn-sm">
+            Today
+          </button>
+          <button onClick={() => onDateChange(shiftCalendarDate(mode, date, 1))} className="btn-secondary btn-sm">
+            <ChevronRight className="h-4 w-4" />
+          </button>
+          <h3 className={`ml-2 text-lg font-semibold text-gray-900 ${isFetching ? 'opacity-60' : ''}`}>{title}</h3>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden">
+            {calendarModes.map((calendarMode) => (
+              <button
+                key={calendarMode}
+                onClick={() => onModeChange(calendarMode)}
+                className={`px-3 py-1.5 text-sm ${
+                  mode === calendarMode ? 'bg-blue-100 text-blue-700' : 'bg-white text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                {capitalize(calendarMode)}
+              </button>
+            ))}
+          </div>
+          <select
+            value={colorBy}
+            onChange={(e) => onColorByChange(e.target.value as CalendarColorBy)}
+            className="input w-40"
+          >
+            <option value="status">Colour by status</option>
+            <option value="category">Colour by category</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="p-4">
+        {mode === 'day' ? renderDay() : (
+          <div className="grid grid-cols-7 gap-px bg-gray-200 border border-gray-200 rounded-lg overflow-hidden">
+            {days.slice(0, 7).map(day => (
+              <div key={day.toISOString()} className="bg-gray-50 px-2 py-1 text-xs font-medium text-gray-500 text-center">
+                {format(day, 'EEE')}
+              </div>
+            ))}
+            {days.map(day => {
+              const dayOrders = getOrdersOn(day)
+              const visible = mode === 'month' ? dayOrders.slice(0, 3) : dayOrders
+              return (
+                <div
+                  key={day.toISOString()}
+                  className={`bg-white p-1.5 space-y-1 ${mode === 'month' ? 'min-h-[6.5rem]' : 'min-h-[16rem]'} ${
+                    mode === 'month' && !isSameMonth(day, date) ? 'bg-gray-50 text-gray-400' : ''
+                  }`}
+                >
+                  <button
+                    onClick={() => onModeChange('day', day)}
+                    className={`text-xs font-medium rounded-full h-6 w-6 ${
+                      isToday(day) ? 'bg-blue-600 text-white' : 'hover:bg-gray-100'
+                    }`}
+                  >
+                    {format(day, 'd')}
+                  </button>
+                  {visible.map(order => (
+                    <OrderChip key={order.id} order={order} colorBy={colorBy} detailed={mode === 'week'} />
+                  ))}
+                  {dayOrders.length > visible.length && (
+                    <button
+                      onClick={() => onModeChange('day', day)}
+                      className="block text-xs text-gray-500 hover:text-gray-700"
+                    >
+                      +{dayOrders.length - visible.length} more
+                    </button>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        <div className="mt-4 flex flex-wrap gap-2">
+          {legend.map(({ key, label, className }) => (
+            <span key={key} className={`inline-flex items-center rounded border-l-4 px-2 py-0.5 text-xs ${className}`}>
+              {label}
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,47 @@
+import type { Order, OrderConfiguration } from '../types'
+import { formatQuantity, formatUnitPrice, getAddonTotal, getConfigurationTotal } from '../lib/upsellPricing'
+import { formatCurrency } from '../lib/utils'
+
+interface OrderConfigurationBreakdownProps {
+  order: Order
+  configuration: OrderConfiguration
+}
+
+export const OrderConfigurationBreakdown: React.FC<OrderConfigurationBreakdownProps> = ({ order, configuration }) => {
+  const { quantity, price_unit, unit_price } = configuration
+  const total = getConfigurationTotal(configuration)
+  // Manual adjustments or discounts leave the order amount different from the configured price
+  const isAdjusted = Math.abs(total - parseFloat(order.amount.toString())) >= 0.01
+
+  return (
+    <table className="w-full text-sm">
+      <tbody className="divide-y divide-gray-100">
+        <tr>
+          <td className="py-1.5 text-gray-900">
+            {configuration.variant?.name || order.upsell?.title || 'Base price'}
+            <span className="text-gray-500"> · {formatQuantity(quantity, price_unit)} × {formatUnitPrice(unit_price, order.currency, price_unit)}</span>
+          </td>
+          <td className="py-1.5 text-right text-gray-900">{formatCurrency(unit_price * quantity, order.currency)}</td>
+        </tr>
+        {configuration.addons.map((addon) => (
+          <tr key={addon.id}>
+            <td className="py-1.5 text-gray-900">
+              + {addon.name}
+              <span className="text-gray-500"> · {formatUnitPrice(addon.price, order.currency, addon.price_unit)}</span>
+            </td>
+            <td className="py-1.5 text-right text-gray-900">
+              {formatCurrency(getAddonTotal(addon, quantity), order.currency)}
+            </td>
+          </tr>
+        ))}
+        <tr>
+          <td className="py-1.5 font-medium text-gray-900">
+            Configured total
+            {isAdjusted && <span className="ml-2 text-xs font-normal text-gray-500">order amount was adjusted</span>}
+          </td>
+          <td className="py-1.5 text-right font-medium text-gray-900">{formatCurrency(total, order.currency)}</td>
+        </tr>
+      </tbody>
+    </table>
+  )
+}
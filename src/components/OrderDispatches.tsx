@@ -0,0 +1,145 @@
+import { useMutation, useQueryClient } from 'react-query'
+import { AlertTriangle, ArrowUpRight, Check, Mail, MessageCircle, Send, X } from 'lucide-react'
+import { api } from '../lib/api'
+import type { DispatchStatus, Order, OrderDispatch } from '../types'
+import { formatDateTime } from '../lib/utils'
+import { canDispatch, isAwaitingReply, needsEscalation } from '../lib/dispatch'
+import toast from 'react-hot-toast'
+
+interface OrderDispatchesProps {
+  order: Order
+  onDispatch: (escalate: boolean) => void
+}
+
+const getDispatchStatus = (dispatch: OrderDispatch): { label: string; className: string } => {
+  if (isAwaitingReply(dispatch)) {
+    return { label: 'Awaiting reply', className: 'bg-yellow-100 text-yellow-800' }
+  }
+  switch (dispatch.status) {
+    case 'accepted':
+      return { label: 'Accepted', className: 'bg-green-100 text-green-800' }
+    case 'declined':
+      return { label: 'Declined', className: 'bg-red-100 text-red-800' }
+    default:
+      return { label: 'No reply', className: 'bg-gray-100 text-gray-800' }
+  }
+}
+
+export const OrderDispatches: React.FC<OrderDispatchesProps> = ({ order, onDispatch }) => {
+  const queryClient = useQueryClient()
+  const dispatches = [...(order.dispatches || [])].sort(
+    (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  )
+
+  // Vendors often reply by phone, so the admin can record the answer by hand
+  const respondMutation = useMutation(
+    ({ dispatchId, status }: { dispatchId: number; status: Extract<DispatchStatus, 'accepted' | 'declined'> }) =>
+      api.put(`/orders/${order.id}/dispatches/${dispatchId}`, { status }),
+    {
+      onSuccess: (_, { status }) => {
+        queryClient.invalidateQueries('orders')
+        queryClient.invalidateQueries(['order', String(order.id)])
+        toast.success(status === 'accepted' ? 'Vendor accepted the order' : 'Vendor declined the order')
+      },
+      onError: (error: any) => {
+        const message = error.response?.data?.message || 'Failed to record vendor reply'
+        toast.error(message)
+      }
+    }
+  )
+
+  return (
+    <div className="card p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium text-gray-900 flex items-center">
+          <Send className="h-5 w-5 mr-2 text-gray-400" />
+          Vendor Dispatch
+        </h3>
+        {canDispatch(order) && (
+          <button onClick={() => onDispatch(false)} className="btn-secondary btn-sm">
+            {dispatches.length > 0 ? 'Send again' : 'Dispatch'}
+          </button>
+        )}
+      </div>
+
+      {needsEscalation(order) && (
+        <div className="flex items-start justify-between gap-3 p-3 mb-4 rounded-lg bg-yellow-50 border border-yellow-200">
+          <div className="flex items-start text-sm text-yellow-800">
+            <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+            The vendor has not accepted this order. Escalate it to{' '}
+            {order.upsell?.secondary_vendor?.name || 'the secondary vendor'}.
+          </div>
+          <button onClick={() => onDispatch(true)} className="btn-primary btn-sm flex-shrink-0">
+            <ArrowUpRight className="h-4 w-4 mr-1" />
+            Escalate
+          </button>
+        </div>
+      )}
+
+      {dispatches.length > 0 ? (
+        <ul className="divide-y divide-gray-100">
+          {dispatches.map((dispatch) => {
+            const status = getDispatchStatus(dispatch)
+            return (
+              <li key={dispatch.id} className="py-3 text-sm">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <p className="text-gray-900 flex items-center">
+                      {dispatch.channel === 'email'
+                        ? <Mail className="h-3 w-3 mr-1 text-gray-400" />
+                        : <MessageCircle className="h-3 w-3 mr-1 text-gray-400" />}
+                      {dispatch.vendor?.name || `Vendor #${dispatch.vendor_id}`}
+                      {dispatch.is_escalation && (
+                        <span className="ml-2 text-xs text-orange-600">Escalation</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {formatDateTime(dispatch.created_at)} by {dispatch.sent_by?.name || 'System'}
+                    </p>
+                    <p className="text-xs text-gray-400">
+                      {dispatch.responded_at
+                        ? `Replied ${formatDateTime(dispatch.responded_at)}`
+                        : `Reply due ${formatDateTime(dispatch.respond_by)}`}
+                    </p>
+                  </div>
+                  <span className={`inline-flex px-2 py-1 rounded-full text-xs font-medium ${status.className}`}>
+                    {status.label}
+                  </span>
+                </div>
+                {dispatch.status === 'sent' && (
+                  <div className="mt-2 flex gap-2">
+                    <button
+                      onClick={() => respondMutation.mutate({ dispatchId: dispatch.id, status: 'accepted' })}
+                      disabled={respondMutation.isLoading}
+                      className="inline-flex items-center px-2 py-1 text-xs rounded-md text-green-700 bg-green-50 hover:bg-green-100"
+                    >
+                      <Check className="h-3 w-3 mr-1" />
+                      Accepted
+                    </button>
+                    <button
+                      onClick={() => respondMutation.mutate({ dispatchId: dispatch.id, status: 'declined' })}
+                      disabled={respondMutation.isLoading}
+                      className="inline-flex items-center px-2 py-1 text-xs rounded-md text-red-700 bg-red-50 hover:bg-red-100"
+                    >
+                      <X className="h-3 w-3 mr-1" />
+                      Declined
+                    </button>
+                  </div>
+                )}
+                <details className="mt-2">
+                  <summary className="text-xs text-gray-500 cursor-pointer">Message</summary>
+                  {dispatch.subject && (
+                    <p className="mt-1 text-xs font-medium text-gray-700">{dispatch.subject}</p>
+                  )}
+                  <pre className="mt-1 text-xs bg-gray-50 rounded-md p-2 whitespace-pre-wrap">{dispatch.message}</pre>
+                </details>
+              </li>
+            )
+          })}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">This order has not been sent to a vendor yet.</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,196 @@
+import { useEffect, useRef, useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from 'react-query'
+import { AtSign, MessageSquare, Send } from 'lucide-react'
+import { api } from '../lib/api'
+import type { Order } from '../types'
+import { formatDateTime } from '../lib/utils'
+import {
+  findMentionQuery,
+  getMentionedUsers,
+  insertMention,
+  splitMentions,
+  type Mentionable
+} from '../lib/mentions'
+import { useAuth } from '../contexts/AuthContext'
+import toast from 'react-hot-toast'
+
+interface OrderNotesProps {
+  order: Order
+}
+
+export const OrderNotes: React.FC<OrderNotesProps> = ({ order }) => {
+  const [body, setBody] = useState('')
+  const [mention, setMention] = useState<{ query: string; start: number } | null>(null)
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+  const unreadCount = order.unread_notes_count || 0
+
+  const notes = [...(order.notes || [])].sort(
+    (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  )
+
+  const { data: teamMembers } = useQuery<Mentionable[]>(
+    'team-members',
+    () => api.get('/team-members').then(res => res.data.users)
+  )
+
+  const mentionOptions = mention
+    ? (teamMembers || [])
+        .filter(member => member.id !== user?.id)
+        .filter(member => member.name.toLowerCase().includes(mention.query.toLowerCase()))
+        .slice(0, 5)
+    : []
+
+  const { mutate: markRead } = useMutation(
+    () => api.post(`/orders/${order.id}/notes/read`),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries('orders')
+        queryClient.invalidateQueries(['order', String(order.id)])
+      }
+    }
+  )
+
+  // Opening the order counts as reading its notes
+  useEffect(() => {
+    if (unreadCount > 0) markRead()
+  }, [order.id, unreadCount, markRead])
+
+  const addNoteMutation = useMutation(
+    (data: { body: string; mention_ids: number[] }) => api.post(`/orders/${order.id}/notes`, data),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries(['order', String(order.id)])
+        queryClient.invalidateQueries('orders')
+        setBody('')
+        setMention(null)
+      },
+      onError: (error: any) => {
+        const message = error.response?.data?.message || 'Failed to add note'
+        toast.error(message)
+      }
+    }
+  )
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setBody(e.target.value)
+    setMention(findMentionQuery(e.target.value, e.target.selectionStart))
+  }
+
+  const selectMention = (member: Mentionable) => {
+    const caret = textareaRef.current?.selectionStart ?? body.length
+    if (!mention) return
+    const next = insertMention(body, mention.start, caret, member)
+    setBody(next.text)
+    setMention(null)
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus()
+      textareaRef.current?.setSelectionRange(next.caret, next.caret)
+    })
+  }
+
+  const submitNote = () => {
+    const text = body.trim()
+    if (!text) return
+    const mentioned = getMentionedUsers(text, teamMembers || [])
+    addNoteMutation.mutate({ body: text, mention_ids: mentioned.map(member => member.id) })
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (mentionOptions.length > 0 && (e.key === 'Enter' || e.key === 'Tab')) {
+      e.preventDefault()
+      selectMention(mentionOptions[0])
+      return
+    }
+    if (e.key === 'Escape') {
+      setMention(null)
+      return
+    }
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault()
+      submitNote()
+    }
+  }
+
+  return (
+    <div className="card p-6">
+      <h3 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+        <MessageSquare className="h-5 w-5 mr-2 text-gray-400" />
+        Internal Notes
+        {notes.length > 0 && (
+          <span className="ml-2 text-sm font-normal text-gray-500">({notes.length})</span>
+        )}
+      </h3>
+
+      {notes.length > 0 ? (
+        <ul className="space-y-4 mb-4">
+          {notes.map((note) => (
+            <li key={note.id} className="text-sm">
+              <div className="flex items-baseline justify-between gap-2">
+                <span className="font-medium text-gray-900">{note.author?.name || 'System'}</span>
+                <time className="text-xs text-gray-400">{formatDateTime(note.created_at)}</time>
+              </div>
+              <p className="mt-1 text-gray-700 whitespace-pre-wrap">
+                {splitMentions(note.body, note.mentions || []).map((part, index) => (
+                  part.isMention ? (
+                    <span key={index} className="rounded bg-blue-50 px-0.5 font-medium text-blue-700">{part.text}</span>
+                  ) : (
+                    <span key={index}>{part.text}</span>
+                  )
+                ))}
+              </p>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mb-4 text-sm text-gray-500">No notes yet. Notes are only visible to your team.</p>
+      )}
+
+      <div className="relative">
+        <textarea
+          ref={textareaRef}
+          value={body}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setMention(null)}
+          rows={3}
+          className="input"
+          placeholder="Add a note… type @ to mention a teammate"
+        />
+        {mentionOptions.length > 0 && (
+          <ul className="absolute left-0 bottom-full mb-1 w-64 bg-white rounded-md shadow-lg z-20 border border-gray-200 py-1">
+            {mentionOptions.map((member) => (
+              <li key={member.id}>
+                <button
+                  type="button"
+                  // Keep focus in the textarea so the caret position survives
+                  onMouseDown={(e) => {
+                    e.preventDefault()
+                    selectMention(member)
+                  }}
+                  className="flex items-center w-full px-3 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                >
+                  <AtSign className="h-3 w-3 mr-2 text-gray-400" />
+                  <span className="truncate">{member.name}</span>
+                  <span className="ml-auto pl-2 text-xs text-gray-400 truncate">{member.email}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <div className="mt-2 flex items-center justify-between">
+        <span className="text-xs text-gray-400">Ctrl+Enter to post</span>
+        <button
+          onClick={submitNote}
+          disabled={!body.trim() || addNoteMutation.isLoading}
+          className="btn-primary btn-sm"
+        >
+          <Send className="h-4 w-4 mr-1" />
+          {addNoteMutation.isLoading ? 'Posting...' : 'Post Note'}
+        </button>
+      </div>
+    </div>
+  )
+}
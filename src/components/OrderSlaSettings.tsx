@@ -0,0 +1,121 @@
+import { useEffect, useState } from 'react'
+import { useMutation, useQueryClient } from 'react-query'
+import { Save } from 'lucide-react'
+import { api } from '../lib/api'
+import { defaultOrderSlas, describeSla, slaTargets } from '../lib/sla'
+import { useOrderSlas } from '../hooks/useOrderSlas'
+import type { OrderSla } from '../types'
+import toast from 'react-hot-toast'
+
+export const OrderSlaSettings: React.FC = () => {
+  const queryClient = useQueryClient()
+  const { slas: savedSlas, isLoading } = useOrderSlas()
+  const [slas, setSlas] = useState<OrderSla[]>(defaultOrderSlas)
+
+  // One rule per status, so statuses missing from the saved settings fall back to the defaults
+  useEffect(() => {
+    setSlas(defaultOrderSlas.map(rule => savedSlas.find(saved => saved.status === rule.status) || rule))
+  }, [savedSlas])
+
+  const saveMutation = useMutation(
+    (data: OrderSla[]) => api.put('/order-slas', { slas: data }),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries('order-slas')
+        queryClient.invalidateQueries('orders')
+        queryClient.invalidateQueries('dashboard-stats')
+        toast.success('SLAs saved')
+      },
+      onError: (error: any) => {
+        toast.error(error.response?.data?.message || 'Failed to save SLAs')
+      }
+    }
+  )
+
+  const updateSla = (status: OrderSla['status'], changes: Partial<OrderSla>) => {
+    setSlas(prev => prev.map(sla => (sla.status === status ? { ...sla, ...changes } : sla)))
+  }
+
+  const isInvalid = slas.some(sla => sla.is_enabled && (!Number.isFinite(sla.hours) || sla.hours < 0))
+
+  if (isLoading) {
+    return <div className="card p-6 h-64 animate-pulse bg-gray-100" />
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="card p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Order SLAs</h3>
+        <p className="text-sm text-gray-500 mb-6">
+          Orders that miss these deadlines are highlighted in Orders, counted on the Dashboard and raised in
+          the notification area for the whole team.
+        </p>
+
+        <div className="space-y-4">
+          {slas.map((sla) => (
+            <div key={sla.status} className="border rounded-lg p-4">
+              <label className="flex items-center text-sm font-medium text-gray-900">
+                <input
+                  type="checkbox"
+                  checked={sla.is_enabled}
+                  onChange={(e) => updateSla(sla.status, { is_enabled: e.target.checked })}
+                  className="h-4 w-4 mr-2 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                />
+                {sla.status.charAt(0).toUpperCase() + sla.status.slice(1)} orders must be {slaTargets[sla.status]}
+              </label>
+
+              <div className={`grid grid-cols-1 sm:grid-cols-2 gap-4 mt-4 ${sla.is_enabled ? '' : 'opacity-50'}`}>
+                <div>
+                  <label className="label">Deadline</label>
+                  <select
+                    value={sla.measured_from}
+                    onChange={(e) => updateSla(sla.status, { measured_from: e.target.value as OrderSla['measured_from'] })}
+                    disabled={!sla.is_enabled}
+                    className="input"
+                  >
+                    <option value="status_change">Hours after becoming {sla.status}</option>
+                    <option value="service_date">Hours after the service date and time</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="label">Hours</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={Number.isFinite(sla.hours) ? sla.hours : ''}
+                    onChange={(e) => updateSla(sla.status, { hours: e.target.value === '' ? NaN : Number(e.target.value) })}
+                    disabled={!sla.is_enabled}
+                    className="input"
+                  />
+                </div>
+              </div>
+
+              {sla.is_enabled && (
+                <p className="mt-3 text-sm text-gray-500">
+                  {Number.isFinite(sla.hours) && sla.hours >= 0 ? describeSla(sla) : 'Enter 0 or more hours'}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <p className="mt-4 text-xs text-gray-500">
+          All-day services count as due at the end of their service date. Orders without a service date are not
+          covered by service-date SLAs.
+        </p>
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          onClick={() => saveMutation.mutate(slas)}
+          disabled={saveMutation.isLoading || isInvalid}
+          className="btn-primary btn-md"
+        >
+          <Save className="h-4 w-4 mr-2" />
+          {saveMutation.isLoading ? 'Saving...' : 'Save Changes'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,62 @@
+import { CheckCircle, CheckCircle2, RotateCcw, Send, XCircle } from 'lucide-react'
+import type { Order, OrderStatus } from '../types'
+import { getAvailableTransitions } from '../lib/orderStatus'
+import { canRefund } from '../lib/refunds'
+import { canDispatch } from '../lib/dispatch'
+
+interface OrderStatusActionsProps {
+  order: Order
+  onTransition: (order: Order, to: OrderStatus) => void
+  onRefund: (order: Order) => void
+  onDispatch: (order: Order) => void
+}
+
+const transitionStyles: Record<OrderStatus, { icon: typeof CheckCircle; className: string }> = {
+  pending: { icon: CheckCircle2, className: 'text-yellow-600 hover:bg-yellow-50' },
+  confirmed: { icon: CheckCircle2, className: 'text-blue-600 hover:bg-blue-50' },
+  fulfilled: { icon: CheckCircle, className: 'text-green-600 hover:bg-green-50' },
+  cancelled: { icon: XCircle, className: 'text-red-600 hover:bg-red-50' },
+}
+
+export const OrderStatusActions: React.FC<OrderStatusActionsProps> = ({ order, onTransition, onRefund, onDispatch }) => {
+  const transitions = getAvailableTransitions(order.status)
+
+  return (
+    <div className="py-1">
+      {transitions.map((transition) => {
+        const { icon: Icon, className } = transitionStyles[transition.to]
+        return (
+          <button
+            key={transition.to}
+            onClick={() => onTransition(order, transition.to)}
+            className={`flex items-center w-full px-4 py-2 text-sm ${className}`}
+          >
+            <Icon className="h-4 w-4 mr-2" />
+            {transition.label}
+          </button>
+        )
+      })}
+      {canDispatch(order) && (
+        <button
+          onClick={() => onDispatch(order)}
+          className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+        >
+          <Send className="h-4 w-4 mr-2" />
+          Dispatch to vendor
+        </button>
+      )}
+      {canRefund(order) && (
+        <button
+          onClick={() => onRefund(order)}
+          className="flex items-center w-full px-4 py-2 text-sm text-purple-600 hover:bg-purple-50"
+        >
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Refund
+        </button>
+      )}
+      {transitions.length === 0 && !canDispatch(order) && !canRefund(order) && (
+        <p className="px-4 py-2 text-sm text-gray-500">No actions available</p>
+      )}
+    </div>
+  )
+}
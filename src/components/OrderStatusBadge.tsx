@@ -0,0 +1,50 @@
+import {
+  AlertCircle,
+  CheckCircle,
+  CheckCircle2,
+  Clock3,
+  XCircle
+} from 'lucide-react'
+
+interface OrderStatusBadgeProps {
+  status: string
+}
+
+const getStatusIcon = (status: string) => {
+  switch (status) {
+    case 'pending':
+      return <Clock3 className="h-4 w-4 text-yellow-600" />
+    case 'confirmed':
+      return <CheckCircle2 className="h-4 w-4 text-blue-600" />
+    case 'fulfilled':
+      return <CheckCircle className="h-4 w-4 text-green-600" />
+    case 'cancelled':
+      return <XCircle className="h-4 w-4 text-red-600" />
+    default:
+      return <AlertCircle className="h-4 w-4 text-gray-600" />
+  }
+}
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'pending':
+      return 'bg-yellow-50 text-yellow-700 border-yellow-200'
+    case 'confirmed':
+      return 'bg-blue-50 text-blue-700 border-blue-200'
+    case 'fulfilled':
+      return 'bg-green-50 text-green-700 border-green-200'
+    case 'cancelled':
+      return 'bg-red-50 text-red-700 border-red-200'
+    default:
+      return 'bg-gray-50 text-gray-700 border-gray-200'
+  }
+}
+
+export const OrderStatusBadge: React.FC<OrderStatusBadgeProps> = ({ status }) => {
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${getStatusColor(status)}`}>
+      {getStatusIcon(status)}
+      <span className="ml-1 capitalize">{status}</span>
+    </span>
+  )
+}
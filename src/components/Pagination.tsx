@@ -0,0 +1,94 @@
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+
+interface PaginationProps {
+  currentPage: number
+  lastPage: number
+  perPage: number
+  total: number
+  pageSizeOptions?: number[]
+  onPageChange: (page: number) => void
+  onPerPageChange?: (perPage: number) => void
+}
+
+// Current page, first, last and up to one neighbour on each side, with gaps collapsed
+const getVisiblePages = (currentPage: number, lastPage: number): (number | 'gap')[] => {
+  const pages = new Set([1, lastPage, currentPage - 1, currentPage, currentPage + 1])
+  const sorted = [...pages].filter(page => page >= 1 && page <= lastPage).sort((a, b) => a - b)
+
+  return sorted.reduce<(number | 'gap')[]>((result, page, index) => {
+    if (index > 0 && page - sorted[index - 1] > 1) result.push('gap')
+    result.push(page)
+    return result
+  }, [])
+}
+
+export const Pagination: React.FC<PaginationProps> = ({
+  currentPage,
+  lastPage,
+  perPage,
+  total,
+  pageSizeOptions = [10, 25, 50, 100],
+  onPageChange,
+  onPerPageChange,
+}) => {
+  const from = total === 0 ? 0 : (currentPage - 1) * perPage + 1
+  const to = Math.min(currentPage * perPage, total)
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 bg-white rounded-xl shadow-sm border border-gray-200 px-4 py-3">
+      <div className="flex items-center gap-4 text-sm text-gray-600">
+        <span>
+          Showing <span className="font-medium text-gray-900">{from}</span>–<span className="font-medium text-gray-900">{to}</span> of{' '}
+          <span className="font-medium text-gray-900">{total}</span>
+        </span>
+        {onPerPageChange && (
+          <select
+            value={perPage}
+            onChange={(e) => onPerPageChange(Number(e.target.value))}
+            className="input h-8 w-auto py-1"
+          >
+            {pageSizeOptions.map((size) => (
+              <option key={size} value={size}>
+                {size} per page
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <nav className="flex items-center gap-1">
+        <button
+          onClick={() => onPageChange(currentPage - 1)}
+          disabled={currentPage <= 1}
+          className="btn-secondary btn-sm"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </button>
+        {getVisiblePages(currentPage, lastPage).map((page, index) =>
+          page === 'gap' ? (
+            <span key={`gap-${index}`} className="px-2 text-sm text-gray-400">…</span>
+          ) : (
+            <button
+              key={page}
+              onClick={() => onPageChange(page)}
+              className={`btn btn-sm ${
+                page === currentPage
+                  ? 'bg-blue-600 text-white hover:bg-blue-700'
+                  : 'bg-white text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              {page}
+            </button>
+          )
+        )}
+        <button
+          onClick={() => onPageChange(currentPage + 1)}
+          disabled={currentPage >= lastPage}
+          className="btn-secondary btn-sm"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </button>
+      </nav>
+    </div>
+  )
+}
@@ -0,0 +1,68 @@
+import { Link, useLocation } from 'react-router-dom'
+import { useQuery } from 'react-query'
+import { Bookmark } from 'lucide-react'
+import { api } from '../lib/api'
+import type { OrderSummary, SavedOrderView } from '../types'
+import { isSameView, toOrderFilters, toOrderQueryParams, toOrdersLink } from '../lib/orderFilters'
+
+interface PinnedViewLinkProps {
+  view: SavedOrderView
+}
+
+const PinnedViewLink: React.FC<PinnedViewLinkProps> = ({ view }) => {
+  const location = useLocation()
+  const filters = toOrderFilters(view.filters)
+  const href = toOrdersLink(view.filters)
+  // Compared by value, the URL may list the params in another order or carry page and per_page
+  const isActive = location.pathname === '/orders'
+    && isSameView(view.filters, Object.fromEntries(new URLSearchParams(location.search)))
+
+  // Same key as the Orders page summary, so both share one cache entry
+  const { data: summary } = useQuery<OrderSummary>(
+    ['orders', 'summary', filters],
+    () => api.get(`/orders/summary?${toOrderQueryParams(filters).toString()}`).then(res => res.data),
+    { refetchInterval: 60000 }
+  )
+
+  return (
+    <Link
+      to={href}
+      className={`group flex items-center px-2 py-1.5 text-sm rounded-md ${
+        isActive
+          ? 'bg-primary-100 text-primary-700'
+          : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'
+      }`}
+    >
+      <Bookmark className="mr-3 h-4 w-4 text-gray-400" />
+      <span className="flex-1 truncate">{view.name}</span>
+      {summary && (
+        <span className="ml-2 inline-flex items-center justify-center min-w-[1.5rem] px-1.5 rounded-full bg-gray-100 text-xs font-medium text-gray-700">
+          {summary.total}
+        </span>
+      )}
+    </Link>
+  )
+}
+
+export const PinnedOrderViews: React.FC = () => {
+  const { data: views } = useQuery<SavedOrderView[]>(
+    'order-views',
+    () => api.get('/order-views').then(res => res.data.views)
+  )
+
+  const pinnedViews = views?.filter(view => view.is_pinned) || []
+  if (pinnedViews.length === 0) return null
+
+  return (
+    <div className="px-4 pb-4">
+      <h3 className="px-2 mb-1 text-xs font-semibold text-gray-400 uppercase tracking-wider">
+        Pinned Views
+      </h3>
+      <div className="space-y-1">
+        {pinnedViews.map((view) => (
+          <PinnedViewLink key={view.id} view={view} />
+        ))}
+      </div>
+    </div>
+  )
+}
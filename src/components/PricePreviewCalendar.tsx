@@ -0,0 +1,82 @@
+import { useState } from 'react'
+import { addMonths, eachDayOfInterval, endOfMonth, format, getDay, isSameDay, startOfMonth } from 'date-fns'
+import type { PricingRule } from '../types'
+import { describeAdjustment, getEffectivePrice } from '../lib/pricingRules'
+import { weekdays } from '../lib/availability'
+import { formatCurrency } from '../lib/utils'
+
+interface PricePreviewCalendarProps {
+  basePrice: number
+  rules: PricingRule[]
+  currency?: string
+}
+
+export const PricePreviewCalendar: React.FC<PricePreviewCalendarProps> = ({ basePrice, rules, currency }) => {
+  const [selectedDate, setSelectedDate] = useState(new Date())
+  const today = new Date()
+  const months = Array.from({ length: 12 }, (_, i) => addMonths(startOfMonth(today), i))
+  const selected = getEffectivePrice(basePrice, rules, selectedDate, today)
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <p className="text-sm text-gray-900">
+          <span className="font-medium">{format(selectedDate, 'EEE d MMM yyyy')}:</span>{' '}
+          {formatCurrency(selected.price, currency)}
+          {selected.applied.length > 0 && (
+            <span className="text-gray-500">
+              {' '}({selected.applied.map(rule => `${rule.name} ${describeAdjustment(rule, currency)}`).join(', ')})
+            </span>
+          )}
+        </p>
+        <div className="flex items-center gap-3 text-xs text-gray-500">
+          <span className="flex items-center"><span className="h-3 w-3 rounded-sm bg-amber-200 mr-1" />Above base</span>
+          <span className="flex items-center"><span className="h-3 w-3 rounded-sm bg-green-200 mr-1" />Below base</span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+        {months.map((month) => {
+          const days = eachDayOfInterval({ start: month, end: endOfMonth(month) })
+          // Monday-first grid, so Sunday (0) needs six leading blanks
+          const leadingBlanks = (getDay(month) + 6) % 7
+
+          return (
+            <div key={month.toISOString()}>
+              <h4 className="text-sm font-medium text-gray-900 mb-1">{format(month, 'MMMM yyyy')}</h4>
+              <div className="grid grid-cols-7 gap-0.5 text-center">
+                {weekdays.map(day => (
+                  <div key={day.value} className="text-[10px] text-gray-400">{day.short.charAt(0)}</div>
+                ))}
+                {Array.from({ length: leadingBlanks }, (_, i) => <div key={`blank-${i}`} />)}
+                {days.map((day) => {
+                  const { price } = getEffectivePrice(basePrice, rules, day, today)
+                  const color = price > basePrice ? 'bg-amber-200' : price < basePrice ? 'bg-green-200' : 'bg-gray-50'
+
+                  return (
+                    <button
+                      key={day.toISOString()}
+                      type="button"
+                      onClick={() => setSelectedDate(day)}
+                      title={`${format(day, 'd MMM')}: ${formatCurrency(price, currency)}`}
+                      className={`rounded text-[11px] py-1 text-gray-700 hover:ring-1 hover:ring-blue-400 ${color} ${
+                        isSameDay(day, selectedDate) ? 'ring-2 ring-blue-500' : ''
+                      }`}
+                    >
+                      {format(day, 'd')}
+                    </button>
+                  )
+                })}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      <p className="mt-4 text-xs text-gray-500">
+        Prices are shown for a booking made today, so last-minute and early-booking rules reflect today's date.
+        Percentage and amount adjustments apply to variant prices too.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,202 @@
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react'
+import type { PriceAdjustmentType, PricingRule, Weekday } from '../types'
+import {
+  describeAdjustment,
+  newPricingRule,
+  priceAdjustmentTypes,
+  pricingRuleKinds,
+  validatePricingRules
+} from '../lib/pricingRules'
+import { weekdays } from '../lib/availability'
+import { moveItem } from '../lib/upsellOrder'
+
+interface PricingRulesEditorProps {
+  value: PricingRule[]
+  onChange: (rules: PricingRule[]) => void
+  currency?: string
+}
+
+export const PricingRulesEditor: React.FC<PricingRulesEditorProps> = ({ value: rules, onChange, currency }) => {
+  const errors = validatePricingRules(rules)
+
+  const updateRule = (index: number, changes: Partial<PricingRule>) => {
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)))
+  }
+
+  const toggleDay = (index: number, day: Weekday) => {
+    const days = rules[index].days_of_week || []
+    updateRule(index, {
+      days_of_week: days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort() as Weekday[],
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      {rules.length === 0 ? (
+        <p className="text-sm text-gray-500">No pricing rules, the price is the same all year.</p>
+      ) : (
+        <div className="space-y-3">
+          {rules.map((rule, index) => (
+            <div key={rule.id} className="border rounded-lg p-4">
+              <div className="flex items-start gap-3">
+                <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="label">
+                      {pricingRuleKinds.find(kind => kind.value === rule.kind)?.label} rule
+                    </label>
+                    <input
+                      type="text"
+                      value={rule.name}
+                      onChange={(e) => updateRule(index, { name: e.target.value })}
+                      className="input"
+                      placeholder="e.g. Christmas week"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="label">Applies to</label>
+                    {rule.kind === 'date_range' && (
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="date"
+                          value={rule.from || ''}
+                          onChange={(e) => updateRule(index, { from: e.target.value, to: rule.to || e.target.value })}
+                          className="input"
+                        />
+                        <span className="text-sm text-gray-500">to</span>
+                        <input
+                          type="date"
+                          value={rule.to || ''}
+                          min={rule.from || undefined}
+                          onChange={(e) => updateRule(index, { to: e.target.value })}
+                          className="input"
+                        />
+                      </div>
+                    )}
+                    {rule.kind === 'weekdays' && (
+                      <div className="flex flex-wrap gap-1">
+                        {weekdays.map(day => (
+                          <button
+                            key={day.value}
+                            type="button"
+                            onClick={() => toggleDay(index, day.value)}
+                            className={`px-2 py-1.5 rounded-md text-xs font-medium border ${
+                              rule.days_of_week?.includes(day.value)
+                                ? 'bg-primary-50 border-primary-300 text-primary-700'
+                                : 'bg-white border-gray-300 text-gray-500 hover:bg-gray-50'
+                            }`}
+                          >
+                            {day.short}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    {(rule.kind === 'last_minute' || rule.kind === 'early_booking') && (
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm text-gray-500">Booked</span>
+                        <input
+                          type="number"
+                          min="0"
+                          value={rule.days ?? ''}
+                          onChange={(e) => updateRule(index, { days: e.target.value === '' ? undefined : Number(e.target.value) })}
+                          className="input w-24"
+                        />
+                        <span className="text-sm text-gray-500">
+                          {rule.kind === 'last_minute' ? 'days ahead or less' : 'or more days ahead'}
+                        </span>
+                      </div>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="label">Price change</label>
+                    <select
+                      value={rule.adjustment_type}
+                      onChange={(e) => updateRule(index, { adjustment_type: e.target.value as PriceAdjustmentType })}
+                      className="input"
+                    >
+                      {priceAdjustmentTypes.map(type => (
+                        <option key={type.value} value={type.value}>{type.label}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="label">
+                      {rule.adjustment_type === 'percent' ? 'Percent' : 'Amount'}
+                    </label>
+                    <input
+                      type="number"
+                      step={rule.adjustment_type === 'percent' ? '1' : '0.01'}
+                      value={Number.isFinite(rule.value) ? rule.value : ''}
+                      onChange={(e) => updateRule(index, { value: e.target.value === '' ? NaN : Number(e.target.value) })}
+                      className="input"
+                    />
+                    {rule.adjustment_type !== 'price' && (
+                      <p className="mt-1 text-xs text-gray-500">
+                        Negative for a discount{Number.isFinite(rule.value) ? `, currently ${describeAdjustment(rule, currency)}` : ''}
+                      </p>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex flex-col">
+                  <button
+                    type="button"
+                    onClick={() => onChange(moveItem(rules, index, index - 1))}
+                    disabled={index === 0}
+                    className="p-1.5 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                    title="Move up"
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onChange(moveItem(rules, index, index + 1))}
+                    disabled={index === rules.length - 1}
+                    className="p-1.5 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                    title="Move down"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onChange(rules.filter((_, i) => i !== index))}
+                    className="p-1.5 text-gray-400 hover:text-red-600"
+                    title="Remove rule"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+          <p className="text-xs text-gray-500">
+            The first matching "set price" rule replaces the base price, then matching adjustments apply from top to bottom.
+          </p>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-gray-500">Add rule:</span>
+        {pricingRuleKinds.map(kind => (
+          <button
+            key={kind.value}
+            type="button"
+            onClick={() => onChange([...rules, newPricingRule(kind.value)])}
+            className="text-sm text-blue-600 hover:text-blue-800 inline-flex items-center"
+          >
+            <Plus className="h-4 w-4 mr-0.5" />
+            {kind.label}
+          </button>
+        ))}
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-sm text-danger-600 list-disc list-inside">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+    </div>
+  )
+}
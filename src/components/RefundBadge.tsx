@@ -0,0 +1,28 @@
+import { RotateCcw } from 'lucide-react'
+import type { Order } from '../types'
+import { getRefundState } from '../lib/refunds'
+
+interface RefundBadgeProps {
+  order: Order
+}
+
+// Shown on cancelled orders so staff can tell whether the guest got their money back
+export const RefundBadge: React.FC<RefundBadgeProps> = ({ order }) => {
+  const state = getRefundState(order)
+
+  if (state === 'none') {
+    if (order.status !== 'cancelled') return null
+    return (
+      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border bg-gray-50 text-gray-600 border-gray-200">
+        Not refunded
+      </span>
+    )
+  }
+
+  return (
+    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border bg-purple-50 text-purple-700 border-purple-200">
+      <RotateCcw className="h-3 w-3 mr-1" />
+      {state === 'full' ? 'Refunded' : 'Partially refunded'}
+    </span>
+  )
+}
@@ -0,0 +1,183 @@
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { useMutation, useQueryClient } from 'react-query'
+import { AlertTriangle, RotateCcw, X } from 'lucide-react'
+import { api } from '../lib/api'
+import type { Order } from '../types'
+import { formatCurrency } from '../lib/utils'
+import { getRefundableAmount, refundReasons } from '../lib/refunds'
+import toast from 'react-hot-toast'
+
+interface RefundOrderModalProps {
+  order: Order
+  onClose: () => void
+}
+
+interface RefundFormData {
+  type: 'full' | 'partial'
+  amount: number
+  reason: string
+  note: string
+}
+
+export const RefundOrderModal: React.FC<RefundOrderModalProps> = ({ order, onClose }) => {
+  const [step, setStep] = useState<'form' | 'confirm'>('form')
+  const queryClient = useQueryClient()
+  const refundable = getRefundableAmount(order)
+
+  const { register, handleSubmit, watch, getValues, formState: { errors } } = useForm<RefundFormData>({
+    defaultValues: {
+      type: 'full',
+      amount: refundable,
+      reason: refundReasons[0].value,
+      note: '',
+    }
+  })
+
+  const refundType = watch('type')
+
+  const refundMutation = useMutation(
+    (data: { amount: number; reason: string; note: string }) =>
+      api.post(`/orders/${order.id}/refunds`, data),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries('orders')
+        queryClient.invalidateQueries(['order', String(order.id)])
+        toast.success('Refund issued')
+        onClose()
+      },
+      onError: (error: any) => {
+        const message = error.response?.data?.message || 'Failed to issue refund'
+        toast.error(message)
+        setStep('form')
+      }
+    }
+  )
+
+  const getRefundAmount = () => {
+    const { type, amount } = getValues()
+    return type === 'full' ? refundable : amount
+  }
+
+  const onSubmit = () => {
+    setStep('confirm')
+  }
+
+  const confirmRefund = () => {
+    const { reason, note } = getValues()
+    refundMutation.mutate({ amount: getRefundAmount(), reason, note })
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="fixed inset-0 bg-gray-600 bg-opacity-75" onClick={onClose} />
+      <div className="relative w-full max-w-md bg-white rounded-xl shadow-xl">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Refund Order #{order.id}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {step === 'form' ? (
+          <form onSubmit={handleSubmit(onSubmit)} className="px-6 py-4 space-y-4">
+            <p className="text-sm text-gray-600">
+              Refundable: <span className="font-semibold text-gray-900">{formatCurrency(refundable, order.currency)}</span>
+              {' '}of {formatCurrency(order.amount, order.currency)} paid by {order.guest_name}
+            </p>
+
+            <div className="space-y-2">
+              <label className="flex items-center text-sm text-gray-700">
+                <input {...register('type')} type="radio" value="full" className="mr-2" />
+                Full refund
+              </label>
+              <label className="flex items-center text-sm text-gray-700">
+                <input {...register('type')} type="radio" value="partial" className="mr-2" />
+                Partial refund
+              </label>
+            </div>
+
+            {refundType === 'partial' && (
+              <div>
+                <label className="label">Amount ({order.currency})</label>
+                <input
+                  {...register('amount', {
+                    valueAsNumber: true,
+                    required: 'Amount is required',
+                    min: { value: 0.01, message: 'Amount must be greater than zero' },
+                    max: { value: refundable, message: `Amount cannot exceed ${formatCurrency(refundable, order.currency)}` },
+                  })}
+                  type="number"
+                  step="0.01"
+                  className="input"
+                />
+                {errors.amount && (
+                  <p className="mt-1 text-sm text-danger-600">{errors.amount.message}</p>
+                )}
+              </div>
+            )}
+
+            <div>
+              <label className="label">Reason *</label>
+              <select {...register('reason', { required: 'Reason is required' })} className="input">
+                {refundReasons.map((reason) => (
+                  <option key={reason.value} value={reason.value}>
+                    {reason.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="label">Note</label>
+              <textarea
+                {...register('note')}
+                rows={2}
+                className="input"
+                placeholder="Internal note about this refund..."
+              />
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-2">
+              <button type="button" onClick={onClose} className="btn-secondary btn-md">
+                Cancel
+              </button>
+              <button type="submit" className="btn-primary btn-md">
+                Continue
+              </button>
+            </div>
+          </form>
+        ) : (
+          <div className="px-6 py-4 space-y-4">
+            <div className="flex items-start bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+              <AlertTriangle className="h-5 w-5 text-yellow-600 mr-3 flex-shrink-0" />
+              <p className="text-sm text-yellow-800">
+                {formatCurrency(getRefundAmount(), order.currency)} will be refunded to {order.guest_name} through
+                Stripe. This cannot be undone.
+              </p>
+            </div>
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => setStep('form')}
+                disabled={refundMutation.isLoading}
+                className="btn-secondary btn-md"
+              >
+                Back
+              </button>
+              <button
+                type="button"
+                onClick={confirmRefund}
+                disabled={refundMutation.isLoading}
+                className="btn-danger btn-md"
+              >
+                <RotateCcw className="h-4 w-4 mr-2" />
+                {refundMutation.isLoading ? 'Refunding...' : 'Confirm Refund'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,225 @@
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { useQuery, useMutation, useQueryClient } from 'react-query'
+import { Bookmark, MoreVertical, Pin, PinOff, Plus, Share2, Trash2, Users, X } from 'lucide-react'
+import { api } from '../lib/api'
+import type { SavedOrderView } from '../types'
+import { isSameView, type SavedViewState } from '../lib/orderFilters'
+import { useAuth } from '../contexts/AuthContext'
+import toast from 'react-hot-toast'
+
+interface SavedViewsBarProps {
+  currentView: SavedViewState
+  onApply: (filters: Partial<SavedViewState>) => void
+}
+
+interface SaveViewFormData {
+  name: string
+  is_pinned: boolean
+  is_shared: boolean
+}
+
+export const SavedViewsBar: React.FC<SavedViewsBarProps> = ({ currentView, onApply }) => {
+  const [showSaveModal, setShowSaveModal] = useState(false)
+  const [showViewMenu, setShowViewMenu] = useState<number | null>(null)
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+
+  const { register, handleSubmit, reset, formState: { errors } } = useForm<SaveViewFormData>({
+    defaultValues: { name: '', is_pinned: false, is_shared: false }
+  })
+
+  const { data: views } = useQuery<SavedOrderView[]>(
+    'order-views',
+    () => api.get('/order-views').then(res => res.data.views)
+  )
+
+  const createViewMutation = useMutation(
+    (data: SaveViewFormData) => api.post('/order-views', { ...data, filters: currentView }),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries('order-views')
+        toast.success('View saved')
+        setShowSaveModal(false)
+        reset()
+      },
+      onError: (error: any) => {
+        const message = error.response?.data?.message || 'Failed to save view'
+        toast.error(message)
+      }
+    }
+  )
+
+  const updateViewMutation = useMutation(
+    ({ id, ...data }: { id: number } & Partial<Pick<SavedOrderView, 'is_pinned' | 'is_shared'>>) =>
+      api.put(`/order-views/${id}`, data),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries('order-views')
+        setShowViewMenu(null)
+      },
+      onError: () => {
+        toast.error('Failed to update view')
+      }
+    }
+  )
+
+  const deleteViewMutation = useMutation(
+    (id: number) => api.delete(`/order-views/${id}`),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries('order-views')
+        toast.success('View deleted')
+        setShowViewMenu(null)
+      },
+      onError: () => {
+        toast.error('Failed to delete view')
+      }
+    }
+  )
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="flex items-center text-sm font-medium text-gray-600 mr-1">
+        <Bookmark className="h-4 w-4 mr-1" />
+        Views:
+      </span>
+
+      {views?.map((savedView) => {
+        const isActive = isSameView(savedView.filters, currentView)
+        const isOwner = savedView.user_id === user?.id
+        return (
+          <div key={savedView.id} className="relative">
+            <div
+              className={`inline-flex items-center rounded-full border text-sm ${
+                isActive
+                  ? 'bg-blue-100 border-blue-200 text-blue-700'
+                  : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              <button onClick={() => onApply(savedView.filters)} className="flex items-center pl-3 pr-1 py-1">
+                {savedView.is_pinned && <Pin className="h-3 w-3 mr-1" />}
+                {savedView.name}
+                {savedView.is_shared && (
+                  <span title={isOwner ? 'Shared with your team' : `Shared by ${savedView.owner?.name || 'a teammate'}`}>
+                    <Users className="h-3 w-3 ml-1 text-gray-400" />
+                  </span>
+                )}
+              </button>
+              <button
+                onClick={() => setShowViewMenu(showViewMenu === savedView.id ? null : savedView.id)}
+                className="pr-2 pl-1 py-1 text-gray-400 hover:text-gray-600"
+              >
+                <MoreVertical className="h-3 w-3" />
+              </button>
+            </div>
+
+            {showViewMenu === savedView.id && (
+              <div className="absolute left-0 mt-2 w-44 bg-white rounded-md shadow-lg z-20 border border-gray-200">
+                <div className="py-1">
+                  <button
+                    onClick={() => updateViewMutation.mutate({ id: savedView.id, is_pinned: !savedView.is_pinned })}
+                    className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    {savedView.is_pinned ? <PinOff className="h-4 w-4 mr-2" /> : <Pin className="h-4 w-4 mr-2" />}
+                    {savedView.is_pinned ? 'Unpin from sidebar' : 'Pin to sidebar'}
+                  </button>
+                  {isOwner && (
+                    <>
+                      <button
+                        onClick={() => updateViewMutation.mutate({ id: savedView.id, is_shared: !savedView.is_shared })}
+                        className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                      >
+                        <Share2 className="h-4 w-4 mr-2" />
+                        {savedView.is_shared ? 'Stop sharing' : 'Share with team'}
+                      </button>
+                      <hr className="my-1" />
+                      <button
+                        onClick={() => {
+                          if (window.confirm(`Delete the "${savedView.name}" view?`)) {
+                            deleteViewMutation.mutate(savedView.id)
+                          }
+                        }}
+                        className="flex items-center w-full px-4 py-2 text-sm text-red-600 hover:bg-red-50"
+                      >
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        Delete
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        )
+      })}
+
+      <button
+        onClick={() => setShowSaveModal(true)}
+        className="inline-flex items-center rounded-full border border-dashed border-gray-300 px-3 py-1 text-sm text-gray-500 hover:text-gray-700 hover:border-gray-400"
+      >
+        <Plus className="h-3 w-3 mr-1" />
+        Save current view
+      </button>
+
+      {showSaveModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          <div className="fixed inset-0 bg-gray-600 bg-opacity-75" onClick={() => setShowSaveModal(false)} />
+          <div className="relative w-full max-w-md bg-white rounded-xl shadow-xl">
+            <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">Save View</h3>
+              <button onClick={() => setShowSaveModal(false)} className="text-gray-400 hover:text-gray-600">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <form
+              onSubmit={handleSubmit((data) => createViewMutation.mutate(data))}
+              className="px-6 py-4 space-y-4"
+            >
+              <div>
+                <label className="label">Name *</label>
+                <input
+                  {...register('name', { required: 'Name is required' })}
+                  type="text"
+                  className="input"
+                  placeholder="e.g. Today's pending"
+                  autoFocus
+                />
+                {errors.name && (
+                  <p className="mt-1 text-sm text-danger-600">{errors.name.message}</p>
+                )}
+              </div>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  {...register('is_pinned')}
+                  type="checkbox"
+                  className="h-4 w-4 mr-2 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                />
+                Pin to sidebar
+              </label>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  {...register('is_shared')}
+                  type="checkbox"
+                  className="h-4 w-4 mr-2 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                />
+                Share with everyone on this account
+              </label>
+              <p className="text-xs text-gray-500">
+                The view keeps the current search, filters, sort order and layout.
+              </p>
+              <div className="flex justify-end space-x-3 pt-2">
+                <button type="button" onClick={() => setShowSaveModal(false)} className="btn-secondary btn-md">
+                  Cancel
+                </button>
+                <button type="submit" disabled={createViewMutation.isLoading} className="btn-primary btn-md">
+                  {createViewMutation.isLoading ? 'Saving...' : 'Save View'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
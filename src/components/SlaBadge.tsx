@@ -0,0 +1,27 @@
+import { AlarmClock } from 'lucide-react'
+import type { Order } from '../types'
+import { describeSla, formatSlaDistance, type SlaState } from '../lib/sla'
+
+interface SlaBadgeProps {
+  order: Order
+  state: SlaState | null
+}
+
+// Only shown once an order is close to or past its SLA, so on-track orders stay uncluttered
+export const SlaBadge: React.FC<SlaBadgeProps> = ({ order, state }) => {
+  if (!state || (!state.isBreached && !state.isDueSoon)) return null
+
+  return (
+    <span
+      className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${
+        state.isBreached
+          ? 'bg-red-50 text-red-700 border-red-200'
+          : 'bg-orange-50 text-orange-700 border-orange-200'
+      }`}
+      title={`${describeSla(state.sla)} · order #${order.id}`}
+    >
+      <AlarmClock className="h-3 w-3 mr-1" />
+      {formatSlaDistance(state)}
+    </span>
+  )
+}
@@ -0,0 +1,93 @@
+import { useForm } from 'react-hook-form'
+import { X } from 'lucide-react'
+import type { OrderStatus } from '../types'
+import { cancellationReasons } from '../lib/orderStatus'
+
+interface StatusReasonModalProps {
+  status: OrderStatus
+  orderCount: number
+  isLoading?: boolean
+  onConfirm: (reason: string) => void
+  onClose: () => void
+}
+
+interface ReasonFormData {
+  reason: string
+  details: string
+}
+
+export const StatusReasonModal: React.FC<StatusReasonModalProps> = ({
+  status,
+  orderCount,
+  isLoading,
+  onConfirm,
+  onClose,
+}) => {
+  const { register, handleSubmit, watch, formState: { errors } } = useForm<ReasonFormData>({
+    defaultValues: {
+      reason: cancellationReasons[0],
+      details: '',
+    }
+  })
+
+  const selectedReason = watch('reason')
+
+  const onSubmit = (data: ReasonFormData) => {
+    const reason = data.details.trim() ? `${data.reason}: ${data.details.trim()}` : data.reason
+    onConfirm(reason)
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="fixed inset-0 bg-gray-600 bg-opacity-75" onClick={onClose} />
+      <div className="relative w-full max-w-md bg-white rounded-xl shadow-xl">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900 capitalize">
+            Mark {orderCount > 1 ? `${orderCount} orders` : 'order'} {status}
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="px-6 py-4 space-y-4">
+          <div>
+            <label className="label">Reason *</label>
+            <select {...register('reason', { required: 'Reason is required' })} className="input">
+              {cancellationReasons.map((reason) => (
+                <option key={reason} value={reason}>
+                  {reason}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="label">Details{selectedReason === 'Other' && ' *'}</label>
+            <textarea
+              {...register('details', {
+                validate: (value) =>
+                  selectedReason !== 'Other' || value.trim() !== '' || 'Please describe the reason',
+              })}
+              rows={3}
+              className="input"
+              placeholder="Add context for the team..."
+            />
+            {errors.details && (
+              <p className="mt-1 text-sm text-danger-600">{errors.details.message}</p>
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button type="button" onClick={onClose} className="btn-secondary btn-md">
+              Back
+            </button>
+            <button type="submit" disabled={isLoading} className="btn-danger btn-md">
+              {isLoading ? 'Saving...' : 'Confirm'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
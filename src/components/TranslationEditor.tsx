@@ -0,0 +1,94 @@
+import { useState } from 'react'
+import type { Translations } from '../types'
+import { getLanguageName, getTranslationStatus, languages, translationStatusStyles } from '../lib/translations'
+
+interface TranslationEditorProps<K extends string> {
+  fields: { key: K; label: string; multiline?: boolean }[]
+  base: Record<K, string>
+  baseLanguage: string
+  value: Translations<Record<K, string>>
+  onChange: (translations: Translations<Record<K, string>>) => void
+}
+
+// Generic over the translated fields so upsells and property descriptions share one editor
+export function TranslationEditor<K extends string>({ fields, base, baseLanguage, value, onChange }: TranslationEditorProps<K>) {
+  const targetLanguages = languages.filter(language => language.code !== baseLanguage)
+  const [selected, setSelected] = useState(targetLanguages[0]?.code)
+  const language = targetLanguages.some(l => l.code === selected) ? selected : targetLanguages[0]?.code
+  const translation = value[language] || {}
+  const baseName = getLanguageName(baseLanguage)
+
+  const updateField = (field: K, text: string) => {
+    onChange({ ...value, [language]: { ...translation, [field]: text } })
+  }
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2 mb-4">
+        {targetLanguages.map((target) => {
+          const status = getTranslationStatus(base, value[target.code])
+          return (
+            <button
+              key={target.code}
+              type="button"
+              onClick={() => setSelected(target.code)}
+              className={`inline-flex items-center px-3 py-1.5 rounded-lg text-sm font-medium border ${
+                target.code === language
+                  ? 'bg-primary-50 border-primary-300 text-primary-700'
+                  : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-50'
+              }`}
+              title={`${target.name}: ${status}`}
+            >
+              <span className={`h-2 w-2 rounded-full mr-2 ${translationStatusStyles[status]}`} />
+              {target.name}
+            </button>
+          )
+        })}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-4">
+        <div className="hidden md:block text-xs font-medium uppercase tracking-wide text-gray-500">{baseName} (default)</div>
+        <div className="hidden md:block text-xs font-medium uppercase tracking-wide text-gray-500">{getLanguageName(language)}</div>
+
+        {fields.map(({ key, label, multiline }) => (
+          <div key={key} className="contents">
+            <div>
+              <label className="label">{label} <span className="md:hidden">({baseName})</span></label>
+              <p className={`text-sm whitespace-pre-line rounded-lg bg-gray-50 px-3 py-2 ${multiline ? 'min-h-[6rem]' : ''} ${
+                base[key] ? 'text-gray-700' : 'text-gray-400 italic'
+              }`}>
+                {base[key] || `No ${label.toLowerCase()}`}
+              </p>
+            </div>
+            <div>
+              <label className="label">{label} <span className="md:hidden">({getLanguageName(language)})</span></label>
+              {multiline ? (
+                <textarea
+                  value={translation[key] || ''}
+                  onChange={(e) => updateField(key, e.target.value)}
+                  rows={4}
+                  className="input"
+                  placeholder={base[key]}
+                  disabled={!base[key]}
+                />
+              ) : (
+                <input
+                  type="text"
+                  value={translation[key] || ''}
+                  onChange={(e) => updateField(key, e.target.value)}
+                  className="input"
+                  placeholder={base[key]}
+                  disabled={!base[key]}
+                />
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <p className="mt-3 text-xs text-gray-500">
+        Guests see the {baseName} text for anything left empty.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,23 @@
+import { Link } from 'react-router-dom'
+import { MessageSquare } from 'lucide-react'
+import type { Order } from '../types'
+
+interface UnreadNotesBadgeProps {
+  order: Order
+}
+
+export const UnreadNotesBadge: React.FC<UnreadNotesBadgeProps> = ({ order }) => {
+  const count = order.unread_notes_count || 0
+  if (count === 0) return null
+
+  return (
+    <Link
+      to={`/orders/${order.id}`}
+      title={`${count} unread note${count > 1 ? 's' : ''}`}
+      className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium border bg-blue-50 text-blue-700 border-blue-200 hover:bg-blue-100"
+    >
+      <MessageSquare className="h-3 w-3 mr-1" />
+      {count}
+    </Link>
+  )
+}
@@ -0,0 +1,203 @@
+import { Plus, Trash2 } from 'lucide-react'
+import type { PriceUnit } from '../types'
+import {
+  formatQuantity,
+  formatUnitPrice,
+  newPricingOptionId,
+  priceUnits,
+  validateUpsellPricing,
+  type UpsellPricing
+} from '../lib/upsellPricing'
+
+interface UpsellPricingEditorProps {
+  value: UpsellPricing
+  onChange: (pricing: UpsellPricing) => void
+  basePrice: number
+  currency?: string
+}
+
+const toPrice = (value: string) => (value === '' ? NaN : Number(value))
+
+export const UpsellPricingEditor: React.FC<UpsellPricingEditorProps> = ({ value: pricing, onChange, basePrice, currency }) => {
+  const update = (changes: Partial<UpsellPricing>) => onChange({ ...pricing, ...changes })
+  const errors = validateUpsellPricing(pricing)
+
+  const prices = pricing.variants.length > 0 ? pricing.variants.map(variant => variant.price) : [basePrice]
+  const startingPrice = Math.min(...prices.filter(Number.isFinite))
+  const quantityRange = pricing.max_quantity === null
+    ? `at least ${formatQuantity(pricing.min_quantity, pricing.price_unit)}`
+    : pricing.max_quantity === pricing.min_quantity
+    ? `exactly ${formatQuantity(pricing.min_quantity, pricing.price_unit)}`
+    : `${pricing.min_quantity} to ${formatQuantity(pricing.max_quantity, pricing.price_unit)}`
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="label">Price Unit</label>
+          <select
+            value={pricing.price_unit}
+            onChange={(e) => update({ price_unit: e.target.value as PriceUnit })}
+            className="input"
+          >
+            {priceUnits.map(unit => (
+              <option key={unit.value} value={unit.value}>{unit.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="label">Minimum Quantity</label>
+          <input
+            type="number"
+            min="1"
+            step="1"
+            value={pricing.min_quantity}
+            onChange={(e) => update({ min_quantity: Number(e.target.value) || 1 })}
+            className="input"
+          />
+        </div>
+        <div>
+          <label className="label">Maximum Quantity</label>
+          <input
+            type="number"
+            min="1"
+            step="1"
+            value={pricing.max_quantity ?? ''}
+            onChange={(e) => update({ max_quantity: e.target.value === '' ? null : Number(e.target.value) })}
+            className="input"
+            placeholder="No limit"
+          />
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between">
+          <label className="label">Variants</label>
+          <button
+            type="button"
+            onClick={() => update({ variants: [...pricing.variants, { id: newPricingOptionId(), name: '', price: basePrice }] })}
+            className="text-sm text-blue-600 hover:text-blue-800 inline-flex items-center"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add variant
+          </button>
+        </div>
+        {pricing.variants.length === 0 ? (
+          <p className="text-sm text-gray-500">No variants, guests pay the base price.</p>
+        ) : (
+          <div className="space-y-2">
+            <p className="text-xs text-gray-500">Guests pick one variant, and its price replaces the base price.</p>
+            {pricing.variants.map((variant, index) => (
+              <div key={variant.id} className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={variant.name}
+                  onChange={(e) => update({
+                    variants: pricing.variants.map((v, i) => (i === index ? { ...v, name: e.target.value } : v)),
+                  })}
+                  className="input flex-1"
+                  placeholder="e.g. 7-seater"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={Number.isFinite(variant.price) ? variant.price : ''}
+                  onChange={(e) => update({
+                    variants: pricing.variants.map((v, i) => (i === index ? { ...v, price: toPrice(e.target.value) } : v)),
+                  })}
+                  className="input w-32"
+                  placeholder="0.00"
+                />
+                <button
+                  type="button"
+                  onClick={() => update({ variants: pricing.variants.filter((_, i) => i !== index) })}
+                  className="p-2 text-gray-400 hover:text-red-600"
+                  title="Remove variant"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between">
+          <label className="label">Add-ons</label>
+          <button
+            type="button"
+            onClick={() => update({
+              addons: [...pricing.addons, { id: newPricingOptionId(), name: '', price: 0, price_unit: 'booking' }],
+            })}
+            className="text-sm text-blue-600 hover:text-blue-800 inline-flex items-center"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add add-on
+          </button>
+        </div>
+        {pricing.addons.length === 0 ? (
+          <p className="text-sm text-gray-500">No optional extras.</p>
+        ) : (
+          <div className="space-y-2">
+            {pricing.addons.map((addon, index) => (
+              <div key={addon.id} className="flex flex-wrap items-center gap-2">
+                <input
+                  type="text"
+                  value={addon.name}
+                  onChange={(e) => update({
+                    addons: pricing.addons.map((a, i) => (i === index ? { ...a, name: e.target.value } : a)),
+                  })}
+                  className="input flex-1 min-w-[10rem]"
+                  placeholder="e.g. Wine pairing"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={Number.isFinite(addon.price) ? addon.price : ''}
+                  onChange={(e) => update({
+                    addons: pricing.addons.map((a, i) => (i === index ? { ...a, price: toPrice(e.target.value) } : a)),
+                  })}
+                  className="input w-32"
+                  placeholder="0.00"
+                />
+                <select
+                  value={addon.price_unit}
+                  onChange={(e) => update({
+                    addons: pricing.addons.map((a, i) => (i === index ? { ...a, price_unit: e.target.value as PriceUnit } : a)),
+                  })}
+                  className="input w-36"
+                >
+                  {priceUnits.map(unit => (
+                    <option key={unit.value} value={unit.value}>{unit.label}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => update({ addons: pricing.addons.filter((_, i) => i !== index) })}
+                  className="p-2 text-gray-400 hover:text-red-600"
+                  title="Remove add-on"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {errors.length > 0 ? (
+        <ul className="text-sm text-danger-600 list-disc list-inside">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">
+          Guests pay {pricing.variants.length > 0 ? 'from ' : ''}
+          {formatUnitPrice(Number.isFinite(startingPrice) ? startingPrice : 0, currency, pricing.price_unit)}, for {quantityRange}.
+        </p>
+      )}
+    </div>
+  )
+}
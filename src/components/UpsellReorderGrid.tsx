@@ -0,0 +1,89 @@
+import { useState } from 'react'
+import { GripVertical, Package } from 'lucide-react'
+import type { Upsell } from '../types'
+import { moveItem } from '../lib/upsellOrder'
+import { formatUpsellPrice } from '../lib/upsellPricing'
+
+interface UpsellReorderGridProps {
+  upsells: Upsell[]
+  onReorder: (upsellIds: number[]) => void
+}
+
+export const UpsellReorderGrid: React.FC<UpsellReorderGridProps> = ({ upsells, onReorder }) => {
+  const [draggedId, setDraggedId] = useState<number | null>(null)
+  // Live order while dragging, so cards shuffle out of the way before the drop
+  const [draftIds, setDraftIds] = useState<number[] | null>(null)
+
+  const ids = draftIds || upsells.map(upsell => upsell.id)
+  const byId = new Map(upsells.map(upsell => [upsell.id, upsell]))
+
+  const endDrag = () => {
+    setDraggedId(null)
+    setDraftIds(null)
+  }
+
+  const handleDragOver = (targetId: number) => {
+    if (draggedId === null || draggedId === targetId) return
+    setDraftIds(moveItem(ids, ids.indexOf(draggedId), ids.indexOf(targetId)))
+  }
+
+  const handleDrop = () => {
+    if (draftIds && draftIds.some((id, index) => id !== upsells[index].id)) {
+      onReorder(draftIds)
+    }
+    endDrag()
+  }
+
+  return (
+    <div
+      onDragOver={(e) => {
+        if (draggedId !== null) e.preventDefault()
+      }}
+      onDrop={(e) => {
+        e.preventDefault()
+        handleDrop()
+      }}
+      className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4"
+    >
+      {ids.map((id, index) => {
+        const upsell = byId.get(id)
+        if (!upsell) return null
+
+        return (
+          <div
+            key={id}
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = 'move'
+              setDraggedId(id)
+            }}
+            onDragOver={() => handleDragOver(id)}
+            onDragEnd={endDrag}
+            className={`flex items-center gap-2 bg-white rounded-lg shadow-sm border-2 border-dashed border-blue-200 p-2 cursor-grab active:cursor-grabbing ${
+              draggedId === id ? 'opacity-40' : ''
+            }`}
+          >
+            <GripVertical className="h-4 w-4 text-gray-400 flex-shrink-0" />
+            <span className="text-xs font-medium text-gray-400 w-4 flex-shrink-0">{index + 1}</span>
+            {upsell.image_url ? (
+              <img src={upsell.image_url} alt="" className="h-10 w-10 rounded object-cover flex-shrink-0" draggable={false} />
+            ) : (
+              <div className="h-10 w-10 rounded bg-blue-50 flex items-center justify-center flex-shrink-0">
+                <Package className="h-4 w-4 text-blue-400" />
+              </div>
+            )}
+            <div className="min-w-0">
+              <p className={`text-sm font-semibold truncate ${upsell.is_active ? 'text-gray-900' : 'text-gray-400'}`}>
+                {upsell.title}
+              </p>
+              <p className="text-xs text-gray-500 truncate">
+                {formatUpsellPrice(upsell)}
+                {!upsell.is_active && ' · Inactive'}
+              </p>
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,147 @@
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, type ReactNode } from 'react'
+import { useLocation, useNavigate } from 'react-router-dom'
+import { useQueryClient } from 'react-query'
+import toast from 'react-hot-toast'
+import { useAuth } from './AuthContext'
+import { connectOrderEvents, type OrderEvent, type OrderStreamStatus } from '../lib/orderEvents'
+import { formatCurrency, playNotificationSound } from '../lib/utils'
+
+interface OrderEventsContextType {
+  status: OrderStreamStatus
+  unseenCount: number
+  soundEnabled: boolean
+  setSoundEnabled: (enabled: boolean) => void
+}
+
+const SOUND_STORAGE_KEY = 'order-sound-enabled'
+
+const OrderEventsContext = createContext<OrderEventsContextType | undefined>(undefined)
+
+export const useOrderEvents = () => {
+  const context = useContext(OrderEventsContext)
+  if (context === undefined) {
+    throw new Error('useOrderEvents must be used within an OrderEventsProvider')
+  }
+  return context
+}
+
+interface OrderEventsProviderProps {
+  children: ReactNode
+}
+
+export const OrderEventsProvider: React.FC<OrderEventsProviderProps> = ({ children }) => {
+  const { token } = useAuth()
+  const queryClient = useQueryClient()
+  const location = useLocation()
+  const navigate = useNavigate()
+  const [status, setStatus] = useState<OrderStreamStatus>('closed')
+  const [unseenCount, setUnseenCount] = useState(0)
+  const [soundEnabled, setSoundEnabledState] = useState(localStorage.getItem(SOUND_STORAGE_KEY) === 'true')
+
+  // The stream callback outlives renders, so it reads these through refs
+  const isViewingOrders = location.pathname === '/orders'
+  const isViewingOrdersRef = useRef(isViewingOrders)
+  const soundEnabledRef = useRef(soundEnabled)
+  const navigateRef = useRef(navigate)
+
+  useEffect(() => {
+    isViewingOrdersRef.current = isViewingOrders
+    if (isViewingOrders) setUnseenCount(0)
+  }, [isViewingOrders])
+
+  useEffect(() => {
+    soundEnabledRef.current = soundEnabled
+    navigateRef.current = navigate
+  }, [soundEnabled, navigate])
+
+  const setSoundEnabled = useCallback((enabled: boolean) => {
+    localStorage.setItem(SOUND_STORAGE_KEY, String(enabled))
+    setSoundEnabledState(enabled)
+  }, [])
+
+  const handleEvent = useCallback((event: OrderEvent) => {
+    const { order } = event
+    queryClient.invalidateQueries('orders')
+    queryClient.invalidateQueries('recent-orders')
+    queryClient.invalidateQueries('dashboard-stats')
+
+    if (event.type !== 'order.created') {
+      queryClient.invalidateQueries(['order', String(order.id)])
+    }
+    if (event.type === 'order.updated') return
+
+    // The server sends this once per breach, so it doesn't depend on which overdue orders are loaded
+    if (event.type === 'order.sla_breached') {
+      toast.error(
+        (t) => (
+          <button
+            onClick={() => {
+              toast.dismiss(t.id)
+              navigateRef.current(`/orders/${order.id}`)
+            }}
+            className="text-left"
+          >
+            <span className="block font-medium">Order #{order.id} is overdue</span>
+            <span className="block text-sm opacity-80">
+              {order.guest_name}
+              {order.upsell?.title ? ` · ${order.upsell.title}` : ''}
+            </span>
+          </button>
+        ),
+        { id: `sla-overdue-${order.id}`, duration: 10000 }
+      )
+      return
+    }
+
+    if (!isViewingOrdersRef.current) {
+      setUnseenCount(count => count + 1)
+    }
+    if (soundEnabledRef.current) {
+      playNotificationSound()
+    }
+    const content = (
+      <>
+        <span className="block font-medium">New order from {order.guest_name}</span>
+        <span className="block text-sm opacity-80">
+          {order.upsell?.title ? `${order.upsell.title} · ` : ''}
+          {formatCurrency(order.amount, order.currency)}
+        </span>
+      </>
+    )
+    toast.success(
+      (t) => event.isMock ? (
+        <div>{content}</div>
+      ) : (
+        <button
+          onClick={() => {
+            toast.dismiss(t.id)
+            navigateRef.current(`/orders/${order.id}`)
+          }}
+          className="text-left"
+        >
+          {content}
+        </button>
+      ),
+      { duration: 8000 }
+    )
+  }, [queryClient])
+
+  useEffect(() => {
+    if (!token) return
+
+    const stream = connectOrderEvents(token, {
+      onEvent: handleEvent,
+      onStatusChange: setStatus,
+    })
+    return () => stream.close()
+  }, [token, handleEvent])
+
+  const value = {
+    status,
+    unseenCount,
+    soundEnabled,
+    setSoundEnabled,
+  }
+
+  return <OrderEventsContext.Provider value={value}>{children}</OrderEventsContext.Provider>
+}
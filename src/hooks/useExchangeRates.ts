@@ -0,0 +1,25 @@
+import { useQuery } from 'react-query'
+import { api } from '../lib/api'
+import { convertAmounts, defaultReportingCurrency } from '../lib/currency'
+import type { CurrencyAmounts, ExchangeRate, ExchangeRateSettings } from '../types'
+
+// Stable fallback so effects depending on the rates do not rerun before the query resolves
+const noRates: ExchangeRate[] = []
+
+export function useExchangeRates() {
+  const { data, isLoading } = useQuery<ExchangeRateSettings>(
+    'exchange-rates',
+    () => api.get('/exchange-rates').then(res => res.data),
+    { staleTime: 5 * 60 * 1000 }
+  )
+
+  const reportingCurrency = data?.reporting_currency || defaultReportingCurrency
+  const rates = data?.rates || noRates
+
+  return {
+    reportingCurrency,
+    rates,
+    isLoading,
+    convert: (amounts: CurrencyAmounts) => convertAmounts(amounts, reportingCurrency, rates),
+  }
+}
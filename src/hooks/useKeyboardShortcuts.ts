@@ -0,0 +1,34 @@
+import { useEffect, useRef } from 'react'
+
+export type ShortcutHandlers = Record<string, (event: KeyboardEvent) => void>
+
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+
+// Single-key shortcuts keyed by KeyboardEvent.key; ignored while typing or with a modifier held,
+// except Escape which also works from inside a field
+export function useKeyboardShortcuts(handlers: ShortcutHandlers, enabled: boolean = true) {
+  const handlersRef = useRef(handlers)
+  handlersRef.current = handlers
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.metaKey || event.ctrlKey || event.altKey) return
+      if (event.key !== 'Escape' && isEditable(event.target)) return
+      // Enter keeps activating whichever button or link has the focus
+      if (event.key === 'Enter' && event.target instanceof HTMLElement && event.target.closest('button, a')) return
+
+      const handler = handlersRef.current[event.key]
+      if (handler) {
+        event.preventDefault()
+        handler(event)
+      }
+    }
+
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [enabled])
+}
@@ -0,0 +1,14 @@
+import { useQuery } from 'react-query'
+import { api } from '../lib/api'
+import { defaultOrderSlas } from '../lib/sla'
+import type { OrderSla } from '../types'
+
+export function useOrderSlas() {
+  const { data, isLoading } = useQuery<OrderSla[]>(
+    'order-slas',
+    () => api.get('/order-slas').then(res => res.data.slas),
+    { staleTime: 5 * 60 * 1000 }
+  )
+
+  return { slas: data || defaultOrderSlas, isLoading }
+}
@@ -0,0 +1,38 @@
+import { useCallback, useMemo } from 'react'
+import { useSearchParams } from 'react-router-dom'
+
+/**
+ * Keeps a flat string state object in the query string so list views survive a
+ * refresh and can be shared as a link. Values equal to their default are left out
+ * of the URL. Change several keys in one `setState` call: react-router resolves
+ * each `setSearchParams` against the last render, so back-to-back calls clobber
+ * each other.
+ */
+export function useUrlState<T extends Record<string, string>>(defaults: T) {
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  const state = useMemo(() => {
+    const result = { ...defaults }
+    ;(Object.keys(defaults) as (keyof T & string)[]).forEach(key => {
+      const value = searchParams.get(key)
+      if (value !== null) result[key] = value as T[keyof T & string]
+    })
+    return result
+  }, [searchParams, defaults])
+
+  const setState = useCallback((patch: Partial<T>) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev)
+      Object.entries(patch).forEach(([key, value]) => {
+        if (value === undefined || value === '' || value === defaults[key]) {
+          next.delete(key)
+        } else {
+          next.set(key, value)
+        }
+      })
+      return next
+    }, { replace: true })
+  }, [setSearchParams, defaults])
+
+  return [state, setState] as const
+}
@@ -0,0 +1,155 @@
+import { addDays, addHours, eachDayOfInterval, endOfDay, endOfMonth, format, parseISO, startOfDay, startOfMonth } from 'date-fns'
+import type { AvailabilityRules, TimeSlot, Weekday } from '../types'
+
+export interface DayAvailability {
+  date: Date
+  isBookable: boolean
+  // Why the day is closed, for the preview tooltip
+  reason?: string
+  // Slot start times still bookable that day; empty for whole-day services
+  slots: string[]
+}
+
+// Listed Monday first, the way the calendar view lays out weeks
+export const weekdays: { value: Weekday; label: string; short: string }[] = [
+  { value: 1, label: 'Monday', short: 'Mon' },
+  { value: 2, label: 'Tuesday', short: 'Tue' },
+  { value: 3, label: 'Wednesday', short: 'Wed' },
+  { value: 4, label: 'Thursday', short: 'Thu' },
+  { value: 5, label: 'Friday', short: 'Fri' },
+  { value: 6, label: 'Saturday', short: 'Sat' },
+  { value: 0, label: 'Sunday', short: 'Sun' },
+]
+
+export const defaultAvailabilityRules: AvailabilityRules = {
+  days_of_week: [0, 1, 2, 3, 4, 5, 6],
+  time_slots: [],
+  min_lead_time_hours: 0,
+  max_advance_days: null,
+  blackouts: [],
+  daily_capacity: null,
+  min_guests: 1,
+  max_guests: null,
+}
+
+// Upsells saved before the editor existed store {} or null, which means "always bookable"
+export function normalizeAvailabilityRules(rules?: Partial<AvailabilityRules> | null): AvailabilityRules {
+  return { ...defaultAvailabilityRules, ...(rules || {}) }
+}
+
+const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/
+const datePattern = /^\d{4}-\d{2}-\d{2}$/
+
+export function validateAvailabilityRules(rules: AvailabilityRules): string[] {
+  const errors: string[] = []
+
+  if (rules.days_of_week.length === 0) {
+    errors.push('Pick at least one day of the week')
+  }
+  rules.time_slots.forEach((slot, index) => {
+    if (!timePattern.test(slot.start)) {
+      errors.push(`Slot ${index + 1} needs a start time`)
+    } else if (slot.end && (!timePattern.test(slot.end) || slot.end <= slot.start)) {
+      errors.push(`Slot ${index + 1} must end after it starts`)
+    }
+  })
+  if (new Set(rules.time_slots.map(slot => slot.start)).size !== rules.time_slots.length) {
+    errors.push('Two slots start at the same time')
+  }
+  rules.blackouts.forEach((blackout, index) => {
+    if (!datePattern.test(blackout.from) || !datePattern.test(blackout.to)) {
+      errors.push(`Blackout ${index + 1} needs a start and end date`)
+    } else if (blackout.to < blackout.from) {
+      errors.push(`Blackout ${index + 1} ends before it starts`)
+    }
+  })
+  if (rules.min_lead_time_hours < 0) {
+    errors.push('Lead time cannot be negative')
+  }
+  if (rules.max_advance_days !== null && rules.max_advance_days < 1) {
+    errors.push('Maximum advance booking must be at least 1 day')
+  }
+  if (rules.daily_capacity !== null && rules.daily_capacity < 1) {
+    errors.push('Daily capacity must be at least 1')
+  }
+  if (rules.min_guests < 1) {
+    errors.push('Minimum guests must be at least 1')
+  }
+  if (rules.max_guests !== null && rules.max_guests < rules.min_guests) {
+    errors.push('Maximum guests cannot be below the minimum')
+  }
+
+  return errors
+}
+
+export function sortTimeSlots(slots: TimeSlot[]): TimeSlot[] {
+  return [...slots].sort((a, b) => a.start.localeCompare(b.start))
+}
+
+export function getDayAvailability(rules: AvailabilityRules, date: Date, now: Date = new Date()): DayAvailability {
+  const day = startOfDay(date)
+  const dateParam = format(day, 'yyyy-MM-dd')
+  const earliest = addHours(now, rules.min_lead_time_hours)
+  const closed = (reason: string): DayAvailability => ({ date: day, isBookable: false, reason, slots: [] })
+
+  if (day < startOfDay(now)) {
+    return closed('In the past')
+  }
+
+  if (!rules.days_of_week.includes(day.getDay() as Weekday)) {
+    return closed('Not offered on this weekday')
+  }
+
+  const blackout = rules.blackouts.find(b => b.from <= dateParam && dateParam <= b.to)
+  if (blackout) {
+    return closed(blackout.reason ? `Blackout: ${blackout.reason}` : 'Blackout')
+  }
+
+  if (rules.max_advance_days !== null && day > endOfDay(addDays(now, rules.max_advance_days))) {
+    return closed(`More than ${rules.max_advance_days} days ahead`)
+  }
+
+  if (rules.time_slots.length === 0) {
+    // Whole-day services stay bookable on the day the lead time runs out
+    return day < startOfDay(earliest)
+      ? closed('Inside the minimum lead time')
+      : { date: day, isBookable: true, slots: [] }
+  }
+
+  const slots = sortTimeSlots(rules.time_slots)
+    .filter(slot => parseISO(`${dateParam}T${slot.start}`) >= earliest)
+    .map(slot => slot.start)
+
+  return slots.length > 0
+    ? { date: day, isBookable: true, slots }
+    : closed('Inside the minimum lead time')
+}
+
+export function getMonthAvailability(rules: AvailabilityRules, month: Date, now: Date = new Date()): DayAvailability[] {
+  return eachDayOfInterval({ start: startOfMonth(month), end: endOfMonth(month) })
+    .map(date => getDayAvailability(rules, date, now))
+}
+
+// Checks a requested service date and time against the rules, e.g. for orders entered by staff
+export function getAvailabilityIssue(
+  rules: AvailabilityRules,
+  serviceDate: string,
+  serviceTime?: string,
+  now: Date = new Date()
+): string | null {
+  // Past dates are historical orders being recorded, not bookings
+  if (!datePattern.test(serviceDate) || parseISO(serviceDate) < startOfDay(now)) return null
+  const availability = getDayAvailability(rules, parseISO(serviceDate), now)
+  if (!availability.isBookable) return availability.reason || 'Not bookable on this date'
+  if (rules.time_slots.length > 0 && serviceTime && !availability.slots.includes(serviceTime)) {
+    return `Not a bookable slot, choose one of ${availability.slots.join(', ')}`
+  }
+  return null
+}
+
+export function describeGuestLimits(rules: AvailabilityRules): string | null {
+  if (rules.min_guests <= 1 && rules.max_guests === null) return null
+  if (rules.max_guests === null) return `${rules.min_guests}+ guests`
+  if (rules.min_guests === rules.max_guests) return `${rules.min_guests} guests`
+  return `${rules.min_guests}–${rules.max_guests} guests`
+}
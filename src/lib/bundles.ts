@@ -0,0 +1,46 @@
+import type { Upsell, UpsellBundle } from '../types'
+import { normalizeUpsellPricing } from './upsellPricing'
+
+const roundPrice = (price: number) => Math.round(price * 100) / 100
+
+export function getComponentsTotal(upsells: Upsell[]): number {
+  return roundPrice(upsells.reduce((sum, upsell) => sum + upsell.price, 0))
+}
+
+export function getBundlePrice(bundle: Pick<UpsellBundle, 'pricing_type' | 'bundle_price' | 'discount_percent'>, upsells: Upsell[]): number {
+  if (bundle.pricing_type === 'price') return roundPrice(bundle.bundle_price || 0)
+  return roundPrice(getComponentsTotal(upsells) * (1 - (bundle.discount_percent || 0) / 100))
+}
+
+// Splits the package price across the sub-orders in proportion to each component's own price,
+// with any rounding remainder on the last one so the sub-orders add up to the package price exactly
+export function allocateBundlePrice(price: number, upsells: Upsell[]): Map<number, number> {
+  const total = getComponentsTotal(upsells)
+  const shares = new Map<number, number>()
+  let allocated = 0
+
+  upsells.forEach((upsell, index) => {
+    const share = index === upsells.length - 1
+      ? roundPrice(price - allocated)
+      : roundPrice(total > 0 ? price * (upsell.price / total) : price / upsells.length)
+    shares.set(upsell.id, share)
+    allocated += share
+  })
+
+  return shares
+}
+
+export function getBundleComponents(bundle: UpsellBundle, upsells: Upsell[]): Upsell[] {
+  const byId = new Map(upsells.map(upsell => [upsell.id, upsell]))
+  return bundle.upsell_ids.map(id => byId.get(id)).filter((upsell): upsell is Upsell => Boolean(upsell))
+}
+
+// A package sells each component once at its base price, so upsells priced per person, hour or night,
+// with variants or a minimum quantity can't be part of one. Returns why, or null when it can
+export function getBundleIneligibility(upsell: Upsell): string | null {
+  const pricing = normalizeUpsellPricing(upsell)
+  if (pricing.price_unit !== 'booking') return `Priced per ${pricing.price_unit}`
+  if (pricing.variants.length > 0) return 'Has variants'
+  if (pricing.min_quantity > 1) return `Booked ${pricing.min_quantity} at a time`
+  return null
+}
@@ -0,0 +1,12 @@
+export const upsellCategories = [
+  'chef',
+  'transport',
+  'cleaning',
+  'concierge',
+  'maintenance',
+  'security',
+  'entertainment',
+  'wellness',
+  'experience',
+  'other'
+]
@@ -0,0 +1,117 @@
+import type { CurrencyAmounts, ExchangeRate } from '../types'
+import { parseCSV } from './csv'
+
+export const currencies = [
+  { code: 'USD', name: 'US Dollar' },
+  { code: 'EUR', name: 'Euro' },
+  { code: 'GBP', name: 'British Pound' },
+  { code: 'CAD', name: 'Canadian Dollar' },
+  { code: 'AUD', name: 'Australian Dollar' },
+  { code: 'CHF', name: 'Swiss Franc' },
+  { code: 'JPY', name: 'Japanese Yen' },
+]
+
+export const defaultReportingCurrency = 'USD'
+
+export interface ConvertedTotal {
+  total: number
+  // Currencies left out of the total because no exchange rate is set for them
+  missing: string[]
+}
+
+export function convertAmount(
+  amount: number,
+  currency: string,
+  reportingCurrency: string,
+  rates: ExchangeRate[]
+): number | null {
+  if (currency === reportingCurrency) return amount
+  const rate = rates.find(r => r.currency === currency)?.rate
+  return rate ? amount * rate : null
+}
+
+// Rates are all quoted against the reporting currency, so other pairs go through it
+export function convertBetween(
+  amount: number,
+  from: string,
+  to: string,
+  reportingCurrency: string,
+  rates: ExchangeRate[]
+): number | null {
+  if (from === to) return amount
+  const inReporting = convertAmount(amount, from, reportingCurrency, rates)
+  if (inReporting === null || to === reportingCurrency) return inReporting
+  const rate = rates.find(r => r.currency === to)?.rate
+  return rate ? inReporting / rate : null
+}
+
+// Requotes the rates against a new reporting currency, which needs a rate of its own to pivot on.
+// The old reporting currency becomes a regular rate; null when there's nothing to pivot on
+export function rebaseExchangeRates(
+  rates: ExchangeRate[],
+  fromCurrency: string,
+  toCurrency: string
+): ExchangeRate[] | null {
+  const pivot = rates.find(r => r.currency === toCurrency)?.rate
+  if (!pivot || !Number.isFinite(pivot) || pivot <= 0) return null
+  return [
+    ...rates
+      .filter(r => r.currency !== toCurrency)
+      .map(r => ({ currency: r.currency, rate: Number((r.rate / pivot).toPrecision(6)) })),
+    { currency: fromCurrency, rate: Number((1 / pivot).toPrecision(6)) },
+  ]
+}
+
+export function convertAmounts(
+  amounts: CurrencyAmounts,
+  reportingCurrency: string,
+  rates: ExchangeRate[]
+): ConvertedTotal {
+  return Object.entries(amounts).reduce<ConvertedTotal>(
+    (result, [currency, amount]) => {
+      const converted = convertAmount(amount, currency, reportingCurrency, rates)
+      return converted === null
+        ? { ...result, missing: [...result.missing, currency] }
+        : { ...result, total: result.total + converted }
+    },
+    { total: 0, missing: [] }
+  )
+}
+
+export function addAmounts(...groups: CurrencyAmounts[]): CurrencyAmounts {
+  return groups.reduce<CurrencyAmounts>((sum, group) => {
+    Object.entries(group).forEach(([currency, amount]) => {
+      sum[currency] = (sum[currency] || 0) + amount
+    })
+    return sum
+  }, {})
+}
+
+// Largest amounts first so the breakdown leads with the currencies that matter most
+export function sortAmounts(amounts: CurrencyAmounts): [string, number][] {
+  return Object.entries(amounts)
+    .filter(([, amount]) => amount !== 0)
+    .sort(([, a], [, b]) => b - a)
+}
+
+// Accepts "currency,rate" rows with an optional header, e.g. an export from a bank or spreadsheet
+export function parseExchangeRatesCSV(text: string): { rates: ExchangeRate[]; errors: string[] } {
+  const rows = parseCSV(text)
+  const errors: string[] = []
+  const rates: ExchangeRate[] = []
+
+  rows.forEach((row, index) => {
+    const currency = (row[0] || '').trim().toUpperCase()
+    const rate = Number((row[1] || '').trim())
+    if (index === 0 && !Number.isFinite(rate)) return
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      errors.push(`Row ${index + 1}: invalid currency "${row[0] || ''}"`)
+    } else if (!Number.isFinite(rate) || rate <= 0) {
+      errors.push(`Row ${index + 1}: invalid rate "${row[1] || ''}" for ${currency}`)
+    } else {
+      rates.push({ currency, rate })
+    }
+  })
+
+  return { rates, errors }
+}
@@ -0,0 +1,106 @@
+import type { DispatchChannel, Order, OrderDispatch, Vendor } from '../types'
+import { formatCurrency } from './utils'
+import { formatServiceDate } from './orderCalendar'
+
+export const dispatchChannels: { value: DispatchChannel; label: string }[] = [
+  { value: 'email', label: 'Email' },
+  { value: 'whatsapp', label: 'WhatsApp' },
+]
+
+export const responseWindows = [
+  { value: 1, label: '1 hour' },
+  { value: 2, label: '2 hours' },
+  { value: 4, label: '4 hours' },
+  { value: 12, label: '12 hours' },
+  { value: 24, label: '24 hours' },
+]
+
+export const dispatchPlaceholders = [
+  'vendor_name',
+  'guest_name',
+  'guest_phone',
+  'service',
+  'property',
+  'service_date',
+  'amount',
+  'order_id',
+]
+
+export const defaultDispatchTemplates: Record<DispatchChannel, { subject: string; message: string }> = {
+  email: {
+    subject: 'New booking #{{order_id}}: {{service}} at {{property}}',
+    message: [
+      'Hi {{vendor_name}},',
+      '',
+      'You have a new booking request:',
+      '',
+      'Service: {{service}}',
+      'Property: {{property}}',
+      'Date: {{service_date}}',
+      'Guest: {{guest_name}} ({{guest_phone}})',
+      'Amount: {{amount}}',
+      '',
+      'Please reply to confirm or decline order #{{order_id}}.',
+    ].join('\n'),
+  },
+  whatsapp: {
+    subject: '',
+    message: [
+      'Hi {{vendor_name}}, new booking #{{order_id}}:',
+      '*{{service}}* at {{property}}',
+      'Date: {{service_date}}',
+      'Guest: {{guest_name}} ({{guest_phone}})',
+      'Please confirm or decline.',
+    ].join('\n'),
+  },
+}
+
+export function renderDispatchTemplate(template: string, order: Order, vendor?: Pick<Vendor, 'name'>): string {
+  const values: Record<string, string> = {
+    vendor_name: vendor?.name || 'there',
+    guest_name: order.guest_name,
+    guest_phone: order.guest_phone || order.guest_email,
+    service: order.upsell?.title || `Upsell #${order.upsell_id}`,
+    property: order.property?.name || `Property #${order.property_id}`,
+    service_date: formatServiceDate(order) || 'to be confirmed',
+    amount: formatCurrency(order.amount, order.currency),
+    order_id: String(order.id),
+  }
+  return template.replace(/\{\{(\w+)\}\}/g, (match, key: string) => values[key] ?? match)
+}
+
+export function buildWhatsAppLink(number: string, message: string): string {
+  return `https://wa.me/${number.replace(/\D/g, '')}?text=${encodeURIComponent(message)}`
+}
+
+export function getLatestDispatch(order: Order): OrderDispatch | undefined {
+  return [...(order.dispatches || [])].sort(
+    (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  )[0]
+}
+
+export function isAwaitingReply(dispatch: OrderDispatch): boolean {
+  return dispatch.status === 'sent' && new Date(dispatch.respond_by).getTime() > Date.now()
+}
+
+// A sent dispatch past its window counts as expired even before the server catches up
+export function hasLapsed(dispatch: OrderDispatch): boolean {
+  return dispatch.status === 'declined' || dispatch.status === 'expired' ||
+    (dispatch.status === 'sent' && !isAwaitingReply(dispatch))
+}
+
+export function canDispatch(order: Order): boolean {
+  return order.status === 'pending' || order.status === 'confirmed'
+}
+
+export function needsEscalation(order: Order): boolean {
+  const latest = getLatestDispatch(order)
+  return Boolean(
+    canDispatch(order) &&
+    latest &&
+    !latest.is_escalation &&
+    hasLapsed(latest) &&
+    order.upsell?.secondary_vendor_id &&
+    latest.vendor_id !== order.upsell.secondary_vendor_id
+  )
+}
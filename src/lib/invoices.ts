@@ -0,0 +1,197 @@
+import { parseISO } from 'date-fns'
+import type { Order, OrderInvoice, Property } from '../types'
+import { api } from './api'
+import { downloadFile } from './utils'
+import { getRefundedAmount } from './refunds'
+import { isAwaitingPayment } from './manualOrders'
+
+interface InvoiceLabels {
+  invoice: string
+  number: string
+  issued: string
+  billedTo: string
+  description: string
+  serviceDate: string
+  quantity: string
+  amount: string
+  subtotal: string
+  tax: string
+  total: string
+  refunded: string
+  payment: string
+  reference: string
+  taxId: string
+  order: string
+}
+
+const invoiceLabels: Record<string, InvoiceLabels> = {
+  en: {
+    invoice: 'Invoice', number: 'Invoice no.', issued: 'Issued', billedTo: 'Billed to', description: 'Description',
+    serviceDate: 'Service date', quantity: 'Qty', amount: 'Amount', subtotal: 'Subtotal', tax: 'Tax', total: 'Total',
+    refunded: 'Refunded', payment: 'Payment', reference: 'Reference', taxId: 'Tax ID', order: 'Order',
+  },
+  es: {
+    invoice: 'Factura', number: 'N.º de factura', issued: 'Fecha de emisión', billedTo: 'Facturado a', description: 'Descripción',
+    serviceDate: 'Fecha del servicio', quantity: 'Cant.', amount: 'Importe', subtotal: 'Subtotal', tax: 'Impuesto', total: 'Total',
+    refunded: 'Reembolsado', payment: 'Pago', reference: 'Referencia', taxId: 'NIF', order: 'Pedido',
+  },
+  fr: {
+    invoice: 'Facture', number: 'N° de facture', issued: 'Date d’émission', billedTo: 'Facturé à', description: 'Description',
+    serviceDate: 'Date de la prestation', quantity: 'Qté', amount: 'Montant', subtotal: 'Sous-total', tax: 'TVA', total: 'Total',
+    refunded: 'Remboursé', payment: 'Paiement', reference: 'Référence', taxId: 'N° TVA', order: 'Commande',
+  },
+  de: {
+    invoice: 'Rechnung', number: 'Rechnungsnr.', issued: 'Rechnungsdatum', billedTo: 'Rechnung an', description: 'Beschreibung',
+    serviceDate: 'Leistungsdatum', quantity: 'Menge', amount: 'Betrag', subtotal: 'Zwischensumme', tax: 'MwSt.', total: 'Gesamt',
+    refunded: 'Erstattet', payment: 'Zahlung', reference: 'Referenz', taxId: 'USt-IdNr.', order: 'Bestellung',
+  },
+  it: {
+    invoice: 'Fattura', number: 'Fattura n.', issued: 'Data di emissione', billedTo: 'Intestata a', description: 'Descrizione',
+    serviceDate: 'Data del servizio', quantity: 'Qtà', amount: 'Importo', subtotal: 'Imponibile', tax: 'IVA', total: 'Totale',
+    refunded: 'Rimborsato', payment: 'Pagamento', reference: 'Riferimento', taxId: 'P. IVA', order: 'Ordine',
+  },
+  pt: {
+    invoice: 'Fatura', number: 'Fatura n.º', issued: 'Data de emissão', billedTo: 'Faturado a', description: 'Descrição',
+    serviceDate: 'Data do serviço', quantity: 'Qtd.', amount: 'Valor', subtotal: 'Subtotal', tax: 'IVA', total: 'Total',
+    refunded: 'Reembolsado', payment: 'Pagamento', reference: 'Referência', taxId: 'NIF', order: 'Encomenda',
+  },
+  nl: {
+    invoice: 'Factuur', number: 'Factuurnr.', issued: 'Factuurdatum', billedTo: 'Gefactureerd aan', description: 'Omschrijving',
+    serviceDate: 'Datum dienst', quantity: 'Aantal', amount: 'Bedrag', subtotal: 'Subtotaal', tax: 'Btw', total: 'Totaal',
+    refunded: 'Terugbetaald', payment: 'Betaling', reference: 'Referentie', taxId: 'Btw-nr.', order: 'Bestelling',
+  },
+}
+
+export function getInvoiceLabels(language: string): InvoiceLabels {
+  return invoiceLabels[language] || invoiceLabels.en
+}
+
+export function canInvoice(order: Order): boolean {
+  return order.status !== 'cancelled' && !isAwaitingPayment(order)
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!))
+
+export function renderInvoiceHtml(order: Order, invoice: OrderInvoice, property: Property): string {
+  const labels = getInvoiceLabels(invoice.language)
+  const settings = property.invoice_settings || {}
+  const money = (amount: number) =>
+    new Intl.NumberFormat(invoice.language, { style: 'currency', currency: invoice.currency }).format(amount)
+  // parseISO keeps a bare service date on that day, new Date() would read it as UTC midnight
+  const date = (value: string) =>
+    new Intl.DateTimeFormat(invoice.language, { dateStyle: 'long' }).format(parseISO(value))
+  const refunded = getRefundedAmount(order)
+  const reference = order.payment_reference || order.stripe_payment_intent_id || order.stripe_charge_id
+  // Only the option names as they were entered, no English unit wording; the quantity has its own column
+  const options = order.configuration
+    ? [order.configuration.variant?.name, ...order.configuration.addons.map(addon => addon.name)].filter(Boolean).join(' + ')
+    : ''
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(invoice.language)}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(`${labels.invoice} ${invoice.number}`)}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #111827; margin: 40px; font-size: 14px; }
+  header { display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 40px; }
+  header img { height: 64px; width: 64px; object-fit: cover; border-radius: 8px; margin-bottom: 8px; }
+  h1 { font-size: 28px; margin: 0 0 8px; }
+  .muted { color: #6b7280; }
+  .meta td { padding: 2px 12px 2px 0; }
+  table.items { width: 100%; border-collapse: collapse; margin: 32px 0; }
+  table.items th { text-align: left; border-bottom: 2px solid #e5e7eb; padding: 8px 0; font-size: 12px; text-transform: uppercase; color: #6b7280; }
+  table.items td { border-bottom: 1px solid #e5e7eb; padding: 12px 0; }
+  .right { text-align: right; }
+  .totals { margin-left: auto; width: 280px; }
+  .totals td { padding: 4px 0; }
+  .totals .grand td { border-top: 2px solid #111827; font-weight: 700; font-size: 16px; padding-top: 8px; }
+  footer { margin-top: 48px; font-size: 12px; color: #6b7280; white-space: pre-line; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<header>
+  <div>
+    ${property.hero_image_url ? `<img src="${escapeHtml(property.hero_image_url)}" alt="">` : ''}
+    <div><strong>${escapeHtml(settings.legal_name || property.name)}</strong></div>
+    ${settings.address ? `<div class="muted" style="white-space: pre-line">${escapeHtml(settings.address)}</div>` : ''}
+    ${settings.tax_id ? `<div class="muted">${labels.taxId}: ${escapeHtml(settings.tax_id)}</div>` : ''}
+  </div>
+  <div class="right">
+    <h1>${labels.invoice}</h1>
+    <table class="meta">
+      <tr><td class="muted">${labels.number}</td><td>${escapeHtml(invoice.number)}</td></tr>
+      <tr><td class="muted">${labels.issued}</td><td>${date(invoice.issued_at)}</td></tr>
+      <tr><td class="muted">${labels.order}</td><td>#${order.id}</td></tr>
+    </table>
+  </div>
+</header>
+
+<div class="muted">${labels.billedTo}</div>
+<div><strong>${escapeHtml(order.guest_name)}</strong></div>
+<div>${escapeHtml(order.guest_email)}</div>
+${order.guest_phone ? `<div>${escapeHtml(order.guest_phone)}</div>` : ''}
+
+<table class="items">
+  <thead>
+    <tr><th>${labels.description}</th><th>${labels.serviceDate}</th><th class="right">${labels.quantity}</th><th class="right">${labels.amount}</th></tr>
+  </thead>
+  <tbody>
+    <tr>
+      <td>${escapeHtml(order.upsell?.title || `${labels.order} #${order.id}`)}${options ? `<div>${escapeHtml(options)}</div>` : ''}<div class="muted">${escapeHtml(property.name)}</div></td>
+      <td>${order.service_date ? date(order.service_date) : '—'}</td>
+      <td class="right">${order.configuration?.quantity ?? 1}</td>
+      <td class="right">${money(invoice.subtotal)}</td>
+    </tr>
+  </tbody>
+</table>
+
+<table class="totals">
+  <tr><td>${labels.subtotal}</td><td class="right">${money(invoice.subtotal)}</td></tr>
+  <tr><td>${escapeHtml(settings.tax_label || labels.tax)} (${invoice.tax_rate}%)</td><td class="right">${money(invoice.tax_amount)}</td></tr>
+  <tr class="grand"><td>${labels.total}</td><td class="right">${money(invoice.total)}</td></tr>
+  ${refunded > 0 ? `<tr><td>${labels.refunded}</td><td class="right">−${money(refunded)}</td></tr>` : ''}
+</table>
+
+${reference ? `<p><span class="muted">${labels.payment} ${labels.reference.toLowerCase()}:</span> ${escapeHtml(reference)}</p>` : ''}
+
+${settings.footer ? `<footer>${escapeHtml(settings.footer)}</footer>` : ''}
+</body>
+</html>`
+}
+
+// The window has to be opened synchronously from the click, before the invoice is fetched,
+// otherwise popup blockers swallow it
+export function openInvoiceWindow(): Window {
+  const printWindow = window.open('', '_blank')
+  if (!printWindow) {
+    throw new Error('The invoice window was blocked by the browser')
+  }
+  return printWindow
+}
+
+export function printInvoice(printWindow: Window, html: string): void {
+  printWindow.document.open()
+  printWindow.document.write(html)
+  printWindow.document.close()
+  // Wait for the property image before the print dialog opens
+  printWindow.onload = () => printWindow.print()
+}
+
+// Issues the invoice if the order does not have one yet; the server keeps this idempotent
+export async function issueInvoice(orderId: number): Promise<OrderInvoice> {
+  const res = await api.post(`/orders/${orderId}/invoice`)
+  return res.data.invoice
+}
+
+export async function downloadInvoicePdf(order: Order, invoice: OrderInvoice): Promise<void> {
+  const res = await api.get(`/orders/${order.id}/invoice/pdf`, { responseType: 'blob' })
+  downloadFile(res.data, `invoice_${invoice.number}.pdf`)
+}
+
+export async function downloadInvoices(orderIds: number[]): Promise<void> {
+  const res = await api.post('/orders/invoices/download', { ids: orderIds }, { responseType: 'blob' })
+  downloadFile(res.data, `invoices_${new Date().toISOString().split('T')[0]}.zip`)
+}
@@ -0,0 +1,34 @@
+import type { Order, OrderPaymentMethod, OrderSource } from '../types'
+
+export const orderSources: { value: OrderSource; label: string }[] = [
+  { value: 'guest_app', label: 'Guest app' },
+  { value: 'phone', label: 'Phone booking' },
+  { value: 'walk_in', label: 'Walk-in at the villa' },
+]
+
+export const offlinePaymentMethods: { value: OrderPaymentMethod; label: string }[] = [
+  { value: 'cash', label: 'Cash' },
+  { value: 'bank_transfer', label: 'Bank transfer' },
+  { value: 'card_terminal', label: 'Card terminal' },
+]
+
+const paymentMethodLabels: Record<OrderPaymentMethod, string> = {
+  stripe: 'Stripe (guest app)',
+  payment_link: 'Payment link',
+  cash: 'Cash',
+  bank_transfer: 'Bank transfer',
+  card_terminal: 'Card terminal',
+}
+
+export function getOrderSourceLabel(source?: OrderSource): string {
+  return orderSources.find(option => option.value === (source || 'guest_app'))?.label || 'Guest app'
+}
+
+export function getPaymentMethodLabel(method?: OrderPaymentMethod): string {
+  return paymentMethodLabels[method || 'stripe']
+}
+
+// A payment link order stays unpaid until the guest completes checkout
+export function isAwaitingPayment(order: Order): boolean {
+  return order.payment_method === 'payment_link' && !order.paid_at
+}
@@ -0,0 +1,34 @@
+import type { User } from '../types'
+
+export type Mentionable = Pick<User, 'id' | 'name' | 'email'>
+
+// Returns the partial name typed after an "@" right before the caret, if any
+export function findMentionQuery(text: string, caret: number): { query: string; start: number } | null {
+  const match = /(^|\s)@([\w.-]*)$/.exec(text.slice(0, caret))
+  if (!match) return null
+  return { query: match[2], start: caret - match[2].length - 1 }
+}
+
+export function insertMention(text: string, start: number, caret: number, user: Mentionable): { text: string; caret: number } {
+  const mention = `@${user.name} `
+  return {
+    text: text.slice(0, start) + mention + text.slice(caret),
+    caret: start + mention.length,
+  }
+}
+
+// Only people whose "@Name" is still in the text count, in case the mention was edited away
+export function getMentionedUsers(text: string, users: Mentionable[]): Mentionable[] {
+  return users.filter(user => text.includes(`@${user.name}`))
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+export function splitMentions(text: string, users: Mentionable[]): { text: string; isMention: boolean }[] {
+  if (users.length === 0) return [{ text, isMention: false }]
+  const pattern = new RegExp(`(${users.map(user => `@${escapeRegExp(user.name)}`).join('|')})`, 'g')
+  return text
+    .split(pattern)
+    .filter(Boolean)
+    .map(part => ({ text: part, isMention: users.some(user => part === `@${user.name}`) }))
+}
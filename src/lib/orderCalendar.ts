@@ -0,0 +1,66 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  endOfMonth,
+  endOfWeek,
+  format,
+  parseISO,
+  startOfMonth,
+  startOfWeek
+} from 'date-fns'
+import type { Order } from '../types'
+
+export type CalendarMode = 'month' | 'week' | 'day'
+export type CalendarColorBy = 'status' | 'category'
+
+export const calendarModes: CalendarMode[] = ['month', 'week', 'day']
+
+// The calendar loads a whole range, fetching it in pages of this size
+export const calendarPageSize = 500
+
+const weekOptions = { weekStartsOn: 1 } as const
+
+export function getCalendarRange(mode: CalendarMode, date: Date): { start: Date; end: Date } {
+  switch (mode) {
+    case 'month':
+      // Whole weeks, so the leading and trailing days of the grid are filled too
+      return {
+        start: startOfWeek(startOfMonth(date), weekOptions),
+        end: endOfWeek(endOfMonth(date), weekOptions),
+      }
+    case 'week':
+      return { start: startOfWeek(date, weekOptions), end: endOfWeek(date, weekOptions) }
+    default:
+      return { start: date, end: date }
+  }
+}
+
+export function shiftCalendarDate(mode: CalendarMode, date: Date, amount: number): Date {
+  switch (mode) {
+    case 'month':
+      return addMonths(date, amount)
+    case 'week':
+      return addWeeks(date, amount)
+    default:
+      return addDays(date, amount)
+  }
+}
+
+export function toDateParam(date: Date): string {
+  return format(date, 'yyyy-MM-dd')
+}
+
+// Service dates are local to the villa, so they are parsed without a timezone
+export function getServiceDateTime(order: Order): Date | null {
+  if (!order.service_date) return null
+  return parseISO(`${order.service_date}T${order.service_time || '00:00'}`)
+}
+
+export function formatServiceDate(order: Order): string | null {
+  const serviceDate = getServiceDateTime(order)
+  if (!serviceDate) return null
+  return order.service_time
+    ? format(serviceDate, 'EEE d MMM yyyy, HH:mm')
+    : format(serviceDate, 'EEE d MMM yyyy')
+}
@@ -0,0 +1,106 @@
+import type { Order } from '../types'
+
+// order.sla_breached is sent when an order passes its SLA deadline without changing status
+export type OrderEventType = 'order.created' | 'order.updated' | 'order.sla_breached'
+export type OrderStreamStatus = 'connecting' | 'open' | 'closed'
+
+export interface OrderEvent {
+  type: OrderEventType
+  order: Order
+  // Made up by the mock stream, so there's no order page to open
+  isMock?: boolean
+}
+
+interface OrderEventHandlers {
+  onEvent: (event: OrderEvent) => void
+  onStatusChange?: (status: OrderStreamStatus) => void
+}
+
+export interface OrderEventStream {
+  close: () => void
+}
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:8000/api'
+const eventTypes: OrderEventType[] = ['order.created', 'order.updated', 'order.sla_breached']
+
+// EventSource cannot send headers, so the token goes in the query string
+function connectServerSentEvents(token: string, { onEvent, onStatusChange }: OrderEventHandlers): OrderEventStream {
+  const source = new EventSource(`${API_BASE_URL}/orders/stream?token=${encodeURIComponent(token)}`)
+  onStatusChange?.('connecting')
+
+  source.onopen = () => onStatusChange?.('open')
+  source.onerror = () => {
+    // The browser retries on its own unless the server closed the stream for good
+    onStatusChange?.(source.readyState === EventSource.CLOSED ? 'closed' : 'connecting')
+  }
+
+  eventTypes.forEach(type => {
+    source.addEventListener(type, (message) => {
+      try {
+        const order = JSON.parse((message as MessageEvent).data) as Order
+        onEvent({ type, order })
+      } catch (error) {
+        console.error('Invalid order event payload:', error)
+      }
+    })
+  })
+
+  return {
+    close: () => {
+      source.close()
+      onStatusChange?.('closed')
+    }
+  }
+}
+
+// Local stand-in for development without the backend stream
+function connectMockEvents({ onEvent, onStatusChange }: OrderEventHandlers): OrderEventStream {
+  const guests = ['Emma Laurent', 'Lucas Meyer', 'Sofia Rossi', 'James Carter']
+  const services = [
+    { title: 'Private Chef Dinner', category: 'chef' },
+    { title: 'Airport Transfer', category: 'transport' },
+    { title: 'Deep Clean', category: 'cleaning' },
+  ]
+  let nextId = 900000
+
+  onStatusChange?.('open')
+  const timer = window.setInterval(() => {
+    const service = services[Math.floor(Math.random() * services.length)]
+    const guest = guests[Math.floor(Math.random() * guests.length)]
+    const now = new Date().toISOString()
+    nextId += 1
+
+    onEvent({
+      type: 'order.created',
+      isMock: true,
+      order: {
+        id: nextId,
+        property_id: 0,
+        upsell_id: 0,
+        vendor_id: 0,
+        guest_name: guest,
+        guest_email: `${guest.split(' ')[0].toLowerCase()}@example.com`,
+        amount: 150,
+        currency: 'EUR',
+        status: 'pending',
+        created_at: now,
+        updated_at: now,
+        upsell: { title: service.title, category: service.category } as Order['upsell'],
+      },
+    })
+  }, 30000)
+
+  return {
+    close: () => {
+      window.clearInterval(timer)
+      onStatusChange?.('closed')
+    }
+  }
+}
+
+export function connectOrderEvents(token: string, handlers: OrderEventHandlers): OrderEventStream {
+  if (import.meta.env.VITE_ORDER_EVENTS === 'mock') {
+    return connectMockEvents(handlers)
+  }
+  return connectServerSentEvents(token, handlers)
+}
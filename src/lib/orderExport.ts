@@ -0,0 +1,72 @@
+export type ExportFormat = 'csv' | 'xlsx' | 'json'
+
+export interface ExportColumn {
+  key: string
+  label: string
+  group: 'Order' | 'Guest' | 'Service' | 'Payment'
+}
+
+export const exportFormats: { value: ExportFormat; label: string; mimeType: string }[] = [
+  { value: 'csv', label: 'CSV', mimeType: 'text/csv' },
+  { value: 'xlsx', label: 'Excel (XLSX)', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  { value: 'json', label: 'JSON', mimeType: 'application/json' },
+]
+
+// Keys match the column names the /orders/export endpoint accepts
+export const orderExportColumns: ExportColumn[] = [
+  { key: 'id', label: 'Order ID', group: 'Order' },
+  { key: 'status', label: 'Status', group: 'Order' },
+  { key: 'created_at', label: 'Created', group: 'Order' },
+  { key: 'service_date', label: 'Service date', group: 'Order' },
+  { key: 'service_time', label: 'Service time', group: 'Order' },
+  { key: 'source', label: 'Booked via', group: 'Order' },
+  { key: 'guest_name', label: 'Guest name', group: 'Guest' },
+  { key: 'guest_email', label: 'Guest email', group: 'Guest' },
+  { key: 'guest_phone', label: 'Guest phone', group: 'Guest' },
+  { key: 'guest_passport', label: 'Guest passport', group: 'Guest' },
+  { key: 'property', label: 'Property', group: 'Service' },
+  { key: 'upsell', label: 'Upsell', group: 'Service' },
+  { key: 'category', label: 'Category', group: 'Service' },
+  { key: 'vendor', label: 'Vendor', group: 'Service' },
+  { key: 'vendor_email', label: 'Vendor email', group: 'Service' },
+  { key: 'amount', label: 'Amount', group: 'Payment' },
+  { key: 'currency', label: 'Currency', group: 'Payment' },
+  { key: 'refunded_amount', label: 'Refunded', group: 'Payment' },
+  { key: 'payment_method', label: 'Payment method', group: 'Payment' },
+  { key: 'payment_reference', label: 'Payment reference', group: 'Payment' },
+  { key: 'stripe_payment_intent_id', label: 'Stripe payment intent', group: 'Payment' },
+  { key: 'stripe_charge_id', label: 'Stripe charge', group: 'Payment' },
+]
+
+export const defaultExportColumns = [
+  'id',
+  'created_at',
+  'status',
+  'guest_name',
+  'guest_email',
+  'property',
+  'upsell',
+  'vendor',
+  'amount',
+  'currency',
+]
+
+const COLUMNS_STORAGE_KEY = 'order-export-columns'
+
+// Remembers the last column layout, dropping any keys that no longer exist
+export function loadExportColumns(): string[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(COLUMNS_STORAGE_KEY) || 'null')
+    if (Array.isArray(saved)) {
+      const known = saved.filter((key): key is string => orderExportColumns.some(column => column.key === key))
+      if (known.length > 0) return known
+    }
+  } catch {
+    // Fall through to the defaults
+  }
+  return defaultExportColumns
+}
+
+export function saveExportColumns(columns: string[]): void {
+  localStorage.setItem(COLUMNS_STORAGE_KEY, JSON.stringify(columns))
+}
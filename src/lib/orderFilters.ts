@@ -0,0 +1,90 @@
+export type OrderSortField = 'date' | 'service_date' | 'amount' | 'status'
+export type SortDirection = 'asc' | 'desc'
+
+export interface OrderFilters {
+  search?: string
+  status?: string
+  date?: string
+  vendor?: string
+  property?: string
+  category?: string
+  serviceFrom?: string
+  serviceTo?: string
+  overdue?: boolean
+  sortBy?: OrderSortField
+  sortOrder?: SortDirection
+}
+
+export const pageSizeOptions = [10, 25, 50, 100]
+
+// Maps the Orders page filters onto the query parameters the /orders endpoints accept
+export function toOrderQueryParams(filters: OrderFilters, page?: number, perPage?: number): URLSearchParams {
+  const params = new URLSearchParams()
+  if (filters.search) params.append('search', filters.search)
+  if (filters.status) params.append('status', filters.status)
+  if (filters.date) params.append('date', filters.date)
+  if (filters.vendor) params.append('vendor', filters.vendor)
+  if (filters.property) params.append('property', filters.property)
+  if (filters.category) params.append('category', filters.category)
+  if (filters.serviceFrom) params.append('service_from', filters.serviceFrom)
+  if (filters.serviceTo) params.append('service_to', filters.serviceTo)
+  if (filters.overdue) params.append('overdue', '1')
+  if (filters.sortBy) params.append('sort_by', filters.sortBy)
+  if (filters.sortOrder) params.append('sort_order', filters.sortOrder)
+  if (page) params.append('page', String(page))
+  if (perPage) params.append('per_page', String(perPage))
+  return params
+}
+
+// Query-string state of the Orders page; saved views store everything except paging and the calendar date
+export const defaultOrderView = {
+  q: '',
+  status: '',
+  date: '',
+  vendor: '',
+  property: '',
+  category: '',
+  overdue: '',
+  sort: 'date',
+  order: 'desc',
+  view: 'card',
+  calendar: 'month',
+  color: 'status',
+  on: '',
+  page: '1',
+  per_page: String(pageSizeOptions[1]),
+}
+
+export type OrderViewState = typeof defaultOrderView
+export type SavedViewState = Omit<OrderViewState, 'page' | 'per_page' | 'on'>
+
+export function toOrderFilters(state: Partial<OrderViewState>): OrderFilters {
+  return {
+    search: state.q?.trim() || undefined,
+    status: state.status || undefined,
+    date: state.date || undefined,
+    vendor: state.vendor || undefined,
+    property: state.property || undefined,
+    category: state.category || undefined,
+    overdue: state.overdue === '1' || undefined,
+  }
+}
+
+export function toSavedViewState(state: OrderViewState): SavedViewState {
+  const { page: _page, per_page: _perPage, on: _on, ...saved } = state
+  return saved
+}
+
+export function isSameView(a: Partial<SavedViewState>, b: Partial<SavedViewState>): boolean {
+  const keys = Object.keys(toSavedViewState(defaultOrderView)) as (keyof SavedViewState)[]
+  return keys.every(key => (a[key] ?? defaultOrderView[key]) === (b[key] ?? defaultOrderView[key]))
+}
+
+export function toOrdersLink(state: Partial<SavedViewState>): string {
+  const params = new URLSearchParams()
+  Object.entries(state).forEach(([key, value]) => {
+    if (value && value !== defaultOrderView[key as keyof OrderViewState]) params.set(key, value)
+  })
+  const search = params.toString()
+  return search ? `/orders?${search}` : '/orders'
+}
@@ -0,0 +1,221 @@
+import type { OrderStatus, Property, Upsell, Vendor } from '../types'
+import { orderStatuses } from './orderStatus'
+import { toCSV } from './csv'
+
+export type ImportFieldKey =
+  | 'guest_name'
+  | 'guest_email'
+  | 'guest_phone'
+  | 'property'
+  | 'upsell'
+  | 'vendor'
+  | 'amount'
+  | 'currency'
+  | 'status'
+  | 'service_date'
+  | 'service_time'
+  | 'created_at'
+  | 'external_reference'
+
+export interface ImportField {
+  key: ImportFieldKey
+  label: string
+  required?: boolean
+  aliases: string[]
+}
+
+export type ImportMapping = Partial<Record<ImportFieldKey, number>>
+
+export interface ImportOrderPayload {
+  line: number
+  property_id: number
+  upsell_id: number
+  vendor_id: number
+  guest_name: string
+  guest_email: string
+  guest_phone?: string
+  amount: number
+  currency: string
+  status: OrderStatus
+  service_date?: string
+  service_time?: string
+  created_at?: string
+  external_reference?: string
+}
+
+export interface ImportRow {
+  // Row number in the uploaded file, counting the header as row 1
+  line: number
+  values: string[]
+  errors: string[]
+  payload?: ImportOrderPayload
+}
+
+export interface ImportResult {
+  imported: number
+  rejected: { line: number; errors: string[] }[]
+}
+
+export const importFields: ImportField[] = [
+  { key: 'guest_name', label: 'Guest name', required: true, aliases: ['guest', 'name', 'customer', 'customer name'] },
+  { key: 'guest_email', label: 'Guest email', required: true, aliases: ['email', 'customer email'] },
+  { key: 'guest_phone', label: 'Guest phone', aliases: ['phone', 'telephone', 'mobile'] },
+  { key: 'property', label: 'Property', required: true, aliases: ['villa', 'property name', 'listing'] },
+  { key: 'upsell', label: 'Upsell', required: true, aliases: ['service', 'product', 'item', 'upsell title'] },
+  { key: 'vendor', label: 'Vendor', aliases: ['supplier', 'provider', 'vendor name'] },
+  { key: 'amount', label: 'Amount', required: true, aliases: ['price', 'total', 'paid'] },
+  { key: 'currency', label: 'Currency', required: true, aliases: ['ccy'] },
+  { key: 'status', label: 'Status', aliases: ['state', 'order status'] },
+  { key: 'service_date', label: 'Service date', aliases: ['date', 'service day', 'booking date'] },
+  { key: 'service_time', label: 'Service time', aliases: ['time'] },
+  { key: 'created_at', label: 'Ordered at', aliases: ['created', 'created at', 'order date', 'booked at'] },
+  { key: 'external_reference', label: 'External reference', aliases: ['reference', 'booking id', 'booking reference', 'ota reference'] },
+]
+
+const normalize = (value: string) => value.trim().toLowerCase().replace(/[_\-\s]+/g, ' ')
+
+// Pre-fills the mapping from header names so common exports need no manual work
+export function guessMapping(headers: string[]): ImportMapping {
+  const mapping: ImportMapping = {}
+  const used = new Set<number>()
+  importFields.forEach(field => {
+    const candidates = [field.key, field.label, ...field.aliases].map(normalize)
+    const index = headers.findIndex((header, i) => !used.has(i) && candidates.includes(normalize(header)))
+    if (index >= 0) {
+      mapping[field.key] = index
+      used.add(index)
+    }
+  })
+  return mapping
+}
+
+export function getMissingRequiredFields(mapping: ImportMapping): ImportField[] {
+  return importFields.filter(field => field.required && mapping[field.key] === undefined)
+}
+
+interface ImportContext {
+  properties: Property[]
+  upsells: Upsell[]
+  vendors: Vendor[]
+  defaultStatus: OrderStatus
+}
+
+const findByName = <T,>(items: T[], name: string, getName: (item: T) => string) =>
+  items.find(item => normalize(getName(item)) === normalize(name))
+
+export function validateImportRows(rows: string[][], mapping: ImportMapping, context: ImportContext): ImportRow[] {
+  return rows.map((values, index) => {
+    const line = index + 2
+    const errors: string[] = []
+    const get = (key: ImportFieldKey) => {
+      const column = mapping[key]
+      return column === undefined ? '' : (values[column] || '').trim()
+    }
+
+    importFields
+      .filter(field => field.required && !get(field.key))
+      .forEach(field => errors.push(`${field.label} is missing`))
+
+    const property = get('property') ? findByName(context.properties, get('property'), p => p.name) : undefined
+    if (get('property') && !property) {
+      errors.push(`Unknown property "${get('property')}"`)
+    }
+
+    const upsell = property && get('upsell')
+      ? findByName(context.upsells.filter(u => u.property_id === property.id), get('upsell'), u => u.title)
+      : undefined
+    if (property && get('upsell') && !upsell) {
+      errors.push(`No upsell "${get('upsell')}" at ${property.name}`)
+    }
+
+    // Without a vendor column the upsell's primary vendor is used
+    const vendor = get('vendor')
+      ? findByName(context.vendors, get('vendor'), v => v.name)
+      : context.vendors.find(v => v.id === upsell?.primary_vendor_id)
+    if (get('vendor') && !vendor) {
+      errors.push(`Unknown vendor "${get('vendor')}"`)
+    }
+
+    // Currency symbols and spaces are dropped, but a comma is ambiguous ("1.234,50" vs "1,234.50")
+    // so it's rejected rather than guessed at
+    const strippedAmount = get('amount').replace(/[^\d.-]/g, '')
+    const amount = Number(strippedAmount)
+    if (get('amount').includes(',')) {
+      errors.push(`Invalid amount "${get('amount')}", use a dot for decimals and no thousands separators`)
+    } else if (get('amount') && (!/\d/.test(strippedAmount) || !Number.isFinite(amount) || amount < 0)) {
+      errors.push(`Invalid amount "${get('amount')}"`)
+    }
+
+    const currency = get('currency').toUpperCase()
+    if (currency && !/^[A-Z]{3}$/.test(currency)) {
+      errors.push(`Invalid currency "${get('currency')}"`)
+    } else if (currency && property && currency !== property.currency) {
+      errors.push(`Currency ${currency} does not match ${property.name} (${property.currency})`)
+    }
+
+    const status = (get('status').toLowerCase() || context.defaultStatus) as OrderStatus
+    if (!orderStatuses.includes(status)) {
+      errors.push(`Invalid status "${get('status')}", expected one of ${orderStatuses.join(', ')}`)
+    }
+
+    const serviceDate = get('service_date')
+    if (serviceDate && !/^\d{4}-\d{2}-\d{2}$/.test(serviceDate)) {
+      errors.push(`Service date "${serviceDate}" must be YYYY-MM-DD`)
+    }
+
+    const serviceTime = get('service_time')
+    if (serviceTime && !/^\d{2}:\d{2}$/.test(serviceTime)) {
+      errors.push(`Service time "${serviceTime}" must be HH:mm`)
+    }
+
+    const createdAt = get('created_at')
+    if (createdAt && Number.isNaN(new Date(createdAt).getTime())) {
+      errors.push(`Invalid order date "${createdAt}"`)
+    }
+
+    if (errors.length > 0 || !property || !upsell || !vendor) {
+      return { line, values, errors }
+    }
+
+    return {
+      line,
+      values,
+      errors,
+      payload: {
+        line,
+        property_id: property.id,
+        upsell_id: upsell.id,
+        vendor_id: vendor.id,
+        guest_name: get('guest_name'),
+        guest_email: get('guest_email'),
+        guest_phone: get('guest_phone') || undefined,
+        amount,
+        currency,
+        status,
+        service_date: serviceDate || undefined,
+        service_time: serviceTime || undefined,
+        created_at: createdAt ? new Date(createdAt).toISOString() : undefined,
+        external_reference: get('external_reference') || undefined,
+      },
+    }
+  })
+}
+
+// Rows the server turned down during the dry run or import are merged into the client-side errors
+export function applyServerRejections(rows: ImportRow[], rejected: ImportResult['rejected']): ImportRow[] {
+  return rows.map(row => {
+    const rejection = rejected.find(r => r.line === row.line)
+    return rejection
+      ? { ...row, errors: [...row.errors, ...rejection.errors], payload: undefined }
+      : row
+  })
+}
+
+export function buildRejectedReport(headers: string[], rows: ImportRow[]): string {
+  return toCSV([
+    ['line', ...headers, 'errors'],
+    ...rows
+      .filter(row => row.errors.length > 0)
+      .map(row => [String(row.line), ...headers.map((_, i) => row.values[i] || ''), row.errors.join('; ')]),
+  ])
+}
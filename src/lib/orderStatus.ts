@@ -0,0 +1,75 @@
+import type { Order, OrderStatus } from '../types'
+
+export interface StatusTransition {
+  to: OrderStatus
+  label: string
+  bulkLabel: string
+  requiresReason?: boolean
+}
+
+export interface StatusUpdatePayload {
+  status: OrderStatus
+  reason?: string
+  fulfilled_at?: string
+}
+
+export const orderStatuses: OrderStatus[] = ['pending', 'confirmed', 'fulfilled', 'cancelled']
+
+const confirm: StatusTransition = { to: 'confirmed', label: 'Confirm Order', bulkLabel: 'Confirm' }
+const fulfill: StatusTransition = { to: 'fulfilled', label: 'Mark Fulfilled', bulkLabel: 'Fulfill' }
+const cancel: StatusTransition = { to: 'cancelled', label: 'Cancel Order', bulkLabel: 'Cancel', requiresReason: true }
+
+// Fulfilled and cancelled are terminal states
+export const orderStatusTransitions: Record<OrderStatus, StatusTransition[]> = {
+  pending: [confirm, cancel],
+  confirmed: [fulfill, cancel],
+  fulfilled: [],
+  cancelled: [],
+}
+
+export const bulkStatusTransitions: StatusTransition[] = [confirm, fulfill, cancel]
+
+export const cancellationReasons = [
+  'Guest cancelled',
+  'Vendor unavailable',
+  'Payment failed',
+  'Duplicate order',
+  'Other',
+]
+
+export function getAvailableTransitions(status: OrderStatus): StatusTransition[] {
+  return orderStatusTransitions[status] || []
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return getAvailableTransitions(from).some(transition => transition.to === to)
+}
+
+export function getTransition(to: OrderStatus): StatusTransition | undefined {
+  return bulkStatusTransitions.find(transition => transition.to === to)
+}
+
+export function buildStatusUpdate(to: OrderStatus, reason?: string): StatusUpdatePayload {
+  const transition = getTransition(to)
+  if (transition?.requiresReason && !reason?.trim()) {
+    throw new Error(`A reason is required to move an order to ${to}`)
+  }
+
+  const payload: StatusUpdatePayload = { status: to }
+  if (reason?.trim()) payload.reason = reason.trim()
+  if (to === 'fulfilled') payload.fulfilled_at = new Date().toISOString()
+  return payload
+}
+
+export function partitionByTransition(orders: Order[], to: OrderStatus) {
+  const valid: Order[] = []
+  const skipped: Order[] = []
+  orders.forEach(order => {
+    if (canTransition(order.status, to)) {
+      valid.push(order)
+    } else {
+      skipped.push(order)
+    }
+  })
+  return { valid, skipped }
+}
@@ -0,0 +1,110 @@
+import { differenceInCalendarDays, format, startOfDay } from 'date-fns'
+import type { PriceAdjustmentType, PricingRule, PricingRuleKind, Weekday } from '../types'
+import { formatCurrency, generateUniqueToken } from './utils'
+
+export interface EffectivePrice {
+  price: number
+  applied: PricingRule[]
+}
+
+export const pricingRuleKinds: { value: PricingRuleKind; label: string }[] = [
+  { value: 'date_range', label: 'Dates' },
+  { value: 'weekdays', label: 'Weekdays' },
+  { value: 'last_minute', label: 'Last minute' },
+  { value: 'early_booking', label: 'Early booking' },
+]
+
+export const priceAdjustmentTypes: { value: PriceAdjustmentType; label: string }[] = [
+  { value: 'price', label: 'Set price to' },
+  { value: 'percent', label: 'Adjust by %' },
+  { value: 'amount', label: 'Adjust by amount' },
+]
+
+export function newPricingRule(kind: PricingRuleKind): PricingRule {
+  const base = { id: generateUniqueToken(), adjustment_type: 'percent' as const, value: 0 }
+  switch (kind) {
+    case 'date_range':
+      return { ...base, kind, name: 'High season', from: '', to: '' }
+    case 'weekdays':
+      return { ...base, kind, name: 'Weekends', days_of_week: [5, 6] }
+    case 'last_minute':
+      return { ...base, kind, name: 'Last minute', days: 2, value: -10 }
+    case 'early_booking':
+      return { ...base, kind, name: 'Early booking', days: 60, value: -5 }
+  }
+}
+
+export function ruleApplies(rule: PricingRule, date: Date, bookedOn: Date): boolean {
+  const daysAhead = differenceInCalendarDays(date, bookedOn)
+
+  switch (rule.kind) {
+    case 'date_range': {
+      const day = format(date, 'yyyy-MM-dd')
+      return Boolean(rule.from && rule.to) && rule.from! <= day && day <= rule.to!
+    }
+    case 'weekdays':
+      return (rule.days_of_week || []).includes(date.getDay() as Weekday)
+    case 'last_minute':
+      return rule.days !== undefined && daysAhead >= 0 && daysAhead <= rule.days
+    case 'early_booking':
+      return rule.days !== undefined && daysAhead >= rule.days
+  }
+}
+
+const roundPrice = (price: number) => Math.round(price * 100) / 100
+
+// The first matching "set price" rule picks the starting price, then every matching adjustment
+// is applied on top in list order, so owners control precedence by ordering the rules
+export function getEffectivePrice(
+  basePrice: number,
+  rules: PricingRule[],
+  date: Date,
+  bookedOn: Date = new Date()
+): EffectivePrice {
+  const matching = rules.filter(rule => Number.isFinite(rule.value) && ruleApplies(rule, startOfDay(date), startOfDay(bookedOn)))
+  const override = matching.find(rule => rule.adjustment_type === 'price')
+  const adjustments = matching.filter(rule => rule.adjustment_type !== 'price')
+
+  const price = adjustments.reduce(
+    (current, rule) => (rule.adjustment_type === 'percent' ? current * (1 + rule.value / 100) : current + rule.value),
+    override ? override.value : basePrice
+  )
+
+  return {
+    price: Math.max(0, roundPrice(price)),
+    applied: override ? [override, ...adjustments] : adjustments,
+  }
+}
+
+export function describeAdjustment(rule: PricingRule, currency?: string): string {
+  if (rule.adjustment_type === 'price') return formatCurrency(rule.value, currency)
+  const sign = rule.value >= 0 ? '+' : '−'
+  return rule.adjustment_type === 'percent'
+    ? `${sign}${Math.abs(rule.value)}%`
+    : `${sign}${formatCurrency(Math.abs(rule.value), currency)}`
+}
+
+export function validatePricingRules(rules: PricingRule[]): string[] {
+  const errors: string[] = []
+
+  rules.forEach((rule, index) => {
+    const label = rule.name.trim() || `Rule ${index + 1}`
+    if (!rule.name.trim()) errors.push(`Rule ${index + 1} needs a name`)
+    if (!Number.isFinite(rule.value)) errors.push(`${label} needs a value`)
+    if (rule.adjustment_type === 'price' && rule.value < 0) errors.push(`${label} cannot set a negative price`)
+    if (rule.adjustment_type === 'percent' && rule.value <= -100) errors.push(`${label} cannot take off 100% or more`)
+
+    if (rule.kind === 'date_range') {
+      if (!rule.from || !rule.to) errors.push(`${label} needs a start and end date`)
+      else if (rule.to < rule.from) errors.push(`${label} ends before it starts`)
+    }
+    if (rule.kind === 'weekdays' && !rule.days_of_week?.length) {
+      errors.push(`${label} needs at least one day`)
+    }
+    if ((rule.kind === 'last_minute' || rule.kind === 'early_booking') && (rule.days === undefined || rule.days < 0)) {
+      errors.push(`${label} needs a number of days`)
+    }
+  })
+
+  return errors
+}
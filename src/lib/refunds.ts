@@ -0,0 +1,34 @@
+import type { Order } from '../types'
+
+export const refundReasons = [
+  { value: 'requested_by_customer', label: 'Requested by guest' },
+  { value: 'service_not_delivered', label: 'Service not delivered' },
+  { value: 'vendor_unavailable', label: 'Vendor unavailable' },
+  { value: 'duplicate', label: 'Duplicate payment' },
+  { value: 'other', label: 'Other' },
+]
+
+export function getRefundedAmount(order: Order): number {
+  if (order.refunds) {
+    return order.refunds
+      .filter(refund => refund.status !== 'failed')
+      .reduce((sum, refund) => sum + parseFloat(refund.amount.toString()), 0)
+  }
+  return parseFloat((order.refunded_amount || 0).toString())
+}
+
+export function getRefundableAmount(order: Order): number {
+  const remaining = parseFloat(order.amount.toString()) - getRefundedAmount(order)
+  return Math.max(0, Math.round(remaining * 100) / 100)
+}
+
+// Only orders paid through Stripe can be refunded from the admin
+export function canRefund(order: Order): boolean {
+  return Boolean(order.stripe_payment_intent_id || order.stripe_charge_id) && getRefundableAmount(order) > 0
+}
+
+export function getRefundState(order: Order): 'none' | 'partial' | 'full' {
+  const refunded = getRefundedAmount(order)
+  if (refunded <= 0) return 'none'
+  return refunded >= parseFloat(order.amount.toString()) ? 'full' : 'partial'
+}
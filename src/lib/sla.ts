@@ -0,0 +1,67 @@
+import { addHours, formatDistanceStrict } from 'date-fns'
+import type { Order, OrderSla } from '../types'
+import { getServiceDateTime } from './orderCalendar'
+
+export interface SlaState {
+  sla: OrderSla
+  dueAt: Date
+  isBreached: boolean
+  // Within the last quarter of the allowed time, or the last hour for service-date SLAs
+  isDueSoon: boolean
+}
+
+export const defaultOrderSlas: OrderSla[] = [
+  { status: 'pending', measured_from: 'status_change', hours: 2, is_enabled: true },
+  { status: 'confirmed', measured_from: 'service_date', hours: 0, is_enabled: true },
+]
+
+export const slaTargets: Record<OrderSla['status'], string> = {
+  pending: 'confirmed',
+  confirmed: 'fulfilled',
+}
+
+export function describeSla(sla: OrderSla): string {
+  const target = `${sla.status.charAt(0).toUpperCase()}${sla.status.slice(1)} must be ${slaTargets[sla.status]}`
+  if (sla.measured_from === 'service_date') {
+    return sla.hours > 0
+      ? `${target} within ${sla.hours}h of the service date`
+      : `${target} by the service date`
+  }
+  return `${target} within ${sla.hours}h`
+}
+
+// All-day services count as due at the end of the service date
+function getServiceDeadlineBase(order: Order): Date | null {
+  const start = getServiceDateTime(order)
+  if (!start) return null
+  if (!order.service_time) start.setHours(23, 59, 59, 999)
+  return start
+}
+
+export function getSlaState(order: Order, slas: OrderSla[], now: Date = new Date()): SlaState | null {
+  const sla = slas.find(rule => rule.is_enabled && rule.status === order.status)
+  if (!sla) return null
+
+  const base = sla.measured_from === 'service_date'
+    ? getServiceDeadlineBase(order)
+    : new Date(order.status_changed_at || order.updated_at)
+  if (!base) return null
+
+  const dueAt = addHours(base, sla.hours)
+  const remaining = dueAt.getTime() - now.getTime()
+  const warningWindow = sla.measured_from === 'service_date'
+    ? 60 * 60 * 1000
+    : (sla.hours * 60 * 60 * 1000) / 4
+
+  return {
+    sla,
+    dueAt,
+    isBreached: remaining < 0,
+    isDueSoon: remaining >= 0 && remaining <= warningWindow,
+  }
+}
+
+export function formatSlaDistance(state: SlaState, now: Date = new Date()): string {
+  const distance = formatDistanceStrict(state.dueAt, now, { roundingMethod: 'floor' })
+  return state.isBreached ? `Overdue by ${distance}` : `Due in ${distance}`
+}
@@ -0,0 +1,78 @@
+import type { Translations, Upsell } from '../types'
+
+export type TranslationStatus = 'complete' | 'partial' | 'missing'
+
+export const languages = [
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'fr', name: 'French' },
+  { code: 'de', name: 'German' },
+  { code: 'it', name: 'Italian' },
+  { code: 'pt', name: 'Portuguese' },
+  { code: 'nl', name: 'Dutch' },
+]
+
+export const defaultLanguage = 'en'
+
+export const translationStatusStyles: Record<TranslationStatus, string> = {
+  complete: 'bg-green-500',
+  partial: 'bg-yellow-400',
+  missing: 'bg-gray-300',
+}
+
+export function getLanguageName(code: string): string {
+  return languages.find(language => language.code === code)?.name || code.toUpperCase()
+}
+
+const hasText = (value?: string) => Boolean(value && value.trim())
+
+// Only fields with base text need translating, an upsell without a description is complete with just a title
+export function getTranslationStatus<K extends string>(
+  base: Partial<Record<K, string>>,
+  translation?: Partial<Record<K, string>>
+): TranslationStatus {
+  const fields = (Object.keys(base) as K[]).filter(field => hasText(base[field]))
+  const translated = fields.filter(field => hasText(translation?.[field]))
+  if (translated.length === 0) return 'missing'
+  return translated.length === fields.length ? 'complete' : 'partial'
+}
+
+// Missing fields fall back to the base text in the property language, the same way guests see them
+export function resolveTranslation<K extends string>(
+  base: Partial<Record<K, string>>,
+  translations: Translations<Record<K, string>> | undefined,
+  language: string
+): Partial<Record<K, string>> {
+  const translation: Partial<Record<K, string>> = translations?.[language] || {}
+  const resolved = { ...base }
+  ;(Object.keys(translation) as K[]).forEach((field) => {
+    if (hasText(translation[field])) resolved[field] = translation[field]
+  })
+  return resolved
+}
+
+// Drops blank fields and languages so clearing a translation really removes it. The base language is
+// dropped too, a property switched to a language it had a translation for now shows its base text there
+export function cleanTranslations<T>(translations: Translations<T>, baseLanguage: string): Translations<T> {
+  const cleaned: Translations<T> = {}
+  Object.entries(translations).forEach(([language, fields]) => {
+    if (language === baseLanguage) return
+    const kept = Object.fromEntries(
+      Object.entries(fields as Record<string, string | undefined>).filter(([, value]) => hasText(value))
+    ) as Partial<T>
+    if (Object.keys(kept).length > 0) cleaned[language] = kept
+  })
+  return cleaned
+}
+
+export const getUpsellTranslationBase = (upsell: Pick<Upsell, 'title' | 'description'>) => ({
+  title: upsell.title,
+  description: upsell.description || '',
+})
+
+// A property offers every language any of its upsells or its description has been translated into
+export function getOfferedLanguages(items: { translations?: Translations<unknown> }[], baseLanguage: string): string[] {
+  const used = new Set(items.flatMap(item => Object.keys(item.translations || {})))
+  used.delete(baseLanguage)
+  return languages.map(language => language.code).filter(code => used.has(code))
+}
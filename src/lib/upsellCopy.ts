@@ -0,0 +1,162 @@
+import type { ExchangeRate, Property, Upsell } from '../types'
+import { convertBetween } from './currency'
+
+export type CopyPriceMode = 'keep' | 'percent' | 'convert'
+
+export interface UpsellCopyOptions {
+  propertyIds: number[]
+  priceMode: CopyPriceMode
+  percent: number
+  vendorMode: 'keep' | 'swap'
+  // Target property id -> source vendor id -> replacement vendor id; unmapped vendors are kept
+  vendorMap: Record<number, Record<number, number>>
+  skipExisting: boolean
+}
+
+export type UpsellCopyPayload = Omit<
+  Upsell,
+  'id' | 'created_at' | 'updated_at' | 'property' | 'primary_vendor' | 'secondary_vendor' | 'orders'
+>
+
+export interface UpsellCopyPreview {
+  source: Upsell
+  property: Property
+  payload: UpsellCopyPayload
+  // Undefined when the source property can't be found
+  sourceCurrency?: string
+  // The target property already has an upsell with the same title
+  isDuplicate: boolean
+  // Set when the copy can't be made as configured, e.g. a missing exchange rate
+  error?: string
+}
+
+export const defaultCopyOptions: UpsellCopyOptions = {
+  propertyIds: [],
+  priceMode: 'keep',
+  percent: 0,
+  vendorMode: 'keep',
+  vendorMap: {},
+  skipExisting: true,
+}
+
+const roundPrice = (price: number) => Math.round(price * 100) / 100
+
+// Every vendor the copied upsells are routed to, primary or secondary
+export function getSourceVendorIds(upsells: Upsell[]): number[] {
+  const ids = new Set<number>()
+  upsells.forEach((upsell) => {
+    ids.add(upsell.primary_vendor_id)
+    if (upsell.secondary_vendor_id) ids.add(upsell.secondary_vendor_id)
+  })
+  return Array.from(ids)
+}
+
+export function buildUpsellCopies(
+  upsells: Upsell[],
+  properties: Property[],
+  existingUpsells: Upsell[],
+  options: UpsellCopyOptions,
+  reportingCurrency: string,
+  rates: ExchangeRate[]
+): UpsellCopyPreview[] {
+  const targets = properties.filter(property => options.propertyIds.includes(property.id))
+
+  return targets.flatMap((property) => {
+    const existing = existingUpsells.filter(upsell => upsell.property_id === property.id)
+    const existingTitles = new Set(existing.map(upsell => upsell.title.trim().toLowerCase()))
+    // Copies go to the end of the target menu, in the order they were selected
+    let nextSortOrder = existing.reduce((max, upsell) => Math.max(max, upsell.sort_order + 1), 0)
+    const vendorMap = options.vendorMode === 'swap' ? options.vendorMap[property.id] || {} : {}
+
+    return upsells
+      // Copying an upsell onto its own property would only duplicate it
+      .filter(upsell => upsell.property_id !== property.id)
+      .map((upsell): UpsellCopyPreview => {
+        const sourceCurrency = upsell.property?.currency
+          || properties.find(sourceProperty => sourceProperty.id === upsell.property_id)?.currency
+        let error: string | undefined
+
+        const adjust = (amount: number): number => {
+          if (options.priceMode === 'percent') return roundPrice(amount * (1 + options.percent / 100))
+          if (options.priceMode === 'convert') {
+            if (!sourceCurrency) {
+              error = 'The source property could not be found to convert from'
+              return amount
+            }
+            const converted = convertBetween(amount, sourceCurrency, property.currency, reportingCurrency, rates)
+            if (converted === null) {
+              const missing = [sourceCurrency, property.currency]
+                .find(currency => currency !== reportingCurrency && !rates.some(rate => rate.currency === currency))
+              error = `No exchange rate for ${missing}`
+              return amount
+            }
+            return roundPrice(converted)
+          }
+          return amount
+        }
+
+        const payload: UpsellCopyPayload = {
+          property_id: property.id,
+          primary_vendor_id: vendorMap[upsell.primary_vendor_id] || upsell.primary_vendor_id,
+          secondary_vendor_id: upsell.secondary_vendor_id
+            ? vendorMap[upsell.secondary_vendor_id] || upsell.secondary_vendor_id
+            : undefined,
+          title: upsell.title,
+          description: upsell.description,
+          translations: upsell.translations,
+          price: adjust(upsell.price),
+          price_unit: upsell.price_unit,
+          variants: upsell.variants?.map(variant => ({ ...variant, price: adjust(variant.price) })),
+          addons: upsell.addons?.map(addon => ({ ...addon, price: adjust(addon.price) })),
+          min_quantity: upsell.min_quantity,
+          max_quantity: upsell.max_quantity,
+          // Percentages carry over as they are, amounts and set prices follow the new price
+          pricing_rules: upsell.pricing_rules?.map(rule => (
+            rule.adjustment_type === 'percent' ? rule : { ...rule, value: adjust(rule.value) }
+          )),
+          category: upsell.category,
+          // The stored image is shared rather than uploaded again
+          image_url: upsell.image_url,
+          availability_rules: upsell.availability_rules,
+          is_active: upsell.is_active,
+          sort_order: 0,
+        }
+
+        const isDuplicate = existingTitles.has(upsell.title.trim().toLowerCase())
+        if (!(isDuplicate && options.skipExisting)) {
+          payload.sort_order = nextSortOrder++
+        }
+
+        return { source: upsell, property, payload, sourceCurrency, isDuplicate, error }
+      })
+  })
+}
+
+// What will actually be sent: skipped duplicates and copies with errors are left out
+export function getCopiesToCreate(copies: UpsellCopyPreview[], options: UpsellCopyOptions): UpsellCopyPreview[] {
+  return copies.filter(copy => !copy.error && !(copy.isDuplicate && options.skipExisting))
+}
+
+// Amount rules may be negative (a discount), every actual price has to stay at zero or above
+function hasNegativePrice(payload: UpsellCopyPayload): boolean {
+  return [
+    payload.price,
+    ...(payload.variants || []).map(variant => variant.price),
+    ...(payload.addons || []).map(addon => addon.price),
+    ...(payload.pricing_rules || []).filter(rule => rule.adjustment_type === 'price').map(rule => rule.value),
+  ].some(price => price < 0)
+}
+
+export function validateUpsellCopies(copies: UpsellCopyPreview[], options: UpsellCopyOptions): string[] {
+  const errors: string[] = []
+  if (options.priceMode === 'percent') {
+    if (!Number.isFinite(options.percent)) errors.push('Enter the percentage to adjust prices by')
+    else if (options.percent <= -100) errors.push('The price adjustment cannot take off 100% or more')
+  }
+
+  const negative = copies.filter(copy => hasNegativePrice(copy.payload)).length
+  if (negative > 0) {
+    errors.push(`${negative} cop${negative === 1 ? 'y' : 'ies'} would end up with a price below zero`)
+  }
+  return errors
+}
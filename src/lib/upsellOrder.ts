@@ -0,0 +1,43 @@
+import type { Property, Upsell, UpsellBundle } from '../types'
+
+export interface PropertyUpsellGroup {
+  propertyId: number
+  property?: Property
+  upsells: Upsell[]
+}
+
+// The order guests see on the property menu; ties fall back to the oldest upsell first
+export function sortUpsellsForDisplay(upsells: Upsell[]): Upsell[] {
+  return [...upsells].sort((a, b) => a.sort_order - b.sort_order || a.id - b.id)
+}
+
+// Properties with only packages still get a (possibly empty) group so the packages have somewhere to show
+export function groupUpsellsByProperty(upsells: Upsell[], bundles: UpsellBundle[] = []): PropertyUpsellGroup[] {
+  const groups = new Map<number, PropertyUpsellGroup>()
+  upsells.forEach((upsell) => {
+    const group = groups.get(upsell.property_id) || { propertyId: upsell.property_id, property: upsell.property, upsells: [] }
+    group.upsells.push(upsell)
+    groups.set(upsell.property_id, group)
+  })
+  bundles.forEach((bundle) => {
+    if (!groups.has(bundle.property_id)) {
+      groups.set(bundle.property_id, { propertyId: bundle.property_id, property: bundle.property, upsells: [] })
+    }
+  })
+
+  return Array.from(groups.values())
+    .map(group => ({ ...group, upsells: sortUpsellsForDisplay(group.upsells) }))
+    .sort((a, b) => (a.property?.name || '').localeCompare(b.property?.name || '') || a.propertyId - b.propertyId)
+}
+
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  const next = [...items]
+  const [item] = next.splice(from, 1)
+  next.splice(to, 0, item)
+  return next
+}
+
+// Renumbers a whole property menu so the saved order is gap- and tie-free
+export function toSortOrders(upsellIds: number[]): { id: number; sort_order: number }[] {
+  return upsellIds.map((id, index) => ({ id, sort_order: index }))
+}
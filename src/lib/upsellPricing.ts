@@ -0,0 +1,106 @@
+import type { OrderConfiguration, PriceUnit, Upsell, UpsellAddon, UpsellVariant } from '../types'
+import { formatCurrency, generateUniqueToken } from './utils'
+
+export interface UpsellPricing {
+  price_unit: PriceUnit
+  variants: UpsellVariant[]
+  addons: UpsellAddon[]
+  min_quantity: number
+  max_quantity: number | null
+}
+
+export const priceUnits: { value: PriceUnit; label: string; noun: string; plural: string }[] = [
+  { value: 'booking', label: 'Per booking', noun: 'booking', plural: 'bookings' },
+  { value: 'person', label: 'Per person', noun: 'person', plural: 'people' },
+  { value: 'hour', label: 'Per hour', noun: 'hour', plural: 'hours' },
+  { value: 'night', label: 'Per night', noun: 'night', plural: 'nights' },
+]
+
+const getPriceUnit = (unit: PriceUnit) => priceUnits.find(u => u.value === unit) || priceUnits[0]
+
+export const defaultUpsellPricing: UpsellPricing = {
+  price_unit: 'booking',
+  variants: [],
+  addons: [],
+  min_quantity: 1,
+  max_quantity: null,
+}
+
+export function normalizeUpsellPricing(upsell?: Partial<Upsell>): UpsellPricing {
+  return {
+    price_unit: upsell?.price_unit || defaultUpsellPricing.price_unit,
+    variants: upsell?.variants || [],
+    addons: upsell?.addons || [],
+    min_quantity: upsell?.min_quantity || defaultUpsellPricing.min_quantity,
+    max_quantity: upsell?.max_quantity ?? null,
+  }
+}
+
+// Ids only need to be unique within the upsell, orders keep them to point back at the option
+export const newPricingOptionId = () => generateUniqueToken()
+
+export function formatUnitPrice(amount: number, currency: string | undefined, unit: PriceUnit = 'booking'): string {
+  return unit === 'booking' ? formatCurrency(amount, currency) : `${formatCurrency(amount, currency)} / ${getPriceUnit(unit).noun}`
+}
+
+export function formatQuantity(quantity: number, unit: PriceUnit): string {
+  const { noun, plural } = getPriceUnit(unit)
+  return `${quantity} ${quantity === 1 ? noun : plural}`
+}
+
+// The cheapest price a guest can see, used for "from" prices on cards
+export function getStartingPrice(upsell: Upsell): number {
+  const variants = upsell.variants || []
+  return variants.length > 0 ? Math.min(...variants.map(variant => variant.price)) : upsell.price
+}
+
+// e.g. "From $80.00" for a transfer with variants, or "$45.00 / person"
+export function formatUpsellPrice(upsell: Upsell): string {
+  const price = formatUnitPrice(getStartingPrice(upsell), upsell.property?.currency, upsell.price_unit)
+  return upsell.variants?.length ? `From ${price}` : price
+}
+
+// Per-booking add-ons are charged once, the rest scale with the ordered quantity
+export function getAddonTotal(addon: UpsellAddon, quantity: number): number {
+  return addon.price_unit === 'booking' ? addon.price : addon.price * quantity
+}
+
+export function getConfigurationTotal(configuration: OrderConfiguration): number {
+  return configuration.unit_price * configuration.quantity +
+    configuration.addons.reduce((sum, addon) => sum + getAddonTotal(addon, configuration.quantity), 0)
+}
+
+// e.g. "7-seater · 2 bookings · + Child seat"
+export function describeConfiguration(configuration: OrderConfiguration): string {
+  const parts: string[] = []
+  if (configuration.variant) parts.push(configuration.variant.name)
+  if (configuration.price_unit !== 'booking' || configuration.quantity !== 1) {
+    parts.push(formatQuantity(configuration.quantity, configuration.price_unit))
+  }
+  configuration.addons.forEach(addon => parts.push(`+ ${addon.name}`))
+  return parts.join(' · ')
+}
+
+export function validateUpsellPricing(pricing: UpsellPricing): string[] {
+  const errors: string[] = []
+
+  pricing.variants.forEach((variant, index) => {
+    if (!variant.name.trim()) errors.push(`Variant ${index + 1} needs a name`)
+    if (!Number.isFinite(variant.price) || variant.price < 0) errors.push(`Variant ${index + 1} needs a price of 0 or more`)
+  })
+  if (new Set(pricing.variants.map(variant => variant.name.trim().toLowerCase())).size !== pricing.variants.length) {
+    errors.push('Two variants have the same name')
+  }
+  pricing.addons.forEach((addon, index) => {
+    if (!addon.name.trim()) errors.push(`Add-on ${index + 1} needs a name`)
+    if (!Number.isFinite(addon.price) || addon.price < 0) errors.push(`Add-on ${index + 1} needs a price of 0 or more`)
+  })
+  if (!Number.isInteger(pricing.min_quantity) || pricing.min_quantity < 1) {
+    errors.push('Minimum quantity must be a whole number of at least 1')
+  }
+  if (pricing.max_quantity !== null && pricing.max_quantity < pricing.min_quantity) {
+    errors.push('Maximum quantity cannot be below the minimum')
+  }
+
+  return errors
+}
@@ -1,5 +1,7 @@
 import { type ClassValue, clsx } from 'clsx'
 import { twMerge } from 'tailwind-merge'
+import { toOrderQueryParams, type OrderFilters } from './orderFilters'
+import { exportFormats, type ExportFormat } from './orderExport'
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -34,8 +36,33 @@ export function generateUniqueToken(): string {
   return Math.random().toString(36).substring(2) + Date.now().toString(36)
 }
 
+export function playNotificationSound(): void {
+  try {
+    const context = new AudioContext()
+    const oscillator = context.createOscillator()
+    const gain = context.createGain()
+
+    oscillator.type = 'sine'
+    oscillator.frequency.setValueAtTime(880, context.currentTime)
+    gain.gain.setValueAtTime(0.15, context.currentTime)
+    gain.gain.exponentialRampToValueAtTime(0.001, context.currentTime + 0.4)
+
+    oscillator.connect(gain)
+    gain.connect(context.destination)
+    oscillator.start()
+    oscillator.stop(context.currentTime + 0.4)
+    oscillator.onended = () => context.close()
+  } catch (error) {
+    // Browsers block audio until the user has interacted with the page
+    console.warn('Notification sound unavailable:', error)
+  }
+}
+
 export function downloadCSV(data: string, filename: string): void {
-  const blob = new Blob([data], { type: 'text/csv;charset=utf-8;' })
+  downloadFile(new Blob([data], { type: 'text/csv;charset=utf-8;' }), filename)
+}
+
+export function downloadFile(blob: Blob, filename: string): void {
   const link = document.createElement('a')
   
   if (link.download !== undefined) {
@@ -76,45 +103,47 @@ export async function exportAccountingData(period: number = 30): Promise<void> {
   }
 }
 
-export async function exportOrdersData(filters: { status?: string; date?: string; vendor?: string } = {}): Promise<void> {
+export interface OrderExportOptions {
+  filters: OrderFilters
+  // Exports just these orders instead of everything matching the filters
+  ids?: number[]
+  columns: string[]
+  format: ExportFormat
+}
+
+export async function exportOrdersData({ filters, ids, columns, format }: OrderExportOptions): Promise<void> {
   try {
     const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:8000/api'
     const token = localStorage.getItem('token')
-    
-    console.log('Exporting orders with:', { API_BASE_URL, filters, token: token ? 'present' : 'missing' })
-    
-    const params = new URLSearchParams()
-    if (filters.status) params.append('status', filters.status)
-    if (filters.date) params.append('date', filters.date)
-    if (filters.vendor) params.append('vendor', filters.vendor)
-    
-    const url = `${API_BASE_URL}/orders/export?${params.toString()}`
-    console.log('Export URL:', url)
-    
-    const response = await fetch(url, {
+    const exportFormat = exportFormats.find(option => option.value === format) || exportFormats[0]
+
+    // Sort order applies to selections too, so the file matches what is on screen
+    const params = ids?.length
+      ? toOrderQueryParams({ sortBy: filters.sortBy, sortOrder: filters.sortOrder })
+      : toOrderQueryParams(filters)
+    ids?.forEach(id => params.append('ids[]', String(id)))
+    columns.forEach(column => params.append('columns[]', column))
+    params.append('format', format)
+
+    const response = await fetch(`${API_BASE_URL}/orders/export?${params.toString()}`, {
       method: 'GET',
       headers: {
         'Authorization': `Bearer ${token}`,
-        'Accept': 'text/csv',
+        'Accept': exportFormat.mimeType,
       },
     })
 
-    console.log('Export response:', { status: response.status, statusText: response.statusText })
-
     if (!response.ok) {
       const errorText = await response.text()
-      console.error('Export error response:', errorText)
       throw new Error(`Failed to export orders: ${response.status} ${response.statusText} - ${errorText}`)
     }
 
-    const csvData = await response.text()
-    console.log('CSV data received:', csvData.substring(0, 200) + '...')
-    
-    const filename = `orders_export_${new Date().toISOString().split('T')[0]}.csv`
-    
-    downloadCSV(csvData, filename)
+    const data = await response.blob()
+    const filename = `orders_export_${new Date().toISOString().split('T')[0]}.${format}`
+
+    downloadFile(data, filename)
   } catch (error) {
     console.error('Orders export failed:', error)
     throw error
   }
-}
\ No newline at end of file
+}
@@ -10,11 +10,15 @@ import {
 } from 'lucide-react'
 import { api } from '../lib/api'
 import { formatCurrency, exportAccountingData } from '../lib/utils'
+import { addAmounts, convertAmount } from '../lib/currency'
+import { useExchangeRates } from '../hooks/useExchangeRates'
+import { CurrencyTotal } from '../components/CurrencyTotal'
+import type { CurrencyAmounts } from '../types'
 import toast from 'react-hot-toast'
 
 interface RevenueData {
   date: string
-  total: number
+  by_currency: CurrencyAmounts
 }
 
 interface UpsellAnalytics {
@@ -22,11 +26,23 @@ interface UpsellAnalytics {
   title: string
   total_orders: number
   total_revenue: number
+  currency: string
+}
+
+// A package sale counts once here, however many sub-orders it was split into
+interface BundleAnalytics {
+  id: number
+  title: string
+  total_orders: number
+  total_revenue: number
+  total_savings: number
+  currency: string
 }
 
 export const Analytics: React.FC = () => {
   const [period, setPeriod] = useState('30')
   const [isExporting, setIsExporting] = useState(false)
+  const { reportingCurrency, rates, convert } = useExchangeRates()
 
   const { data: revenueData, isLoading: revenueLoading } = useQuery<RevenueData[]>(
     ['revenue-analytics', period],
@@ -38,17 +54,28 @@ export const Analytics: React.FC = () => {
     () => api.get('/dashboard/upsell-analytics').then(res => res.data)
   )
 
+  const { data: bundleAnalytics } = useQuery<BundleAnalytics[]>(
+    'bundle-analytics',
+    () => api.get('/dashboard/bundle-analytics').then(res => res.data)
+  )
+
   const { data: stats } = useQuery(
     'dashboard-stats',
     () => api.get('/dashboard/stats').then(res => res.data)
   )
 
-  const totalRevenue = revenueData?.reduce((sum, item) => sum + (item.total || 0), 0) || 0
+  // Each day is converted into the reporting currency so the bars share one scale
+  const revenueSeries = (revenueData || []).map(item => ({
+    date: item.date,
+    total: convert(item.by_currency).total,
+  }))
+  const periodAmounts = addAmounts(...(revenueData || []).map(item => item.by_currency))
+  const totalRevenue = convert(periodAmounts).total
   // const maxRevenue = revenueData && revenueData.length > 0 ? Math.max(...revenueData.map(item => item.total || 0)) : 0
   
   // Get only the last 5 days with revenue data for better visualization
   const recentRevenueData = revenueData 
-    ? revenueData
+    ? revenueSeries
         .filter(item => item.total > 0) // Only days with revenue
         .slice(-5) // Last 5 days
         .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()) // Sort by date
@@ -56,6 +83,21 @@ export const Analytics: React.FC = () => {
   
   const recentMaxRevenue = recentRevenueData.length > 0 ? Math.max(...recentRevenueData.map(item => item.total)) : 0
 
+  // Upsells at different properties earn in different currencies, so rank them on the converted revenue
+  const topUpsells = [...(upsellAnalytics || [])]
+    .sort((a, b) =>
+      (convertAmount(b.total_revenue, b.currency, reportingCurrency, rates) ?? 0) -
+      (convertAmount(a.total_revenue, a.currency, reportingCurrency, rates) ?? 0)
+    )
+    .slice(0, 5)
+
+  const topBundles = [...(bundleAnalytics || [])]
+    .sort((a, b) =>
+      (convertAmount(b.total_revenue, b.currency, reportingCurrency, rates) ?? 0) -
+      (convertAmount(a.total_revenue, a.currency, reportingCurrency, rates) ?? 0)
+    )
+    .slice(0, 5)
+
   const handleExportCSV = async () => {
     try {
       setIsExporting(true)
@@ -116,9 +158,10 @@ export const Analytics: React.FC = () => {
             </div>
             <div className="ml-2 sm:ml-3 lg:ml-4 min-w-0 flex-1">
               <p className="text-xs sm:text-sm font-medium text-gray-600 truncate">Total Revenue</p>
-              <p className="text-lg sm:text-xl lg:text-2xl font-semibold text-gray-900 truncate">
-                {formatCurrency(stats?.total_revenue || 0)}
-              </p>
+              <CurrencyTotal
+                amounts={stats?.total_revenue_by_currency || {}}
+                className="text-lg sm:text-xl lg:text-2xl font-semibold text-gray-900 truncate"
+              />
             </div>
           </div>
         </div>
@@ -158,9 +201,10 @@ export const Analytics: React.FC = () => {
             </div>
             <div className="ml-2 sm:ml-3 lg:ml-4 min-w-0 flex-1">
               <p className="text-xs sm:text-sm font-medium text-gray-600 truncate">Monthly Revenue</p>
-              <p className="text-lg sm:text-xl lg:text-2xl font-semibold text-gray-900 truncate">
-                {formatCurrency(stats?.monthly_revenue || 0)}
-              </p>
+              <CurrencyTotal
+                amounts={stats?.monthly_revenue_by_currency || {}}
+                className="text-lg sm:text-xl lg:text-2xl font-semibold text-gray-900 truncate"
+              />
             </div>
           </div>
         </div>
@@ -185,11 +229,11 @@ export const Analytics: React.FC = () => {
                <div className="flex items-end justify-between h-full space-x-1 sm:space-x-2 lg:space-x-3">
                  {/* Mobile Y-axis labels */}
                  <div className="flex flex-col justify-between h-full text-xs text-gray-500 pr-1 sm:pr-2 w-10 sm:w-12 lg:w-16">
-                   <span className="text-right">{formatCurrency(recentMaxRevenue)}</span>
-                   <span className="text-right">{formatCurrency(recentMaxRevenue * 0.75)}</span>
-                   <span className="text-right">{formatCurrency(recentMaxRevenue * 0.5)}</span>
-                   <span className="text-right">{formatCurrency(recentMaxRevenue * 0.25)}</span>
-                   <span className="text-right">$0</span>
+                   <span className="text-right">{formatCurrency(recentMaxRevenue, reportingCurrency)}</span>
+                   <span className="text-right">{formatCurrency(recentMaxRevenue * 0.75, reportingCurrency)}</span>
+                   <span className="text-right">{formatCurrency(recentMaxRevenue * 0.5, reportingCurrency)}</span>
+                   <span className="text-right">{formatCurrency(recentMaxRevenue * 0.25, reportingCurrency)}</span>
+                   <span className="text-right">{formatCurrency(0, reportingCurrency)}</span>
                  </div>
                  
                  {/* Mobile Chart bars - only 5 days */}
@@ -208,11 +252,11 @@ export const Analytics: React.FC = () => {
                                height: `${height}%`,
                                minHeight: '6px'
                              }}
-                             title={`${formatCurrency(item.total)} - ${new Date(item.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`}
+                             title={`${formatCurrency(item.total, reportingCurrency)} - ${new Date(item.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`}
                            >
                              {/* Mobile Value label on hover */}
                              <div className="absolute -top-6 sm:-top-8 left-1/2 transform -translate-x-1/2 bg-gray-800 text-white text-xs px-1.5 py-0.5 rounded opacity-0 group-hover:opacity-100 transition-opacity duration-200 whitespace-nowrap z-10">
-                               {formatCurrency(item.total)}
+                               {formatCurrency(item.total, reportingCurrency)}
                              </div>
                            </div>
                          </div>
@@ -237,7 +281,7 @@ export const Analytics: React.FC = () => {
                    </div>
                    <div className="ml-2 sm:ml-3 lg:ml-4 min-w-0 flex-1">
                      <p className="text-xs sm:text-sm font-medium text-blue-700 truncate">Period Total</p>
-                     <p className="text-base sm:text-lg lg:text-2xl font-bold text-blue-900 truncate">{formatCurrency(totalRevenue)}</p>
+                     <CurrencyTotal amounts={periodAmounts} className="text-base sm:text-lg lg:text-2xl font-bold text-blue-900 truncate" />
                    </div>
                  </div>
                </div>
@@ -250,7 +294,7 @@ export const Analytics: React.FC = () => {
                    <div className="ml-2 sm:ml-3 lg:ml-4 min-w-0 flex-1">
                      <p className="text-xs sm:text-sm font-medium text-green-700 truncate">Average Daily</p>
                      <p className="text-base sm:text-lg lg:text-2xl font-bold text-green-900 truncate">
-                       {formatCurrency(revenueData && revenueData.length > 0 ? totalRevenue / revenueData.length : 0)}
+                       {formatCurrency(revenueSeries.length > 0 ? totalRevenue / revenueSeries.length : 0, reportingCurrency)}
                      </p>
                    </div>
                  </div>
@@ -295,7 +339,7 @@ export const Analytics: React.FC = () => {
           </div>
         ) : upsellAnalytics && upsellAnalytics.length > 0 ? (
           <div className="space-y-4">
-            {upsellAnalytics.slice(0, 5).map((upsell) => (
+            {topUpsells.map((upsell) => (
               <div key={upsell.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
                 <div className="flex-1">
                   <h4 className="font-medium text-gray-900">{upsell.title}</h4>
@@ -303,7 +347,7 @@ export const Analytics: React.FC = () => {
                 </div>
                 <div className="text-right">
                   <p className="font-semibold text-gray-900">
-                    {formatCurrency(upsell.total_revenue)}
+                    {formatCurrency(upsell.total_revenue, upsell.currency)}
                   </p>
                   <p className="text-sm text-gray-500">revenue</p>
                 </div>
@@ -317,6 +361,30 @@ export const Analytics: React.FC = () => {
         )}
       </div>
 
+      {topBundles.length > 0 && (
+        <div className="card p-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-6">Top Packages</h3>
+          <div className="space-y-4">
+            {topBundles.map((bundle) => (
+              <div key={bundle.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+                <div className="flex-1">
+                  <h4 className="font-medium text-gray-900">{bundle.title}</h4>
+                  <p className="text-sm text-gray-500">
+                    {bundle.total_orders} packages sold · guests saved {formatCurrency(bundle.total_savings, bundle.currency)}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className="font-semibold text-gray-900">
+                    {formatCurrency(bundle.total_revenue, bundle.currency)}
+                  </p>
+                  <p className="text-sm text-gray-500">revenue</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Additional Analytics Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <div className="card p-6">
@@ -0,0 +1,516 @@
+import React, { useEffect, useRef } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { useForm } from 'react-hook-form'
+import { useQuery, useMutation, useQueryClient } from 'react-query'
+import { ArrowLeft, Save, Upload, X } from 'lucide-react'
+import { api } from '../lib/api'
+import type { Property, Upsell, UpsellBundle } from '../types'
+import { formatCurrency } from '../lib/utils'
+import { allocateBundlePrice, getBundleIneligibility, getBundlePrice, getComponentsTotal } from '../lib/bundles'
+import { sortUpsellsForDisplay } from '../lib/upsellOrder'
+import toast from 'react-hot-toast'
+
+interface BundleFormData {
+  property_id: number
+  title: string
+  description: string
+  image_url?: string
+  pricing_type: 'price' | 'discount'
+  bundle_price: number
+  discount_percent: number
+  upsell_ids: number[]
+  is_active: boolean
+}
+
+export const BundleForm: React.FC = () => {
+  const { id } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const queryClient = useQueryClient()
+  const isEditing = Boolean(id)
+
+  const [imagePreview, setImagePreview] = React.useState<string | null>(null)
+  const [selectedFile, setSelectedFile] = React.useState<File | null>(null)
+
+  const { register, handleSubmit, formState: { errors }, setValue, watch } = useForm<BundleFormData>({
+    defaultValues: {
+      property_id: 0,
+      title: '',
+      description: '',
+      image_url: '',
+      pricing_type: 'discount',
+      bundle_price: 0,
+      discount_percent: 10,
+      upsell_ids: [],
+      is_active: true,
+    }
+  })
+
+  const { data: bundle, isLoading: bundleLoading } = useQuery<UpsellBundle>(
+    ['upsell-bundle', id],
+    () => api.get(`/upsell-bundles/${id}`).then(res => res.data.bundle),
+    { enabled: isEditing }
+  )
+
+  const { data: properties } = useQuery<Property[]>(
+    'properties',
+    () => api.get('/properties').then(res => res.data.properties)
+  )
+
+  const { data: upsells } = useQuery<Upsell[]>(
+    'upsells',
+    () => api.get('/upsells').then(res => res.data.upsells)
+  )
+
+  useEffect(() => {
+    if (bundle) {
+      setValue('property_id', bundle.property_id)
+      setValue('title', bundle.title)
+      setValue('description', bundle.description || '')
+      setValue('image_url', bundle.image_url || '')
+      setValue('pricing_type', bundle.pricing_type)
+      setValue('bundle_price', bundle.bundle_price ?? 0)
+      setValue('discount_percent', bundle.discount_percent ?? 0)
+      setValue('upsell_ids', bundle.upsell_ids)
+      setValue('is_active', bundle.is_active)
+      if (bundle.image_url) {
+        setImagePreview(bundle.image_url)
+      }
+    }
+  }, [bundle, setValue])
+
+  const propertyId = watch('property_id')
+  const pricingType = watch('pricing_type')
+  const upsellIds = watch('upsell_ids')
+  const bundlePrice = watch('bundle_price')
+  const discountPercent = watch('discount_percent')
+
+  const currency = properties?.find(property => property.id === propertyId)?.currency
+  const propertyUpsells = sortUpsellsForDisplay(upsells?.filter(upsell => upsell.property_id === propertyId) || [])
+  // Keep the package in the order components were picked, that's the order guests see them in
+  const components = upsellIds
+    .map(upsellId => propertyUpsells.find(upsell => upsell.id === upsellId))
+    .filter((upsell): upsell is Upsell => Boolean(upsell))
+  const componentsTotal = getComponentsTotal(components)
+  const packagePrice = getBundlePrice({ pricing_type: pricingType, bundle_price: bundlePrice, discount_percent: discountPercent }, components)
+  const shares = allocateBundlePrice(packagePrice, components)
+
+  // Components belong to one property, so switching property starts the selection over.
+  // Loading a saved package moves off the initial 0 and keeps its components
+  const previousPropertyId = useRef(propertyId)
+  useEffect(() => {
+    if (previousPropertyId.current && previousPropertyId.current !== propertyId) {
+      setValue('upsell_ids', [])
+    }
+    previousPropertyId.current = propertyId
+  }, [propertyId, setValue])
+
+  const toggleComponent = (upsellId: number) => {
+    setValue(
+      'upsell_ids',
+      upsellIds.includes(upsellId) ? upsellIds.filter(id => id !== upsellId) : [...upsellIds, upsellId],
+      { shouldDirty: true }
+    )
+  }
+
+  const createMutation = useMutation(
+    (data: BundleFormData) => api.post('/upsell-bundles', data),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries('upsell-bundles')
+        toast.success('Package created successfully!')
+        navigate('/upsells')
+      },
+      onError: (error: any) => {
+        toast.error(error.response?.data?.message || 'Failed to create package')
+      }
+    }
+  )
+
+  const updateMutation = useMutation(
+    (data: BundleFormData) => api.put(`/upsell-bundles/${id}`, data),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries('upsell-bundles')
+        queryClient.invalidateQueries(['upsell-bundle', id])
+        toast.success('Package updated successfully!')
+        navigate('/upsells')
+      },
+      onError: (error: any) => {
+        toast.error(error.response?.data?.message || 'Failed to update package')
+      }
+    }
+  )
+
+  const onSubmit = async (data: BundleFormData) => {
+    if (data.upsell_ids.length < 2) {
+      toast.error('Pick at least two upsells for the package')
+      return
+    }
+    const ineligible = components.find(upsell => getBundleIneligibility(upsell))
+    if (ineligible) {
+      toast.error(`${ineligible.title} can't be part of a package: ${getBundleIneligibility(ineligible)!.toLowerCase()}`)
+      return
+    }
+    if (packagePrice >= componentsTotal) {
+      toast.error('The package should cost less than its upsells bought separately')
+      return
+    }
+
+    try {
+      let imageUrl = data.image_url
+
+      if (selectedFile) {
+        const formData = new FormData()
+        formData.append('image', selectedFile)
+
+        const uploadResponse = await api.post('/upload-image', formData, {
+          headers: {
+            'Content-Type': 'multipart/form-data',
+          },
+        })
+
+        imageUrl = uploadResponse.data.url
+      }
+
+      const submitData = {
+        ...data,
+        image_url: imageUrl,
+      }
+
+      if (isEditing) {
+        updateMutation.mutate(submitData)
+      } else {
+        createMutation.mutate(submitData)
+      }
+    } catch (error: any) {
+      toast.error('Failed to upload image')
+    }
+  }
+
+  const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (file) {
+      if (!file.type.startsWith('image/')) {
+        toast.error('Please select a valid image file')
+        return
+      }
+
+      if (file.size > 5 * 1024 * 1024) {
+        toast.error('Image size must be less than 5MB')
+        return
+      }
+
+      setSelectedFile(file)
+
+      const reader = new FileReader()
+      reader.onload = (e) => {
+        setImagePreview(e.target?.result as string)
+      }
+      reader.readAsDataURL(file)
+    }
+  }
+
+  if (bundleLoading) {
+    return (
+      <div className="space-y-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-6"></div>
+          <div className="card p-6">
+            <div className="space-y-4">
+              <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+              <div className="h-10 bg-gray-200 rounded"></div>
+              <div className="h-4 bg-gray-200 rounded w-1/3"></div>
+              <div className="h-20 bg-gray-200 rounded"></div>
+            </div>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center">
+        <button
+          onClick={() => navigate('/upsells')}
+          className="mr-4 p-2 text-gray-400 hover:text-gray-600"
+        >
+          <ArrowLeft className="h-5 w-5" />
+        </button>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">
+            {isEditing ? 'Edit Package' : 'Add New Package'}
+          </h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Sell several upsells together for one price. Each one is still routed to its own vendor.
+          </p>
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+        <div className="card p-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Basic Information</h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label className="label">Property *</label>
+              <select
+                {...register('property_id', { valueAsNumber: true, validate: value => value > 0 || 'Property is required' })}
+                className="input"
+              >
+                <option value={0}>Select Property</option>
+                {properties?.map((property) => (
+                  <option key={property.id} value={property.id}>
+                    {property.name}
+                  </option>
+                ))}
+              </select>
+              {errors.property_id && (
+                <p className="mt-1 text-sm text-danger-600">{errors.property_id.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="label">Title *</label>
+              <input
+                {...register('title', { required: 'Title is required' })}
+                type="text"
+                className="input"
+                placeholder="e.g. Arrival package"
+              />
+              {errors.title && (
+                <p className="mt-1 text-sm text-danger-600">{errors.title.message}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="mt-6">
+            <label className="label">Description</label>
+            <textarea
+              {...register('description')}
+              rows={3}
+              className="input"
+              placeholder="What the package includes and why guests will love it..."
+            />
+          </div>
+
+          <div className="mt-6">
+            <label className="label">Package Image</label>
+            <div className="mt-2">
+              {imagePreview ? (
+                <div className="relative">
+                  <img
+                    src={imagePreview}
+                    alt="Package preview"
+                    className="h-48 w-full object-cover rounded-lg"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setImagePreview(null)
+                      setSelectedFile(null)
+                      setValue('image_url', '')
+                    }}
+                    className="absolute top-2 right-2 p-1 bg-white rounded-full shadow-md hover:bg-gray-50"
+                  >
+                    <X className="h-4 w-4 text-gray-600" />
+                  </button>
+                </div>
+              ) : (
+                <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center">
+                  <Upload className="mx-auto h-12 w-12 text-gray-400" />
+                  <div className="mt-2">
+                    <label htmlFor="bundle-image-upload" className="cursor-pointer">
+                      <span className="text-sm font-medium text-primary-600 hover:text-primary-500">
+                        Upload an image
+                      </span>
+                      <input
+                        id="bundle-image-upload"
+                        type="file"
+                        accept="image/*"
+                        onChange={handleImageUpload}
+                        className="sr-only"
+                      />
+                    </label>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="mt-6">
+            <div className="flex items-center">
+              <input
+                {...register('is_active')}
+                type="checkbox"
+                className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+              />
+              <label className="ml-2 text-sm text-gray-700">
+                Active package
+              </label>
+            </div>
+          </div>
+        </div>
+
+        <div className="card p-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-1">Included Upsells</h3>
+          <p className="text-sm text-gray-500 mb-4">
+            Pick two or more upsells from the property. Only upsells with a single price per booking can be packaged.
+          </p>
+
+          {!propertyId ? (
+            <p className="text-sm text-gray-500">Select a property first.</p>
+          ) : propertyUpsells.length === 0 ? (
+            <p className="text-sm text-gray-500">This property has no upsells yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {propertyUpsells.map((upsell) => {
+                const ineligibility = getBundleIneligibility(upsell)
+                const isSelected = upsellIds.includes(upsell.id)
+                // A saved component that no longer qualifies can still be unticked
+                const isDisabled = Boolean(ineligibility) && !isSelected
+
+                return (
+                  <label
+                    key={upsell.id}
+                    className={`flex items-center justify-between border rounded-lg px-4 py-3 ${
+                      isDisabled ? 'opacity-60' : 'cursor-pointer hover:bg-gray-50'
+                    }`}
+                  >
+                    <span className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={isSelected}
+                        onChange={() => toggleComponent(upsell.id)}
+                        disabled={isDisabled}
+                        className="h-4 w-4 mr-3 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                      />
+                      <span>
+                        <span className={`block text-sm font-medium ${upsell.is_active ? 'text-gray-900' : 'text-gray-400'}`}>
+                          {upsell.title}{!upsell.is_active && ' (inactive)'}
+                        </span>
+                        <span className={`block text-xs ${ineligibility ? 'text-danger-600' : 'text-gray-500'}`}>
+                          {ineligibility ? `${ineligibility}, can't be packaged` : upsell.primary_vendor?.name || 'No vendor'}
+                        </span>
+                      </span>
+                    </span>
+                    <span className="text-sm text-gray-700">{formatCurrency(upsell.price, currency)}</span>
+                  </label>
+                )
+              })}
+            </div>
+          )}
+        </div>
+
+        <div className="card p-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Package Price</h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label className="label">Pricing</label>
+              <select {...register('pricing_type')} className="input">
+                <option value="discount">Percentage off the upsell prices</option>
+                <option value="price">Fixed package price</option>
+              </select>
+            </div>
+
+            {pricingType === 'price' ? (
+              <div>
+                <label className="label">Package Price *</label>
+                <input
+                  {...register('bundle_price', {
+                    valueAsNumber: true,
+                    required: 'Package price is required',
+                    validate: value => (Number.isFinite(value) && value > 0) || 'Price must be positive',
+                  })}
+                  type="number"
+                  step="0.01"
+                  className="input"
+                />
+                {errors.bundle_price && (
+                  <p className="mt-1 text-sm text-danger-600">{errors.bundle_price.message}</p>
+                )}
+              </div>
+            ) : (
+              <div>
+                <label className="label">Discount (%) *</label>
+                <input
+                  {...register('discount_percent', {
+                    valueAsNumber: true,
+                    required: 'Discount is required',
+                    min: { value: 0, message: 'Discount cannot be negative' },
+                    validate: value => (Number.isFinite(value) && value < 100) || 'Discount must be below 100%',
+                  })}
+                  type="number"
+                  step="1"
+                  className="input"
+                />
+                {errors.discount_percent && (
+                  <p className="mt-1 text-sm text-danger-600">{errors.discount_percent.message}</p>
+                )}
+              </div>
+            )}
+          </div>
+
+          {components.length > 0 && (
+            <table className="w-full mt-6 text-sm">
+              <thead>
+                <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  <th className="py-2">Sub-order</th>
+                  <th className="py-2">Routed to</th>
+                  <th className="py-2 text-right">On its own</th>
+                  <th className="py-2 text-right">In the package</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {components.map((upsell) => (
+                  <tr key={upsell.id}>
+                    <td className="py-2 text-gray-900">{upsell.title}</td>
+                    <td className="py-2 text-gray-500">{upsell.primary_vendor?.name || '—'}</td>
+                    <td className="py-2 text-right text-gray-500">{formatCurrency(upsell.price, currency)}</td>
+                    <td className="py-2 text-right text-gray-900">{formatCurrency(shares.get(upsell.id) || 0, currency)}</td>
+                  </tr>
+                ))}
+                <tr className="font-medium">
+                  <td className="py-2 text-gray-900" colSpan={2}>
+                    Total
+                    {componentsTotal > packagePrice && (
+                      <span className="ml-2 text-xs font-normal text-green-700">
+                        Guests save {formatCurrency(componentsTotal - packagePrice, currency)}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-2 text-right text-gray-500 line-through">{formatCurrency(componentsTotal, currency)}</td>
+                  <td className="py-2 text-right text-gray-900">{formatCurrency(packagePrice, currency)}</td>
+                </tr>
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-4">
+          <button
+            type="button"
+            onClick={() => navigate('/upsells')}
+            className="btn-secondary btn-md"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={createMutation.isLoading || updateMutation.isLoading}
+            className="btn-primary btn-md"
+          >
+            <Save className="h-4 w-4 mr-2" />
+            {createMutation.isLoading || updateMutation.isLoading
+              ? 'Saving...'
+              : isEditing
+              ? 'Update Package'
+              : 'Create Package'
+            }
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
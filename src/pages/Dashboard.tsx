@@ -1,5 +1,6 @@
 import React from 'react'
 import { useQuery } from 'react-query'
+import { Link } from 'react-router-dom'
 import { 
   Building2, 
   Package, 
@@ -9,20 +10,25 @@ import {
   Users,
   Calendar,
   ArrowUpRight,
-  BarChart3
+  BarChart3,
+  AlarmClock
 } from 'lucide-react'
 import { api } from '../lib/api'
 import { formatCurrency } from '../lib/utils'
+import type { CurrencyAmounts } from '../types'
+import { CurrencyTotal } from '../components/CurrencyTotal'
+import { toOrdersLink } from '../lib/orderFilters'
 
 interface DashboardStats {
   total_properties: number
   total_upsells: number
   total_orders: number
-  total_revenue: number
-  monthly_revenue: number
+  total_revenue_by_currency: CurrencyAmounts
+  monthly_revenue_by_currency: CurrencyAmounts
   conversion_rate: number
   active_vendors: number
   pending_orders: number
+  overdue_orders: number
 }
 
 interface RecentOrder {
@@ -47,7 +53,16 @@ export const Dashboard: React.FC = () => {
     () => api.get('/dashboard/recent-orders').then(res => res.data)
   )
 
-  const statsCards = [
+  const statsCards: {
+    title: string
+    value?: number
+    amounts?: CurrencyAmounts
+    detail?: string
+    alert?: { label: string; href: string }
+    icon: typeof Building2
+    color: string
+    bgColor: string
+  }[] = [
     {
       title: 'Total Properties',
       value: stats?.total_properties || 0,
@@ -65,20 +80,24 @@ export const Dashboard: React.FC = () => {
     {
       title: 'Total Orders',
       value: stats?.total_orders || 0,
+      detail: `${stats?.pending_orders || 0} pending`,
+      alert: stats?.overdue_orders
+        ? { label: `${stats.overdue_orders} overdue`, href: toOrdersLink({ overdue: '1' }) }
+        : undefined,
       icon: ShoppingCart,
       color: 'text-purple-600',
       bgColor: 'bg-purple-100',
     },
     {
       title: 'Total Revenue',
-      value: formatCurrency(stats?.total_revenue || 0),
+      amounts: stats?.total_revenue_by_currency || {},
       icon: DollarSign,
       color: 'text-yellow-600',
       bgColor: 'bg-yellow-100',
     },
     {
       title: 'Monthly Revenue',
-      value: formatCurrency(stats?.monthly_revenue || 0),
+      amounts: stats?.monthly_revenue_by_currency || {},
       icon: TrendingUp,
       color: 'text-indigo-600',
       bgColor: 'bg-indigo-100',
@@ -129,7 +148,25 @@ export const Dashboard: React.FC = () => {
               </div>
               <div className="ml-4">
                 <p className="text-sm font-medium text-gray-600">{card.title}</p>
-                <p className="text-2xl font-semibold text-gray-900">{card.value}</p>
+                {card.amounts ? (
+                  <CurrencyTotal amounts={card.amounts} className="text-2xl font-semibold text-gray-900" />
+                ) : (
+                  <p className="text-2xl font-semibold text-gray-900">{card.value}</p>
+                )}
+                {card.detail && (
+                  <div className="flex items-center gap-2 mt-1">
+                    <span className="text-sm text-gray-500">{card.detail}</span>
+                    {card.alert && (
+                      <Link
+                        to={card.alert.href}
+                        className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-danger-50 text-danger-700 hover:bg-danger-100"
+                      >
+                        <AlarmClock className="h-3 w-3 mr-1" />
+                        {card.alert.label}
+                      </Link>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
           </div>
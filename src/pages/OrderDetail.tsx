@@ -0,0 +1,511 @@
+import React, { useState } from 'react'
+import { Link, useNavigate, useParams } from 'react-router-dom'
+import { useQuery } from 'react-query'
+import {
+  ArrowLeft,
+  User,
+  Mail,
+  Phone,
+  CreditCard,
+  Package,
+  MapPin,
+  Users,
+  FileText,
+  Clock3,
+  ShoppingCart,
+  ExternalLink,
+  RotateCcw,
+  Send,
+  CalendarClock
+} from 'lucide-react'
+import { api } from '../lib/api'
+import type { Order, OrderStatusChange } from '../types'
+import { formatCurrency, formatDateTime } from '../lib/utils'
+import { OrderStatusBadge } from '../components/OrderStatusBadge'
+import { RefundBadge } from '../components/RefundBadge'
+import { RefundOrderModal } from '../components/RefundOrderModal'
+import { DispatchOrderModal } from '../components/DispatchOrderModal'
+import { OrderDispatches } from '../components/OrderDispatches'
+import { OrderNotes } from '../components/OrderNotes'
+import { InvoiceActions } from '../components/InvoiceActions'
+import { SlaBadge } from '../components/SlaBadge'
+import { OrderConfigurationBreakdown } from '../components/OrderConfigurationBreakdown'
+import { BundleSubOrders } from '../components/BundleSubOrders'
+import { canRefund, getRefundedAmount, refundReasons } from '../lib/refunds'
+import { canDispatch } from '../lib/dispatch'
+import { formatServiceDate } from '../lib/orderCalendar'
+import { getOrderSourceLabel, getPaymentMethodLabel, isAwaitingPayment } from '../lib/manualOrders'
+import { getSlaState } from '../lib/sla'
+import { useOrderSlas } from '../hooks/useOrderSlas'
+import toast from 'react-hot-toast'
+
+const humanizeKey = (key: string) => {
+  const label = key.replace(/[_-]+/g, ' ').trim()
+  return label.charAt(0).toUpperCase() + label.slice(1)
+}
+
+const renderDetailValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') {
+    return <span className="text-gray-400">—</span>
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No'
+  }
+  if (typeof value === 'object') {
+    return (
+      <pre className="text-xs bg-gray-50 rounded-md p-2 overflow-x-auto whitespace-pre-wrap">
+        {JSON.stringify(value, null, 2)}
+      </pre>
+    )
+  }
+  return String(value)
+}
+
+const getRefundReasonLabel = (reason: string) =>
+  refundReasons.find(r => r.value === reason)?.label || reason
+
+const getRefundStatusColor = (status: string) => {
+  switch (status) {
+    case 'succeeded':
+      return 'text-green-700'
+    case 'failed':
+      return 'text-red-700'
+    default:
+      return 'text-yellow-700'
+  }
+}
+
+const copyPaymentLink = async (url: string) => {
+  try {
+    await navigator.clipboard.writeText(url)
+    toast.success('Payment link copied to clipboard!')
+  } catch (error) {
+    toast.error('Failed to copy link')
+  }
+}
+
+export const OrderDetail: React.FC = () => {
+  const { id } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const [showRefundModal, setShowRefundModal] = useState(false)
+  const [dispatchMode, setDispatchMode] = useState<'dispatch' | 'escalate' | null>(null)
+  const { slas } = useOrderSlas()
+
+  const { data: order, isLoading, isError } = useQuery<Order>(
+    ['order', id],
+    () => api.get(`/orders/${id}`).then(res => res.data.order)
+  )
+
+  // Oldest first so the timeline reads top to bottom
+  const statusHistory: OrderStatusChange[] = [...(order?.status_history || [])].sort(
+    (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  )
+
+  const detailEntries = order?.order_details && typeof order.order_details === 'object'
+    ? Object.entries(order.order_details as Record<string, unknown>)
+    : []
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/4 mb-6"></div>
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2 space-y-6">
+              {[...Array(3)].map((_, i) => (
+                <div key={i} className="h-40 bg-gray-200 rounded-lg"></div>
+              ))}
+            </div>
+            <div className="h-96 bg-gray-200 rounded-lg"></div>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (isError || !order) {
+    return (
+      <div className="text-center py-12">
+        <ShoppingCart className="mx-auto h-12 w-12 text-gray-400" />
+        <h3 className="mt-2 text-sm font-medium text-gray-900">Order not found</h3>
+        <p className="mt-1 text-sm text-gray-500">
+          The order may have been removed or you may not have access to it.
+        </p>
+        <div className="mt-6">
+          <Link to="/orders" className="btn-primary btn-md">
+            Back to Orders
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-center">
+          <button
+            onClick={() => navigate('/orders')}
+            className="mr-4 p-2 text-gray-400 hover:text-gray-600"
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </button>
+          <div>
+            <div className="flex items-center gap-3">
+              <h1 className="text-2xl font-bold text-gray-900">Order #{order.id}</h1>
+              <OrderStatusBadge status={order.status} />
+              <RefundBadge order={order} />
+              <SlaBadge order={order} state={getSlaState(order, slas)} />
+            </div>
+            <p className="mt-1 text-sm text-gray-500">
+              Placed {formatDateTime(order.created_at)}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-4">
+          {canDispatch(order) && (
+            <button
+              onClick={() => setDispatchMode('dispatch')}
+              className="btn-secondary btn-md"
+            >
+              <Send className="h-4 w-4 mr-2" />
+              Dispatch
+            </button>
+          )}
+          <InvoiceActions order={order} />
+          {canRefund(order) && (
+            <button
+              onClick={() => setShowRefundModal(true)}
+              className="btn-secondary btn-md"
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Refund
+            </button>
+          )}
+          <div className="text-left sm:text-right">
+            <p className="text-sm text-gray-500">Amount</p>
+            <p className="text-2xl font-bold text-gray-900">
+              {formatCurrency(order.amount, order.currency)}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          {/* Guest */}
+          <div className="card p-6">
+            <h3 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+              <User className="h-5 w-5 mr-2 text-gray-400" />
+              Guest
+            </h3>
+            <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+              <div>
+                <dt className="font-medium text-gray-600">Name</dt>
+                <dd className="text-gray-900">{order.guest_name}</dd>
+              </div>
+              <div>
+                <dt className="font-medium text-gray-600">Email</dt>
+                <dd className="text-gray-900 flex items-center">
+                  <Mail className="h-3 w-3 mr-1 text-gray-400" />
+                  <a href={`mailto:${order.guest_email}`} className="hover:text-blue-600">
+                    {order.guest_email}
+                  </a>
+                </dd>
+              </div>
+              <div>
+                <dt className="font-medium text-gray-600">Phone</dt>
+                <dd className="text-gray-900 flex items-center">
+                  {order.guest_phone ? (
+                    <>
+                      <Phone className="h-3 w-3 mr-1 text-gray-400" />
+                      <a href={`tel:${order.guest_phone}`} className="hover:text-blue-600">
+                        {order.guest_phone}
+                      </a>
+                    </>
+                  ) : (
+                    <span className="text-gray-400">—</span>
+                  )}
+                </dd>
+              </div>
+              <div>
+                <dt className="font-medium text-gray-600">Passport</dt>
+                <dd className="text-gray-900">
+                  {order.guest_passport || <span className="text-gray-400">—</span>}
+                </dd>
+              </div>
+            </dl>
+          </div>
+
+          {/* Service */}
+          <div className="card p-6">
+            <h3 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+              <Package className="h-5 w-5 mr-2 text-gray-400" />
+              Service
+            </h3>
+            <dl className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+              <div>
+                <dt className="font-medium text-gray-600">Upsell</dt>
+                <dd className="text-gray-900">
+                  {order.upsell ? (
+                    <Link to={`/upsells/${order.upsell.id}/edit`} className="hover:text-blue-600">
+                      {order.upsell.title}
+                    </Link>
+                  ) : (
+                    `#${order.upsell_id}`
+                  )}
+                </dd>
+                {order.upsell && (
+                  <dd className="text-gray-500 capitalize">{order.upsell.category}</dd>
+                )}
+                <dd className="text-gray-500 flex items-center mt-1">
+                  <CalendarClock className="h-3 w-3 mr-1" />
+                  {formatServiceDate(order) || 'Date not set'}
+                </dd>
+              </div>
+              <div>
+                <dt className="font-medium text-gray-600 flex items-center">
+                  <MapPin className="h-3 w-3 mr-1" />
+                  Property
+                </dt>
+                <dd className="text-gray-900">
+                  {order.property ? (
+                    <Link to={`/properties/${order.property.id}/edit`} className="hover:text-blue-600">
+                      {order.property.name}
+                    </Link>
+                  ) : (
+                    `#${order.property_id}`
+                  )}
+                </dd>
+              </div>
+              <div>
+                <dt className="font-medium text-gray-600 flex items-center">
+                  <Users className="h-3 w-3 mr-1" />
+                  Vendor
+                </dt>
+                <dd className="text-gray-900">
+                  {order.vendor ? (
+                    <Link to={`/vendors/${order.vendor.id}/edit`} className="hover:text-blue-600">
+                      {order.vendor.name}
+                    </Link>
+                  ) : (
+                    `#${order.vendor_id}`
+                  )}
+                </dd>
+                {order.vendor && (
+                  <>
+                    <dd className="text-gray-500">{order.vendor.email}</dd>
+                    {order.vendor.phone && <dd className="text-gray-500">{order.vendor.phone}</dd>}
+                    {order.vendor.whatsapp_number && (
+                      <dd className="text-gray-500">WhatsApp: {order.vendor.whatsapp_number}</dd>
+                    )}
+                  </>
+                )}
+              </div>
+            </dl>
+            {order.configuration && (
+              <div className="mt-4 pt-4 border-t border-gray-200">
+                <h4 className="text-sm font-medium text-gray-600 mb-1">Chosen options</h4>
+                <OrderConfigurationBreakdown order={order} configuration={order.configuration} />
+              </div>
+            )}
+          </div>
+
+          <BundleSubOrders order={order} />
+
+          <OrderDispatches
+            order={order}
+            onDispatch={(escalate) => setDispatchMode(escalate ? 'escalate' : 'dispatch')}
+          />
+
+          {/* Order Details */}
+          <div className="card p-6">
+            <h3 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+              <FileText className="h-5 w-5 mr-2 text-gray-400" />
+              Order Details
+            </h3>
+            {detailEntries.length > 0 ? (
+              <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+                {detailEntries.map(([key, value]) => (
+                  <div key={key}>
+                    <dt className="font-medium text-gray-600">{humanizeKey(key)}</dt>
+                    <dd className="text-gray-900">{renderDetailValue(value)}</dd>
+                  </div>
+                ))}
+              </dl>
+            ) : (
+              <p className="text-sm text-gray-500">No additional details were provided with this order.</p>
+            )}
+          </div>
+
+          {/* Payment */}
+          <div className="card p-6">
+            <h3 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+              <CreditCard className="h-5 w-5 mr-2 text-gray-400" />
+              Payment
+            </h3>
+            <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+              <div>
+                <dt className="font-medium text-gray-600">Amount</dt>
+                <dd className="text-gray-900">{formatCurrency(order.amount, order.currency)}</dd>
+              </div>
+              <div>
+                <dt className="font-medium text-gray-600">Currency</dt>
+                <dd className="text-gray-900">{order.currency}</dd>
+              </div>
+              <div>
+                <dt className="font-medium text-gray-600">Method</dt>
+                <dd className="text-gray-900">
+                  {getPaymentMethodLabel(order.payment_method)}
+                  {order.payment_reference && (
+                    <span className="text-gray-500"> · {order.payment_reference}</span>
+                  )}
+                </dd>
+              </div>
+              <div>
+                <dt className="font-medium text-gray-600">Booked via</dt>
+                <dd className="text-gray-900">{getOrderSourceLabel(order.source)}</dd>
+              </div>
+              {order.payment_method === 'payment_link' && (
+                <div className="sm:col-span-2">
+                  <dt className="font-medium text-gray-600">Payment Link</dt>
+                  <dd className="text-gray-900">
+                    {isAwaitingPayment(order) ? (
+                      <span className="inline-flex items-center gap-2">
+                        <span className="text-yellow-700">Awaiting payment</span>
+                        {order.payment_link_url && (
+                          <button onClick={() => copyPaymentLink(order.payment_link_url!)} className="text-blue-600 hover:text-blue-800">
+                            Copy link
+                          </button>
+                        )}
+                      </span>
+                    ) : (
+                      <span className="text-green-700">Paid {order.paid_at && formatDateTime(order.paid_at)}</span>
+                    )}
+                  </dd>
+                </div>
+              )}
+              <div>
+                <dt className="font-medium text-gray-600">Stripe Payment Intent</dt>
+                <dd className="text-gray-900 font-mono text-xs break-all">
+                  {order.stripe_payment_intent_id ? (
+                    <a
+                      href={`https://dashboard.stripe.com/payments/${order.stripe_payment_intent_id}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center hover:text-blue-600"
+                    >
+                      {order.stripe_payment_intent_id}
+                      <ExternalLink className="h-3 w-3 ml-1" />
+                    </a>
+                  ) : (
+                    <span className="text-gray-400 font-sans text-sm">—</span>
+                  )}
+                </dd>
+              </div>
+              <div>
+                <dt className="font-medium text-gray-600">Stripe Charge</dt>
+                <dd className="text-gray-900 font-mono text-xs break-all">
+                  {order.stripe_charge_id || <span className="text-gray-400 font-sans text-sm">—</span>}
+                </dd>
+              </div>
+            </dl>
+
+            <div className="mt-6 pt-4 border-t border-gray-200">
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="text-sm font-medium text-gray-900">Refunds</h4>
+                <span className="text-sm text-gray-500">
+                  {formatCurrency(getRefundedAmount(order), order.currency)} refunded
+                </span>
+              </div>
+              {order.refunds && order.refunds.length > 0 ? (
+                <ul className="divide-y divide-gray-100">
+                  {order.refunds.map((refund) => (
+                    <li key={refund.id} className="py-2 flex items-start justify-between text-sm">
+                      <div>
+                        <p className="text-gray-900">{getRefundReasonLabel(refund.reason)}</p>
+                        <p className="text-xs text-gray-500">
+                          {formatDateTime(refund.created_at)} by {refund.created_by?.name || 'System'}
+                        </p>
+                        {refund.stripe_refund_id && (
+                          <p className="text-xs text-gray-400 font-mono">{refund.stripe_refund_id}</p>
+                        )}
+                      </div>
+                      <div className="text-right">
+                        <p className="font-semibold text-gray-900">
+                          {formatCurrency(refund.amount, refund.currency)}
+                        </p>
+                        <p className={`text-xs capitalize ${getRefundStatusColor(refund.status)}`}>
+                          {refund.status}
+                        </p>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-gray-500">No refunds have been issued for this order.</p>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          {/* Status Timeline */}
+          <div className="card p-6">
+            <h3 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+              <Clock3 className="h-5 w-5 mr-2 text-gray-400" />
+              Timeline
+            </h3>
+            <ol className="relative border-l border-gray-200 ml-2 space-y-6">
+              <li className="ml-4">
+                <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-gray-400"></div>
+                <p className="text-sm font-medium text-gray-900">Order placed</p>
+                <p className="text-xs text-gray-500">by {order.guest_name}</p>
+                <time className="text-xs text-gray-400">{formatDateTime(order.created_at)}</time>
+              </li>
+              {statusHistory.map((change) => (
+                <li key={change.id} className="ml-4">
+                  <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-blue-500"></div>
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    {change.from_status && (
+                      <>
+                        <OrderStatusBadge status={change.from_status} />
+                        <span className="text-gray-400">→</span>
+                      </>
+                    )}
+                    <OrderStatusBadge status={change.to_status} />
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500">
+                    by {change.changed_by?.name || 'System'}
+                  </p>
+                  {change.reason && (
+                    <p className="mt-1 text-sm text-gray-700">“{change.reason}”</p>
+                  )}
+                  <time className="text-xs text-gray-400">{formatDateTime(change.created_at)}</time>
+                </li>
+              ))}
+            </ol>
+            {statusHistory.length === 0 && (
+              <p className="mt-4 text-sm text-gray-500">No status changes recorded yet.</p>
+            )}
+          </div>
+
+          <OrderNotes order={order} />
+        </div>
+      </div>
+
+      {showRefundModal && (
+        <RefundOrderModal order={order} onClose={() => setShowRefundModal(false)} />
+      )}
+
+      {dispatchMode && (
+        <DispatchOrderModal
+          order={order}
+          escalate={dispatchMode === 'escalate'}
+          onClose={() => setDispatchMode(null)}
+        />
+      )}
+    </div>
+  )
+}
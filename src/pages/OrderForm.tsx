@@ -0,0 +1,386 @@
+import React, { useEffect } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useForm } from 'react-hook-form'
+import { useQuery, useMutation, useQueryClient } from 'react-query'
+import { AlertTriangle, ArrowLeft, Banknote, Link2, Save } from 'lucide-react'
+import { api } from '../lib/api'
+import type { OrderPaymentMethod, OrderSource, Property, Upsell, Vendor } from '../types'
+import { offlinePaymentMethods, orderSources } from '../lib/manualOrders'
+import { formatCurrency } from '../lib/utils'
+import { getAvailabilityIssue, normalizeAvailabilityRules } from '../lib/availability'
+import toast from 'react-hot-toast'
+
+interface OrderFormData {
+  property_id: number
+  upsell_id: number
+  vendor_id: number
+  guest_name: string
+  guest_email: string
+  guest_phone: string
+  service_date: string
+  service_time: string
+  amount: number
+  source: OrderSource
+  payment: 'offline' | 'payment_link'
+  payment_method: OrderPaymentMethod
+  payment_reference: string
+  note: string
+}
+
+export const OrderForm: React.FC = () => {
+  const navigate = useNavigate()
+  const queryClient = useQueryClient()
+
+  const { register, handleSubmit, watch, setValue, formState: { errors } } = useForm<OrderFormData>({
+    defaultValues: {
+      property_id: 0,
+      upsell_id: 0,
+      vendor_id: 0,
+      guest_name: '',
+      guest_email: '',
+      guest_phone: '',
+      service_date: '',
+      service_time: '',
+      amount: 0,
+      source: 'phone',
+      payment: 'offline',
+      payment_method: 'cash',
+      payment_reference: '',
+      note: '',
+    }
+  })
+
+  const { data: properties } = useQuery<Property[]>(
+    'properties',
+    () => api.get('/properties').then(res => res.data.properties)
+  )
+
+  const { data: upsells } = useQuery<Upsell[]>(
+    'upsells',
+    () => api.get('/upsells').then(res => res.data.upsells)
+  )
+
+  const { data: vendors } = useQuery<Vendor[]>(
+    'vendors',
+    () => api.get('/vendors').then(res => res.data.vendors)
+  )
+
+  const propertyId = watch('property_id')
+  const upsellId = watch('upsell_id')
+  const payment = watch('payment')
+  const amount = watch('amount')
+  const serviceDate = watch('service_date')
+  const serviceTime = watch('service_time')
+
+  const property = properties?.find(p => p.id === propertyId)
+  const propertyUpsells = upsells?.filter(u => u.property_id === propertyId && u.is_active) || []
+  const upsell = propertyUpsells.find(u => u.id === upsellId)
+  // Staff can still record the order, e.g. one agreed by phone, so this only warns
+  const availabilityIssue = upsell
+    ? getAvailabilityIssue(normalizeAvailabilityRules(upsell.availability_rules), serviceDate, serviceTime || undefined)
+    : null
+
+  // A different property means a different upsell list
+  useEffect(() => {
+    setValue('upsell_id', 0)
+  }, [propertyId, setValue])
+
+  // Picking an upsell fills in its price and primary vendor, both can still be changed
+  useEffect(() => {
+    if (upsell) {
+      setValue('vendor_id', upsell.primary_vendor_id)
+      setValue('amount', upsell.price)
+    }
+  }, [upsell, setValue])
+
+  const createMutation = useMutation(
+    (data: OrderFormData) => {
+      const { payment: paymentType, payment_method, payment_reference, service_time, note, ...order } = data
+      return api.post('/orders', {
+        ...order,
+        currency: property?.currency,
+        service_time: service_time || undefined,
+        payment_method: paymentType === 'payment_link' ? 'payment_link' : payment_method,
+        payment_reference: paymentType === 'offline' ? payment_reference || undefined : undefined,
+        note: note.trim() || undefined,
+      })
+    },
+    {
+      onSuccess: (res, data) => {
+        queryClient.invalidateQueries('orders')
+        queryClient.invalidateQueries('recent-orders')
+        queryClient.invalidateQueries('dashboard-stats')
+        toast.success(data.payment === 'payment_link'
+          ? `Order created and payment link sent to ${data.guest_email}`
+          : 'Order created successfully!')
+        navigate(`/orders/${res.data.order.id}`)
+      },
+      onError: (error: any) => {
+        const message = error.response?.data?.message || 'Failed to create order'
+        toast.error(message)
+      }
+    }
+  )
+
+  const getVendorLabel = (vendor: Vendor) => {
+    if (vendor.id === upsell?.primary_vendor_id) return `${vendor.name} (primary)`
+    if (vendor.id === upsell?.secondary_vendor_id) return `${vendor.name} (secondary)`
+    return `${vendor.name} (${vendor.service_type})`
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center">
+        <button
+          onClick={() => navigate('/orders')}
+          className="mr-4 p-2 text-gray-400 hover:text-gray-600"
+        >
+          <ArrowLeft className="h-5 w-5" />
+        </button>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">New Order</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Record a booking taken by phone or at the villa
+          </p>
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit((data) => createMutation.mutate(data))} className="space-y-6">
+        <div className="card p-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Service</h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label className="label">Property *</label>
+              <select
+                {...register('property_id', { valueAsNumber: true, validate: value => value > 0 || 'Property is required' })}
+                className="input"
+              >
+                <option value={0}>Select Property</option>
+                {properties?.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.name}
+                  </option>
+                ))}
+              </select>
+              {errors.property_id && (
+                <p className="mt-1 text-sm text-danger-600">{errors.property_id.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="label">Upsell *</label>
+              <select
+                {...register('upsell_id', { valueAsNumber: true, validate: value => value > 0 || 'Upsell is required' })}
+                className="input"
+                disabled={!propertyId}
+              >
+                <option value={0}>{propertyId ? 'Select Upsell' : 'Select a property first'}</option>
+                {propertyUpsells.map((u) => (
+                  <option key={u.id} value={u.id}>
+                    {u.title} ({formatCurrency(u.price, property?.currency)})
+                  </option>
+                ))}
+              </select>
+              {errors.upsell_id && (
+                <p className="mt-1 text-sm text-danger-600">{errors.upsell_id.message}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mt-6">
+            <div>
+              <label className="label">Service Date *</label>
+              <input
+                {...register('service_date', { required: 'Service date is required' })}
+                type="date"
+                className="input"
+              />
+              {errors.service_date && (
+                <p className="mt-1 text-sm text-danger-600">{errors.service_date.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="label">Service Time</label>
+              <input {...register('service_time')} type="time" className="input" />
+              <p className="mt-1 text-xs text-gray-500">Leave empty for all-day services</p>
+            </div>
+
+            <div>
+              <label className="label">Vendor *</label>
+              <select
+                {...register('vendor_id', { valueAsNumber: true, validate: value => value > 0 || 'Vendor is required' })}
+                className="input"
+              >
+                <option value={0}>Select Vendor</option>
+                {vendors?.map((vendor) => (
+                  <option key={vendor.id} value={vendor.id}>
+                    {getVendorLabel(vendor)}
+                  </option>
+                ))}
+              </select>
+              {errors.vendor_id && (
+                <p className="mt-1 text-sm text-danger-600">{errors.vendor_id.message}</p>
+              )}
+            </div>
+          </div>
+
+          {availabilityIssue && (
+            <div className="mt-4 flex items-start rounded-lg bg-yellow-50 border border-yellow-200 p-3 text-sm text-yellow-800">
+              <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+              This upsell is not normally bookable then: {availabilityIssue}
+            </div>
+          )}
+        </div>
+
+        <div className="card p-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Guest</h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label className="label">Name *</label>
+              <input
+                {...register('guest_name', { required: 'Guest name is required' })}
+                type="text"
+                className="input"
+                placeholder="Guest full name"
+              />
+              {errors.guest_name && (
+                <p className="mt-1 text-sm text-danger-600">{errors.guest_name.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="label">Email *</label>
+              <input
+                {...register('guest_email', {
+                  required: 'Guest email is required',
+                  pattern: { value: /^[^\s@]+@[^\s@]+\.[^\s@]+$/, message: 'Invalid email address' }
+                })}
+                type="email"
+                className="input"
+                placeholder="guest@example.com"
+              />
+              {errors.guest_email && (
+                <p className="mt-1 text-sm text-danger-600">{errors.guest_email.message}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6">
+            <div>
+              <label className="label">Phone</label>
+              <input {...register('guest_phone')} type="tel" className="input" placeholder="+33 6 12 34 56 78" />
+            </div>
+
+            <div>
+              <label className="label">Booked via</label>
+              <select {...register('source')} className="input">
+                {orderSources.filter(option => option.value !== 'guest_app').map(({ value, label }) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+
+        <div className="card p-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Payment</h3>
+
+          <div className="max-w-xs">
+            <label className="label">Amount *{property ? ` (${property.currency})` : ''}</label>
+            <input
+              {...register('amount', {
+                required: 'Amount is required',
+                min: { value: 0, message: 'Amount must be positive' },
+                valueAsNumber: true
+              })}
+              type="number"
+              step="0.01"
+              className="input"
+            />
+            {errors.amount && (
+              <p className="mt-1 text-sm text-danger-600">{errors.amount.message}</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-6">
+            <label className={`flex items-start p-4 rounded-lg border cursor-pointer ${payment === 'offline' ? 'border-blue-500 bg-blue-50' : 'border-gray-200'}`}>
+              <input {...register('payment')} type="radio" value="offline" className="mt-1 h-4 w-4 text-primary-600" />
+              <div className="ml-3">
+                <p className="flex items-center text-sm font-medium text-gray-900">
+                  <Banknote className="h-4 w-4 mr-1" />
+                  Collected offline
+                </p>
+                <p className="text-xs text-gray-500">The guest already paid in cash, by transfer or on a card terminal</p>
+              </div>
+            </label>
+            <label className={`flex items-start p-4 rounded-lg border cursor-pointer ${payment === 'payment_link' ? 'border-blue-500 bg-blue-50' : 'border-gray-200'}`}>
+              <input {...register('payment')} type="radio" value="payment_link" className="mt-1 h-4 w-4 text-primary-600" />
+              <div className="ml-3">
+                <p className="flex items-center text-sm font-medium text-gray-900">
+                  <Link2 className="h-4 w-4 mr-1" />
+                  Send payment link
+                </p>
+                <p className="text-xs text-gray-500">
+                  Email the guest a Stripe link for {formatCurrency(amount || 0, property?.currency)}
+                </p>
+              </div>
+            </label>
+          </div>
+
+          {payment === 'offline' && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6">
+              <div>
+                <label className="label">Method</label>
+                <select {...register('payment_method')} className="input">
+                  {offlinePaymentMethods.map(({ value, label }) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="label">Reference</label>
+                <input
+                  {...register('payment_reference')}
+                  type="text"
+                  className="input"
+                  placeholder="Receipt or transfer reference"
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="mt-6">
+            <label className="label">Internal Note</label>
+            <textarea
+              {...register('note')}
+              rows={3}
+              className="input"
+              placeholder="e.g. Booked by phone, guest asked for a vegan menu"
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-4">
+          <button
+            type="button"
+            onClick={() => navigate('/orders')}
+            className="btn-secondary btn-md"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={createMutation.isLoading}
+            className="btn-primary btn-md"
+          >
+            <Save className="h-4 w-4 mr-2" />
+            {createMutation.isLoading ? 'Saving...' : 'Create Order'}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,393 @@
+import React, { useState } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { useQuery, useMutation, useQueryClient } from 'react-query'
+import { AlertTriangle, ArrowLeft, CheckCircle, Download, FileSpreadsheet, Upload } from 'lucide-react'
+import { api } from '../lib/api'
+import type { OrderStatus, Property, Upsell, Vendor } from '../types'
+import { parseCSV } from '../lib/csv'
+import { orderStatuses } from '../lib/orderStatus'
+import {
+  applyServerRejections,
+  buildRejectedReport,
+  getMissingRequiredFields,
+  guessMapping,
+  importFields,
+  validateImportRows,
+  type ImportMapping,
+  type ImportResult,
+  type ImportRow
+} from '../lib/orderImport'
+import { downloadCSV } from '../lib/utils'
+import toast from 'react-hot-toast'
+
+type ImportStep = 'upload' | 'map' | 'review' | 'done'
+
+const steps: { key: ImportStep; label: string }[] = [
+  { key: 'upload', label: 'Upload' },
+  { key: 'map', label: 'Map columns' },
+  { key: 'review', label: 'Review' },
+  { key: 'done', label: 'Done' },
+]
+
+// Large files are validated in full but only this many rows are rendered
+const PREVIEW_LIMIT = 200
+
+export const OrderImport: React.FC = () => {
+  const navigate = useNavigate()
+  const queryClient = useQueryClient()
+  const [step, setStep] = useState<ImportStep>('upload')
+  const [fileName, setFileName] = useState('')
+  const [headers, setHeaders] = useState<string[]>([])
+  const [dataRows, setDataRows] = useState<string[][]>([])
+  const [mapping, setMapping] = useState<ImportMapping>({})
+  const [defaultStatus, setDefaultStatus] = useState<OrderStatus>('fulfilled')
+  const [rows, setRows] = useState<ImportRow[]>([])
+  const [dryRunPassed, setDryRunPassed] = useState(false)
+  const [result, setResult] = useState<ImportResult | null>(null)
+
+  const { data: properties } = useQuery<Property[]>(
+    'properties',
+    () => api.get('/properties').then(res => res.data.properties)
+  )
+
+  const { data: upsells } = useQuery<Upsell[]>(
+    'upsells',
+    () => api.get('/upsells').then(res => res.data.upsells)
+  )
+
+  const { data: vendors } = useQuery<Vendor[]>(
+    'vendors',
+    () => api.get('/vendors').then(res => res.data.vendors)
+  )
+
+  const validRows = rows.filter(row => row.payload)
+  const rejectedRows = rows.filter(row => !row.payload)
+  const missingFields = getMissingRequiredFields(mapping)
+
+  const importMutation = useMutation(
+    (dryRun: boolean) =>
+      api.post('/orders/import', {
+        dry_run: dryRun,
+        orders: validRows.map(row => row.payload),
+      }).then(res => res.data as ImportResult),
+    {
+      onSuccess: (data, dryRun) => {
+        setRows(prev => applyServerRejections(prev, data.rejected))
+        if (dryRun) {
+          setDryRunPassed(true)
+          toast.success(`Dry run finished: ${data.imported} order${data.imported === 1 ? '' : 's'} ready to import`)
+          return
+        }
+        queryClient.invalidateQueries('orders')
+        queryClient.invalidateQueries('recent-orders')
+        queryClient.invalidateQueries('dashboard-stats')
+        setResult(data)
+        setStep('done')
+      },
+      onError: (error: any) => {
+        const message = error.response?.data?.message || 'Failed to import orders'
+        toast.error(message)
+      }
+    }
+  )
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    if (!file.name.toLowerCase().endsWith('.csv')) {
+      toast.error('Please select a CSV file')
+      return
+    }
+
+    const reader = new FileReader()
+    reader.onload = (e) => {
+      const [headerRow, ...body] = parseCSV(e.target?.result as string)
+      if (!headerRow || body.length === 0) {
+        toast.error('The file has no order rows')
+        return
+      }
+      setFileName(file.name)
+      setHeaders(headerRow)
+      setDataRows(body)
+      setMapping(guessMapping(headerRow))
+      setStep('map')
+    }
+    reader.readAsText(file)
+  }
+
+  const validate = () => {
+    setRows(validateImportRows(dataRows, mapping, {
+      properties: properties || [],
+      upsells: upsells || [],
+      vendors: vendors || [],
+      defaultStatus,
+    }))
+    setDryRunPassed(false)
+    setStep('review')
+  }
+
+  const downloadReport = () => {
+    downloadCSV(
+      buildRejectedReport(headers, rows),
+      `${fileName.replace(/\.csv$/i, '')}_rejected_rows.csv`
+    )
+  }
+
+  const currentStepIndex = steps.findIndex(s => s.key === step)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center">
+        <button
+          onClick={() => navigate('/orders')}
+          className="mr-4 p-2 text-gray-400 hover:text-gray-600"
+        >
+          <ArrowLeft className="h-5 w-5" />
+        </button>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Import Orders</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Bring in bookings from OTAs, email or other systems from a CSV file
+          </p>
+        </div>
+      </div>
+
+      <ol className="flex items-center gap-2 text-sm">
+        {steps.map((s, index) => (
+          <li key={s.key} className="flex items-center gap-2">
+            <span
+              className={`inline-flex h-6 w-6 items-center justify-center rounded-full text-xs font-medium ${
+                index <= currentStepIndex ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-600'
+              }`}
+            >
+              {index + 1}
+            </span>
+            <span className={index === currentStepIndex ? 'font-medium text-gray-900' : 'text-gray-500'}>{s.label}</span>
+            {index < steps.length - 1 && <span className="mx-1 text-gray-300">—</span>}
+          </li>
+        ))}
+      </ol>
+
+      {step === 'upload' && (
+        <div className="card p-6">
+          <div className="border-2 border-dashed border-gray-300 rounded-lg p-10 text-center">
+            <FileSpreadsheet className="mx-auto h-12 w-12 text-gray-400" />
+            <div className="mt-2">
+              <label htmlFor="csv-upload" className="cursor-pointer">
+                <span className="text-sm font-medium text-primary-600 hover:text-primary-500">
+                  Choose a CSV file
+                </span>
+                <input
+                  id="csv-upload"
+                  type="file"
+                  accept=".csv,text/csv"
+                  onChange={handleFileUpload}
+                  className="sr-only"
+                />
+              </label>
+              <p className="mt-1 text-xs text-gray-500">
+                The first row must hold column names. You will match them to order fields next.
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {step === 'map' && (
+        <div className="card p-6 space-y-6">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Map columns</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              {fileName}: {dataRows.length} row{dataRows.length === 1 ? '' : 's'}. Property, upsell and vendor are matched by name.
+            </p>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order field</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">CSV column</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">First row</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {importFields.map((field) => {
+                  const column = mapping[field.key]
+                  return (
+                    <tr key={field.key}>
+                      <td className="px-4 py-2 text-gray-900">
+                        {field.label}{field.required && ' *'}
+                      </td>
+                      <td className="px-4 py-2">
+                        <select
+                          value={column ?? ''}
+                          onChange={(e) => setMapping(prev => ({
+                            ...prev,
+                            [field.key]: e.target.value === '' ? undefined : Number(e.target.value),
+                          }))}
+                          className="input w-56"
+                        >
+                          <option value="">Not mapped</option>
+                          {headers.map((header, index) => (
+                            <option key={index} value={index}>{header}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-4 py-2 text-gray-500 truncate max-w-xs">
+                        {column !== undefined ? dataRows[0][column] : '—'}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="max-w-xs">
+            <label className="label">Status for rows without one</label>
+            <select
+              value={defaultStatus}
+              onChange={(e) => setDefaultStatus(e.target.value as OrderStatus)}
+              className="input"
+            >
+              {orderStatuses.map((status) => (
+                <option key={status} value={status}>
+                  {status.charAt(0).toUpperCase() + status.slice(1)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {missingFields.length > 0 && (
+            <p className="text-sm text-danger-600">
+              Map the required fields: {missingFields.map(field => field.label).join(', ')}
+            </p>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <button onClick={() => setStep('upload')} className="btn-secondary btn-md">
+              Back
+            </button>
+            <button
+              onClick={validate}
+              disabled={missingFields.length > 0 || !properties || !upsells || !vendors}
+              className="btn-primary btn-md"
+            >
+              Check Rows
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'review' && (
+        <div className="card p-6 space-y-6">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="rounded-lg bg-gray-50 p-4">
+              <p className="text-sm text-gray-500">Rows</p>
+              <p className="text-2xl font-bold text-gray-900">{rows.length}</p>
+            </div>
+            <div className="rounded-lg bg-green-50 p-4">
+              <p className="text-sm text-green-700">Ready to import</p>
+              <p className="text-2xl font-bold text-green-700">{validRows.length}</p>
+            </div>
+            <div className="rounded-lg bg-red-50 p-4">
+              <p className="text-sm text-red-700">With errors</p>
+              <p className="text-2xl font-bold text-red-700">{rejectedRows.length}</p>
+            </div>
+          </div>
+
+          {rejectedRows.length > 0 && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-medium text-gray-900">Rows with errors</h3>
+                <button onClick={downloadReport} className="btn-secondary btn-sm">
+                  <Download className="h-4 w-4 mr-1" />
+                  Rejected rows report
+                </button>
+              </div>
+              <ul className="border border-red-200 rounded-lg divide-y divide-red-100 max-h-80 overflow-y-auto">
+                {rejectedRows.slice(0, PREVIEW_LIMIT).map((row) => (
+                  <li key={row.line} className="px-4 py-2 text-sm">
+                    <span className="font-medium text-gray-900">Row {row.line}</span>
+                    <ul className="mt-1 list-disc list-inside text-red-700">
+                      {row.errors.map((error, index) => <li key={index}>{error}</li>)}
+                    </ul>
+                  </li>
+                ))}
+              </ul>
+              {rejectedRows.length > PREVIEW_LIMIT && (
+                <p className="mt-1 text-xs text-gray-500">
+                  Showing the first {PREVIEW_LIMIT}. Download the report for the full list.
+                </p>
+              )}
+            </div>
+          )}
+
+          {dryRunPassed ? (
+            <div className="flex items-start p-3 rounded-lg bg-green-50 border border-green-200 text-sm text-green-800">
+              <CheckCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+              The dry run passed. Nothing has been saved yet.
+            </div>
+          ) : (
+            <div className="flex items-start p-3 rounded-lg bg-yellow-50 border border-yellow-200 text-sm text-yellow-800">
+              <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+              Run a dry run first. The server checks the rows again, including duplicates, without saving anything.
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <button onClick={() => setStep('map')} className="btn-secondary btn-md">
+              Back
+            </button>
+            <button
+              onClick={() => importMutation.mutate(true)}
+              disabled={validRows.length === 0 || importMutation.isLoading}
+              className="btn-secondary btn-md"
+            >
+              {importMutation.isLoading && !dryRunPassed ? 'Checking...' : 'Dry Run'}
+            </button>
+            <button
+              onClick={() => importMutation.mutate(false)}
+              disabled={!dryRunPassed || validRows.length === 0 || importMutation.isLoading}
+              className="btn-primary btn-md"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              {importMutation.isLoading && dryRunPassed
+                ? 'Importing...'
+                : `Import ${validRows.length} Order${validRows.length === 1 ? '' : 's'}`}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'done' && result && (
+        <div className="card p-6 text-center space-y-4">
+          <CheckCircle className="mx-auto h-12 w-12 text-green-500" />
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">
+              {result.imported} order{result.imported === 1 ? '' : 's'} imported
+            </h3>
+            {rejectedRows.length > 0 && (
+              <p className="mt-1 text-sm text-gray-500">
+                {rejectedRows.length} row{rejectedRows.length === 1 ? ' was' : 's were'} rejected.
+              </p>
+            )}
+          </div>
+          <div className="flex justify-center space-x-3">
+            {rejectedRows.length > 0 && (
+              <button onClick={downloadReport} className="btn-secondary btn-md">
+                <Download className="h-4 w-4 mr-2" />
+                Rejected rows report
+              </button>
+            )}
+            <Link to="/orders" className="btn-primary btn-md">
+              View Orders
+            </Link>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
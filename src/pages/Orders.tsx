@@ -1,4 +1,6 @@
-import React, { useState, useMemo } from 'react'
+import React, { useState, useMemo, useEffect, useRef } from 'react'
+import { isValid, parseISO } from 'date-fns'
+import { Link, useNavigate } from 'react-router-dom'
 import { useQuery, useMutation, useQueryClient } from 'react-query'
 import { 
   Search, 
@@ -17,158 +19,271 @@ import {
   RefreshCw,
   ChevronDown,
   ChevronUp,
-  AlertCircle,
   CheckCircle2,
   XCircle,
   Clock3,
   Grid3X3,
-  List
+  List,
+  Kanban,
+  CalendarDays,
+  CalendarClock,
+  Link2,
+  Plus,
+  Download,
+  FileDown,
+  Upload,
+  Bell,
+  BellOff,
+  AlarmClock,
+  Keyboard,
+  X
 } from 'lucide-react'
 import { api } from '../lib/api'
-import type { Order } from '../types'
+import type { Order, OrderStatus, OrderSummary, PaginatedResponse, Property, Vendor } from '../types'
+import { OrderStatusBadge } from '../components/OrderStatusBadge'
+import { RefundBadge } from '../components/RefundBadge'
+import { UnreadNotesBadge } from '../components/UnreadNotesBadge'
+import { CurrencyTotal } from '../components/CurrencyTotal'
+import { SlaBadge } from '../components/SlaBadge'
+import { RefundOrderModal } from '../components/RefundOrderModal'
+import { DispatchOrderModal } from '../components/DispatchOrderModal'
+import { ExportOrdersModal } from '../components/ExportOrdersModal'
+import { OrderStatusActions } from '../components/OrderStatusActions'
+import { OrderBoard } from '../components/OrderBoard'
+import { OrderCalendar } from '../components/OrderCalendar'
+import { Pagination } from '../components/Pagination'
+import { SavedViewsBar } from '../components/SavedViewsBar'
+import { StatusReasonModal } from '../components/StatusReasonModal'
+import { KeyboardShortcutsHelp } from '../components/KeyboardShortcutsHelp'
+import { canInvoice, downloadInvoices } from '../lib/invoices'
+import { getSlaState } from '../lib/sla'
+import { describeConfiguration } from '../lib/upsellPricing'
+import { useOrderSlas } from '../hooks/useOrderSlas'
+import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts'
+import {
+  bulkStatusTransitions,
+  buildStatusUpdate,
+  canTransition,
+  getTransition,
+  partitionByTransition
+} from '../lib/orderStatus'
+import {
+  defaultOrderView,
+  pageSizeOptions,
+  toOrderFilters,
+  toOrderQueryParams,
+  toSavedViewState,
+  type OrderFilters,
+  type OrderViewState,
+  type OrderSortField,
+  type SortDirection
+} from '../lib/orderFilters'
+import { upsellCategories } from '../lib/categories'
+import {
+  calendarPageSize,
+  formatServiceDate,
+  getCalendarRange,
+  toDateParam,
+  type CalendarColorBy,
+  type CalendarMode
+} from '../lib/orderCalendar'
 import { formatCurrency, formatDateTime } from '../lib/utils'
+import { useDebounce } from '../hooks/useDebounce'
+import { useUrlState } from '../hooks/useUrlState'
+import { useOrderEvents } from '../contexts/OrderEventsContext'
 import toast from 'react-hot-toast'
 
+const bulkActionIcons: Record<OrderStatus, typeof CheckCircle> = {
+  pending: Clock3,
+  confirmed: CheckCircle2,
+  fulfilled: CheckCircle,
+  cancelled: XCircle,
+}
+
+interface PendingTransition {
+  orders: Order[]
+  skipped: Order[]
+  status: OrderStatus
+  bulk: boolean
+}
+
 export const Orders: React.FC = () => {
-  const [searchTerm, setSearchTerm] = useState('')
-  const [statusFilter, setStatusFilter] = useState('')
-  const [dateFilter, setDateFilter] = useState('')
-  const [vendorFilter, setVendorFilter] = useState('')
+  const [view, setView] = useUrlState(defaultOrderView)
   const [showActionsMenu, setShowActionsMenu] = useState<number | null>(null)
   const [selectedOrders, setSelectedOrders] = useState<number[]>([])
-  const [viewMode, setViewMode] = useState<'card' | 'table'>('card')
-  const [sortBy, setSortBy] = useState<'date' | 'amount' | 'status'>('date')
-  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc')
-  const [showFilters, setShowFilters] = useState(false)
+  const [showFilters, setShowFilters] = useState(Boolean(view.date || view.vendor || view.property || view.category))
+  const [refundOrder, setRefundOrder] = useState<Order | null>(null)
+  const [dispatchOrder, setDispatchOrder] = useState<Order | null>(null)
+  const [showExportModal, setShowExportModal] = useState(false)
+  const [pendingTransition, setPendingTransition] = useState<PendingTransition | null>(null)
+  const [bulkSkipped, setBulkSkipped] = useState<Order[]>([])
+  const [isDownloadingInvoices, setIsDownloadingInvoices] = useState(false)
+  const [focusedIndex, setFocusedIndex] = useState<number | null>(null)
+  const [showShortcuts, setShowShortcuts] = useState(false)
+  const searchInputRef = useRef<HTMLInputElement>(null)
+  const tableBodyRef = useRef<HTMLTableSectionElement>(null)
+  const navigate = useNavigate()
   const queryClient = useQueryClient()
+  const { status: streamStatus, soundEnabled, setSoundEnabled } = useOrderEvents()
+  const { slas } = useOrderSlas()
+  const [now, setNow] = useState(() => new Date())
 
-  const { data: orders, isLoading, refetch } = useQuery<Order[]>(
-    ['orders', statusFilter, dateFilter, vendorFilter],
-    () => {
-      const params = new URLSearchParams()
-      if (statusFilter) params.append('status', statusFilter)
-      if (dateFilter) params.append('date', dateFilter)
-      if (vendorFilter) params.append('vendor', vendorFilter)
-      return api.get(`/orders?${params.toString()}`).then(res => res.data.data)
-    }
+  // Keeps the SLA countdowns and breach highlighting current without refetching
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), 60000)
+    return () => window.clearInterval(timer)
+  }, [])
+
+  const searchTerm = view.q
+  const statusFilter = view.status
+  const dateFilter = view.date
+  const vendorFilter = view.vendor
+  const propertyFilter = view.property
+  const categoryFilter = view.category
+  const overdueFilter = view.overdue === '1'
+  const sortBy = view.sort as OrderSortField
+  const sortOrder = view.order as SortDirection
+  const viewMode = view.view as 'card' | 'table' | 'board' | 'calendar'
+  const calendarMode = view.calendar as CalendarMode
+  const calendarColorBy = view.color as CalendarColorBy
+  const page = Number(view.page) || 1
+  const perPage = Number(view.per_page) || pageSizeOptions[1]
+
+  const debouncedSearch = useDebounce(searchTerm.trim())
+  const summaryFilters: OrderFilters = { ...toOrderFilters(view), search: debouncedSearch || undefined }
+  const filters: OrderFilters = { ...summaryFilters, sortBy, sortOrder }
+
+  const { data: vendors } = useQuery<Vendor[]>(
+    'vendors',
+    () => api.get('/vendors').then(res => res.data.vendors)
+  )
+
+  const { data: properties } = useQuery<Property[]>(
+    'properties',
+    () => api.get('/properties').then(res => res.data.properties)
+  )
+
+  const { data: ordersPage, isLoading, isFetching } = useQuery<PaginatedResponse<Order>>(
+    ['orders', filters, page, perPage],
+    () => api.get(`/orders?${toOrderQueryParams(filters, page, perPage).toString()}`).then(res => res.data),
+    { keepPreviousData: true }
+  )
+
+  // Stats cover every order matching the filters, not just the loaded page
+  const { data: summary } = useQuery<OrderSummary>(
+    ['orders', 'summary', summaryFilters],
+    () => api.get(`/orders/summary?${toOrderQueryParams(summaryFilters).toString()}`).then(res => res.data)
+  )
+
+  // The calendar shows every order whose service date falls in the visible range
+  const calendarDate = useMemo(() => {
+    // A stale or hand-edited ?on= falls back to today instead of breaking the calendar
+    const parsed = view.on ? parseISO(view.on) : null
+    return parsed && isValid(parsed) ? parsed : new Date()
+  }, [view.on])
+  const calendarRange = getCalendarRange(calendarMode, calendarDate)
+  const calendarFilters: OrderFilters = {
+    ...summaryFilters,
+    serviceFrom: toDateParam(calendarRange.start),
+    serviceTo: toDateParam(calendarRange.end),
+    sortBy: 'service_date',
+    sortOrder: 'asc',
+  }
+
+  const { data: calendarOrders, isFetching: isFetchingCalendar } = useQuery<Order[]>(
+    ['orders', 'calendar', calendarFilters],
+    async () => {
+      // Busy ranges can hold more than one page, keep going until the last one
+      const rangeOrders: Order[] = []
+      let calendarPage = 1
+      let lastPage = 1
+      do {
+        const res = await api.get(`/orders?${toOrderQueryParams(calendarFilters, calendarPage, calendarPageSize).toString()}`)
+        const pageData: PaginatedResponse<Order> = res.data
+        rangeOrders.push(...pageData.data)
+        lastPage = pageData.last_page
+        calendarPage++
+      } while (calendarPage <= lastPage)
+      return rangeOrders
+    },
+    { enabled: viewMode === 'calendar', keepPreviousData: true }
   )
 
+  const orders = useMemo(() => ordersPage?.data || [], [ordersPage])
+  const stats = summary || { total: 0, revenue_by_currency: {}, pending: 0, confirmed: 0, fulfilled: 0, cancelled: 0 }
+
   const updateStatusMutation = useMutation(
-    ({ id, status }: { id: number; status: string }) => 
-      api.put(`/orders/${id}/status`, { status }),
+    ({ id, status, reason }: { id: number; status: OrderStatus; reason?: string }) =>
+      api.put(`/orders/${id}/status`, buildStatusUpdate(status, reason)),
     {
+      // Move the order straight away so the board doesn't wait on the round trip
+      onMutate: async ({ id, status }) => {
+        const queryKey = ['orders', filters, page, perPage]
+        await queryClient.cancelQueries(queryKey)
+        const previousPage = queryClient.getQueryData<PaginatedResponse<Order>>(queryKey)
+        if (previousPage) {
+          queryClient.setQueryData<PaginatedResponse<Order>>(queryKey, {
+            ...previousPage,
+            data: previousPage.data.map(order => (order.id === id ? { ...order, status } : order)),
+          })
+        }
+        return { queryKey, previousPage }
+      },
       onSuccess: () => {
-        queryClient.invalidateQueries('orders')
         toast.success('Order status updated')
         setShowActionsMenu(null)
+        setPendingTransition(null)
+      },
+      onError: (error: any, _, context) => {
+        if (context?.previousPage) {
+          queryClient.setQueryData(context.queryKey, context.previousPage)
+        }
+        const message = error.response?.data?.message || 'Failed to update order status'
+        toast.error(message)
       },
-      onError: () => {
-        toast.error('Failed to update order status')
+      onSettled: (_, __, { id }) => {
+        queryClient.invalidateQueries('orders')
+        queryClient.invalidateQueries(['order', String(id)])
       }
     }
   )
 
   const bulkUpdateMutation = useMutation(
-    ({ ids, status }: { ids: number[]; status: string }) => 
-      api.put('/orders/bulk-update', { ids, status }),
+    ({ ids, status, reason }: { ids: number[]; status: OrderStatus; reason?: string; skipped: Order[] }) =>
+      api.put('/orders/bulk-update', { ids, ...buildStatusUpdate(status, reason) }),
     {
-      onSuccess: () => {
+      onSuccess: (_, { ids, skipped }) => {
         queryClient.invalidateQueries('orders')
-        toast.success(`${selectedOrders.length} orders updated`)
+        toast.success(`${ids.length} order${ids.length > 1 ? 's' : ''} updated`)
         setSelectedOrders([])
+        setBulkSkipped(skipped)
+        setPendingTransition(null)
       },
-      onError: () => {
-        toast.error('Failed to update orders')
+      onError: (error: any) => {
+        const message = error.response?.data?.message || 'Failed to update orders'
+        toast.error(message)
       }
     }
   )
 
+  // Any filter change starts again from the first page
+  const updateFilters = (patch: Partial<OrderViewState>) => {
+    setView({ ...patch, page: '1' })
+    setSelectedOrders([])
+  }
 
-  // Advanced filtering and sorting
-  const filteredAndSortedOrders = useMemo(() => {
-    if (!orders) return []
-
-    let filtered = orders.filter(order => {
-      const matchesSearch = 
-        order.guest_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        order.guest_email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        order.upsell?.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        order.property?.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        order.vendor?.name.toLowerCase().includes(searchTerm.toLowerCase())
-
-      return matchesSearch
-    })
-
-    // Sort orders
-    filtered.sort((a, b) => {
-      let aValue, bValue
-      
-      switch (sortBy) {
-        case 'date':
-          aValue = new Date(a.created_at).getTime()
-          bValue = new Date(b.created_at).getTime()
-          break
-        case 'amount':
-          aValue = parseFloat(a.amount.toString())
-          bValue = parseFloat(b.amount.toString())
-          break
-        case 'status':
-          const statusOrder = { pending: 1, confirmed: 2, fulfilled: 3, cancelled: 4 }
-          aValue = statusOrder[a.status as keyof typeof statusOrder] || 0
-          bValue = statusOrder[b.status as keyof typeof statusOrder] || 0
-          break
-        default:
-          return 0
-      }
-
-      return sortOrder === 'asc' ? aValue - bValue : bValue - aValue
-    })
-
-    return filtered
-  }, [orders, searchTerm, sortBy, sortOrder])
-
-  // Statistics
-  const stats = useMemo(() => {
-    if (!orders) return { total: 0, revenue: 0, pending: 0, confirmed: 0, fulfilled: 0, cancelled: 0 }
-    
-    const total = orders.length
-    const revenue = orders.reduce((sum, order) => sum + parseFloat(order.amount.toString()), 0)
-    const pending = orders.filter(o => o.status === 'pending').length
-    const confirmed = orders.filter(o => o.status === 'confirmed').length
-    const fulfilled = orders.filter(o => o.status === 'fulfilled').length
-    const cancelled = orders.filter(o => o.status === 'cancelled').length
-
-    return { total, revenue, pending, confirmed, fulfilled, cancelled }
-  }, [orders])
-
-  const getStatusIcon = (status: string) => {
-    switch (status) {
-      case 'pending':
-        return <Clock3 className="h-4 w-4 text-yellow-600" />
-      case 'confirmed':
-        return <CheckCircle2 className="h-4 w-4 text-blue-600" />
-      case 'fulfilled':
-        return <CheckCircle className="h-4 w-4 text-green-600" />
-      case 'cancelled':
-        return <XCircle className="h-4 w-4 text-red-600" />
-      default:
-        return <AlertCircle className="h-4 w-4 text-gray-600" />
+  const copyViewLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      toast.success('Link to this view copied to clipboard!')
+    } catch (error) {
+      toast.error('Failed to copy link')
     }
   }
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'pending':
-        return 'bg-yellow-50 text-yellow-700 border-yellow-200'
-      case 'confirmed':
-        return 'bg-blue-50 text-blue-700 border-blue-200'
-      case 'fulfilled':
-        return 'bg-green-50 text-green-700 border-green-200'
-      case 'cancelled':
-        return 'bg-red-50 text-red-700 border-red-200'
-      default:
-        return 'bg-gray-50 text-gray-700 border-gray-200'
-    }
+  const handlePageChange = (nextPage: number) => {
+    setView({ page: String(nextPage) })
+    setSelectedOrders([])
   }
 
   const handleSelectOrder = (orderId: number) => {
@@ -180,16 +295,133 @@ export const Orders: React.FC = () => {
   }
 
   const handleSelectAll = () => {
-    if (selectedOrders.length === filteredAndSortedOrders.length) {
+    if (selectedOrders.length === orders.length) {
       setSelectedOrders([])
     } else {
-      setSelectedOrders(filteredAndSortedOrders.map(order => order.id))
+      setSelectedOrders(orders.map(order => order.id))
     }
   }
 
-  const handleBulkAction = (status: string) => {
-    if (selectedOrders.length === 0) return
-    bulkUpdateMutation.mutate({ ids: selectedOrders, status })
+  const selectedOrderObjects = useMemo(
+    () => orders.filter(order => selectedOrders.includes(order.id)),
+    [orders, selectedOrders]
+  )
+
+  const invoiceableOrders = selectedOrderObjects.filter(canInvoice)
+
+  // Orders without an invoice yet get one issued on the server as part of the download
+  const handleDownloadInvoices = async () => {
+    setIsDownloadingInvoices(true)
+    try {
+      await downloadInvoices(invoiceableOrders.map(order => order.id))
+      queryClient.invalidateQueries('orders')
+      toast.success(`Downloaded ${invoiceableOrders.length} invoice${invoiceableOrders.length === 1 ? '' : 's'}`)
+    } catch (error) {
+      toast.error('Failed to download invoices')
+    } finally {
+      setIsDownloadingInvoices(false)
+    }
+  }
+
+  const handleOrderTransition = (order: Order, status: OrderStatus) => {
+    setShowActionsMenu(null)
+    if (!canTransition(order.status, status)) {
+      toast.error(`Order #${order.id} cannot move from ${order.status} to ${status}`)
+      return
+    }
+    if (getTransition(status)?.requiresReason) {
+      setPendingTransition({ orders: [order], skipped: [], status, bulk: false })
+      return
+    }
+    updateStatusMutation.mutate({ id: order.id, status })
+  }
+
+  const handleBulkAction = (status: OrderStatus) => {
+    if (selectedOrderObjects.length === 0) return
+
+    const { valid, skipped } = partitionByTransition(selectedOrderObjects, status)
+    setBulkSkipped([])
+    if (valid.length === 0) {
+      toast.error(`None of the selected orders can be marked ${status}`)
+      setBulkSkipped(skipped)
+      return
+    }
+    if (getTransition(status)?.requiresReason) {
+      setPendingTransition({ orders: valid, skipped, status, bulk: true })
+      return
+    }
+    bulkUpdateMutation.mutate({ ids: valid.map(order => order.id), status, skipped })
+  }
+
+  const confirmPendingTransition = (reason: string) => {
+    if (!pendingTransition) return
+    const { orders: targets, skipped, status, bulk } = pendingTransition
+    if (bulk) {
+      bulkUpdateMutation.mutate({ ids: targets.map(order => order.id), status, reason, skipped })
+    } else {
+      updateStatusMutation.mutate({ id: targets[0].id, status, reason })
+    }
+  }
+
+  // Keyboard triage in the table view. Actions apply to the selection when there is one, otherwise to the focused row
+  const focusedOrder = focusedIndex !== null ? orders[focusedIndex] : undefined
+  const isModalOpen = Boolean(pendingTransition || refundOrder || dispatchOrder || showExportModal)
+
+  const handleTriageAction = (status: OrderStatus) => {
+    if (selectedOrders.length > 0) {
+      handleBulkAction(status)
+    } else if (focusedOrder) {
+      handleOrderTransition(focusedOrder, status)
+    }
+  }
+
+  const moveFocus = (offset: number) => {
+    if (orders.length === 0) return
+    setFocusedIndex(index => (index === null ? 0 : Math.min(Math.max(index + offset, 0), orders.length - 1)))
+  }
+
+  useKeyboardShortcuts(
+    showShortcuts
+      ? { '?': () => setShowShortcuts(false), Escape: () => setShowShortcuts(false) }
+      : {
+          j: () => moveFocus(1),
+          k: () => moveFocus(-1),
+          x: () => focusedOrder && handleSelectOrder(focusedOrder.id),
+          c: () => handleTriageAction('confirmed'),
+          f: () => handleTriageAction('fulfilled'),
+          d: () => handleTriageAction('cancelled'),
+          Enter: () => focusedOrder && navigate(`/orders/${focusedOrder.id}`),
+          '/': () => searchInputRef.current?.focus(),
+          '?': () => setShowShortcuts(true),
+          Escape: () => {
+            if (document.activeElement === searchInputRef.current) {
+              searchInputRef.current?.blur()
+            } else {
+              setFocusedIndex(null)
+            }
+          },
+        },
+    viewMode === 'table' && !isModalOpen
+  )
+
+  // Keep the focus on the same position when the focused order leaves the list, e.g. after confirming it
+  useEffect(() => {
+    setFocusedIndex(index => (index === null || orders.length === 0 ? null : Math.min(index, orders.length - 1)))
+  }, [orders.length])
+
+  useEffect(() => {
+    if (focusedIndex === null) return
+    tableBodyRef.current?.children[focusedIndex]?.scrollIntoView({ block: 'nearest' })
+  }, [focusedIndex])
+
+  const handleRefund = (order: Order) => {
+    setRefundOrder(order)
+    setShowActionsMenu(null)
+  }
+
+  const handleDispatch = (order: Order) => {
+    setDispatchOrder(order)
+    setShowActionsMenu(null)
   }
 
   if (isLoading) {
@@ -223,11 +455,47 @@ export const Orders: React.FC = () => {
           </p>
         </div>
         <div className="flex items-center space-x-3">
+          <span
+            className="hidden sm:inline-flex items-center text-xs font-medium text-gray-500"
+            title={streamStatus === 'open' ? 'New orders appear automatically' : 'Reconnecting to the live feed'}
+          >
+            <span className={`h-2 w-2 mr-1.5 rounded-full ${streamStatus === 'open' ? 'bg-green-500' : 'bg-gray-300'}`} />
+            {streamStatus === 'open' ? 'Live' : 'Offline'}
+          </span>
+          <button
+            onClick={() => setSoundEnabled(!soundEnabled)}
+            className="btn-secondary btn-sm sm:btn-md"
+            title={soundEnabled ? 'Mute new order sound' : 'Play a sound for new orders'}
+          >
+            {soundEnabled ? <Bell className="h-4 w-4" /> : <BellOff className="h-4 w-4" />}
+          </button>
+          <Link to="/orders/new" className="btn-primary btn-sm sm:btn-md">
+            <Plus className="h-4 w-4 sm:mr-2" />
+            <span className="hidden sm:inline">New Order</span>
+          </Link>
+          <Link to="/orders/import" className="btn-secondary btn-sm sm:btn-md">
+            <Upload className="h-4 w-4 sm:mr-2" />
+            <span className="hidden sm:inline">Import</span>
+          </Link>
+          <button
+            onClick={() => setShowExportModal(true)}
+            className="btn-secondary btn-sm sm:btn-md"
+          >
+            <Download className="h-4 w-4 sm:mr-2" />
+            <span className="hidden sm:inline">Export</span>
+          </button>
           <button
-            onClick={() => refetch()}
+            onClick={copyViewLink}
             className="btn-secondary btn-sm sm:btn-md"
           >
-            <RefreshCw className="h-4 w-4 sm:mr-2" />
+            <Link2 className="h-4 w-4 sm:mr-2" />
+            <span className="hidden sm:inline">Copy Link</span>
+          </button>
+          <button
+            onClick={() => queryClient.invalidateQueries('orders')}
+            className="btn-secondary btn-sm sm:btn-md"
+          >
+            <RefreshCw className={`h-4 w-4 sm:mr-2 ${isFetching ? 'animate-spin' : ''}`} />
             <span className="hidden sm:inline">Refresh</span>
           </button>
         </div>
@@ -251,9 +519,7 @@ export const Orders: React.FC = () => {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm font-medium text-gray-600">Total Revenue</p>
-              <p className="text-2xl font-bold text-gray-900">
-                {formatCurrency(stats.revenue)}
-              </p>
+              <CurrencyTotal amounts={stats.revenue_by_currency} className="text-2xl font-bold text-gray-900" />
             </div>
             <div className="h-12 w-12 bg-green-100 rounded-lg flex items-center justify-center">
               <DollarSign className="h-6 w-6 text-green-600" />
@@ -301,7 +567,7 @@ export const Orders: React.FC = () => {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-xs font-medium text-gray-600">Revenue</p>
-              <p className="text-lg font-bold text-gray-900">{formatCurrency(stats.revenue)}</p>
+              <CurrencyTotal amounts={stats.revenue_by_currency} className="text-lg font-bold text-gray-900" compact />
             </div>
             <DollarSign className="h-5 w-5 text-green-600" />
           </div>
@@ -314,35 +580,66 @@ export const Orders: React.FC = () => {
           <h3 className="text-lg font-semibold text-gray-900">Search & Filter</h3>
           <div className="flex items-center space-x-2">
             <button
-              onClick={() => setViewMode('card')}
+              onClick={() => setView({ view: 'card' })}
               className={`p-2 rounded-lg ${viewMode === 'card' ? 'bg-blue-100 text-blue-600' : 'text-gray-400 hover:text-gray-600'}`}
             >
               <Grid3X3 className="h-4 w-4" />
             </button>
             <button
-              onClick={() => setViewMode('table')}
+              onClick={() => setView({ view: 'table' })}
               className={`p-2 rounded-lg ${viewMode === 'table' ? 'bg-blue-100 text-blue-600' : 'text-gray-400 hover:text-gray-600'}`}
             >
               <List className="h-4 w-4" />
             </button>
+            <button
+              onClick={() => setView({ view: 'board' })}
+              className={`p-2 rounded-lg ${viewMode === 'board' ? 'bg-blue-100 text-blue-600' : 'text-gray-400 hover:text-gray-600'}`}
+              title="Board"
+            >
+              <Kanban className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => setView({ view: 'calendar' })}
+              className={`p-2 rounded-lg ${viewMode === 'calendar' ? 'bg-blue-100 text-blue-600' : 'text-gray-400 hover:text-gray-600'}`}
+              title="Calendar"
+            >
+              <CalendarDays className="h-4 w-4" />
+            </button>
+            {viewMode === 'table' && (
+              <button
+                onClick={() => setShowShortcuts(true)}
+                className="p-2 rounded-lg text-gray-400 hover:text-gray-600"
+                title="Keyboard shortcuts (?)"
+              >
+                <Keyboard className="h-4 w-4" />
+              </button>
+            )}
           </div>
         </div>
 
+        <div className="mb-4">
+          <SavedViewsBar
+            currentView={toSavedViewState(view)}
+            onApply={(filters) => updateFilters({ ...toSavedViewState(defaultOrderView), ...filters })}
+          />
+        </div>
+
         <div className="flex flex-col sm:flex-row gap-4 mb-4">
           <div className="flex-1 relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
             <input
               type="text"
-              placeholder="Search orders, guests, services..."
+              ref={searchInputRef}
+              placeholder="Search orders, guests, services, notes..."
               value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
+              onChange={(e) => updateFilters({ q: e.target.value })}
               className="input pl-10 w-full"
             />
           </div>
           <div className="flex gap-2">
             <select
               value={statusFilter}
-              onChange={(e) => setStatusFilter(e.target.value)}
+              onChange={(e) => updateFilters({ status: e.target.value })}
               className="input w-32 sm:w-40"
             >
               <option value="">All Status</option>
@@ -353,15 +650,16 @@ export const Orders: React.FC = () => {
             </select>
             <select
               value={sortBy}
-              onChange={(e) => setSortBy(e.target.value as 'date' | 'amount' | 'status')}
+              onChange={(e) => updateFilters({ sort: e.target.value })}
               className="input w-24 sm:w-32"
             >
               <option value="date">Date</option>
+              <option value="service_date">Service Date</option>
               <option value="amount">Amount</option>
               <option value="status">Status</option>
             </select>
             <button
-              onClick={() => setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc')}
+              onClick={() => updateFilters({ order: sortOrder === 'asc' ? 'desc' : 'asc' })}
               className="btn-secondary btn-sm"
             >
               {sortOrder === 'asc' ? <TrendingUp className="h-4 w-4" /> : <TrendingDown className="h-4 w-4" />}
@@ -369,14 +667,27 @@ export const Orders: React.FC = () => {
           </div>
         </div>
 
-        <button
-          onClick={() => setShowFilters(!showFilters)}
-          className="btn-secondary btn-sm"
-        >
-          <Filter className="h-4 w-4 mr-2" />
-          {showFilters ? 'Hide' : 'Show'} Filters
-          {showFilters ? <ChevronUp className="h-4 w-4 ml-2" /> : <ChevronDown className="h-4 w-4 ml-2" />}
-        </button>
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            className="btn-secondary btn-sm"
+          >
+            <Filter className="h-4 w-4 mr-2" />
+            {showFilters ? 'Hide' : 'Show'} Filters
+            {showFilters ? <ChevronUp className="h-4 w-4 ml-2" /> : <ChevronDown className="h-4 w-4 ml-2" />}
+          </button>
+          <button
+            onClick={() => updateFilters({ overdue: overdueFilter ? '' : '1' })}
+            className={`btn-sm ${
+              overdueFilter ? 'btn-danger' : 'btn border border-danger-200 bg-white text-danger-700 hover:bg-danger-50'
+            }`}
+            title="Orders past their SLA"
+          >
+            <AlarmClock className="h-4 w-4 mr-2" />
+            Overdue
+            {!overdueFilter && summary?.overdue !== undefined && ` (${summary.overdue})`}
+          </button>
+        </div>
 
         {showFilters && (
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 pt-4 border-t border-gray-200 mt-4">
@@ -384,7 +695,7 @@ export const Orders: React.FC = () => {
               <label className="block text-sm font-medium text-gray-700 mb-2">Date Range</label>
               <select
                 value={dateFilter}
-                onChange={(e) => setDateFilter(e.target.value)}
+                onChange={(e) => updateFilters({ date: e.target.value })}
                 className="input w-full"
               >
                 <option value="">All Time</option>
@@ -397,11 +708,45 @@ export const Orders: React.FC = () => {
               <label className="block text-sm font-medium text-gray-700 mb-2">Vendor</label>
               <select
                 value={vendorFilter}
-                onChange={(e) => setVendorFilter(e.target.value)}
+                onChange={(e) => updateFilters({ vendor: e.target.value })}
                 className="input w-full"
               >
                 <option value="">All Vendors</option>
-                {/* Add vendor options here */}
+                {vendors?.map((vendor) => (
+                  <option key={vendor.id} value={vendor.id}>
+                    {vendor.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Property</label>
+              <select
+                value={propertyFilter}
+                onChange={(e) => updateFilters({ property: e.target.value })}
+                className="input w-full"
+              >
+                <option value="">All Properties</option>
+                {properties?.map((property) => (
+                  <option key={property.id} value={property.id}>
+                    {property.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Category</label>
+              <select
+                value={categoryFilter}
+                onChange={(e) => updateFilters({ category: e.target.value })}
+                className="input w-full"
+              >
+                <option value="">All Categories</option>
+                {upsellCategories.map((category) => (
+                  <option key={category} value={category}>
+                    {category.charAt(0).toUpperCase() + category.slice(1)}
+                  </option>
+                ))}
               </select>
             </div>
           </div>
@@ -416,146 +761,171 @@ export const Orders: React.FC = () => {
               {selectedOrders.length} order{selectedOrders.length > 1 ? 's' : ''} selected
             </span>
             <div className="flex flex-wrap items-center gap-2">
+              {bulkStatusTransitions.map((transition) => {
+                const eligible = selectedOrderObjects.filter(order => canTransition(order.status, transition.to)).length
+                const Icon = bulkActionIcons[transition.to]
+                return (
+                  <button
+                    key={transition.to}
+                    onClick={() => handleBulkAction(transition.to)}
+                    disabled={eligible === 0 || bulkUpdateMutation.isLoading}
+                    title={`${eligible} of ${selectedOrderObjects.length} selected orders can be marked ${transition.to}`}
+                    className="btn-secondary btn-sm"
+                  >
+                    <Icon className="h-4 w-4 mr-1" />
+                    {transition.bulkLabel}
+                    {eligible !== selectedOrderObjects.length && ` (${eligible})`}
+                  </button>
+                )
+              })}
               <button
-                onClick={() => handleBulkAction('confirmed')}
-                className="btn-secondary btn-sm"
-              >
-                <CheckCircle2 className="h-4 w-4 mr-1" />
-                Confirm
-              </button>
-              <button
-                onClick={() => handleBulkAction('fulfilled')}
-                className="btn-secondary btn-sm"
-              >
-                <CheckCircle className="h-4 w-4 mr-1" />
-                Fulfill
-              </button>
-              <button
-                onClick={() => handleBulkAction('cancelled')}
+                onClick={handleDownloadInvoices}
+                disabled={invoiceableOrders.length === 0 || isDownloadingInvoices}
+                title={`${invoiceableOrders.length} of ${selectedOrderObjects.length} selected orders can be invoiced; cancelled orders and orders awaiting payment are left out`}
                 className="btn-secondary btn-sm"
               >
-                <XCircle className="h-4 w-4 mr-1" />
-                Cancel
+                <FileDown className="h-4 w-4 mr-1" />
+                {isDownloadingInvoices ? 'Preparing...' : 'Download invoices'}
+                {invoiceableOrders.length !== selectedOrderObjects.length && ` (${invoiceableOrders.length})`}
               </button>
             </div>
           </div>
         </div>
       )}
 
+      {bulkSkipped.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <div className="flex items-start justify-between gap-4">
+            <div className="text-sm text-yellow-800">
+              <p className="font-medium">
+                {bulkSkipped.length} order{bulkSkipped.length > 1 ? 's were' : ' was'} skipped because the status change is not allowed:
+              </p>
+              <p className="mt-1">
+                {bulkSkipped.map(order => `#${order.id} (${order.status})`).join(', ')}
+              </p>
+            </div>
+            <button onClick={() => setBulkSkipped([])} className="text-yellow-600 hover:text-yellow-800">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Orders Display */}
-      {viewMode === 'card' ? (
+      {viewMode === 'calendar' ? (
+        <OrderCalendar
+          orders={calendarOrders || []}
+          mode={calendarMode}
+          date={calendarDate}
+          colorBy={calendarColorBy}
+          isFetching={isFetchingCalendar}
+          onModeChange={(mode, day) => setView({ calendar: mode, ...(day && { on: toDateParam(day) }) })}
+          onDateChange={(day) => setView({ on: day ? toDateParam(day) : '' })}
+          onColorByChange={(colorBy) => setView({ color: colorBy })}
+        />
+      ) : viewMode === 'board' ? (
+        <OrderBoard orders={orders} summary={summary} onMove={handleOrderTransition} />
+      ) : viewMode === 'card' ? (
         /* Card View */
         <div className="space-y-4">
-          {filteredAndSortedOrders.map((order) => (
-            <div key={order.id} className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 sm:p-6">
-              <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
-                <div className="flex-1">
-                  <div className="flex flex-col sm:flex-row sm:items-center gap-2 mb-3">
-                    <div className="flex items-center">
-                      <div className="h-8 w-8 bg-gray-100 rounded-full flex items-center justify-center mr-3">
-                        <User className="h-4 w-4 text-gray-600" />
+          {orders.map((order) => {
+            const slaState = getSlaState(order, slas, now)
+            return (
+              <div
+                key={order.id}
+                className={`bg-white rounded-xl shadow-sm border p-4 sm:p-6 ${
+                  slaState?.isBreached ? 'border-red-300 ring-1 ring-red-200' : 'border-gray-200'
+                }`}
+              >
+                <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+                  <div className="flex-1">
+                    <div className="flex flex-col sm:flex-row sm:items-center gap-2 mb-3">
+                      <div className="flex items-center">
+                        <div className="h-8 w-8 bg-gray-100 rounded-full flex items-center justify-center mr-3">
+                          <User className="h-4 w-4 text-gray-600" />
+                        </div>
+                        <div>
+                          <h3 className="text-sm font-semibold text-gray-900">{order.guest_name}</h3>
+                          <p className="text-xs text-gray-500">{order.guest_email}</p>
+                        </div>
                       </div>
+                      <OrderStatusBadge status={order.status} />
+                      <RefundBadge order={order} />
+                      <SlaBadge order={order} state={slaState} />
+                      <UnreadNotesBadge order={order} />
+                    </div>
+                    
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 text-sm">
                       <div>
-                        <h3 className="text-sm font-semibold text-gray-900">{order.guest_name}</h3>
-                        <p className="text-xs text-gray-500">{order.guest_email}</p>
+                        <span className="font-medium text-gray-600">Service:</span>
+                        <p className="text-gray-900">{order.upsell?.title}</p>
+                        {order.bundle && (
+                          <p className="text-xs text-purple-700">Part of {order.bundle.title}</p>
+                        )}
+                        {order.configuration && (
+                          <p className="text-xs text-gray-500">{describeConfiguration(order.configuration)}</p>
+                        )}
+                      </div>
+                      <div>
+                        <span className="font-medium text-gray-600">Property:</span>
+                        <p className="text-gray-900">{order.property?.name}</p>
+                      </div>
+                      <div>
+                        <span className="font-medium text-gray-600">Vendor:</span>
+                        <p className="text-gray-900">{order.vendor?.name}</p>
                       </div>
                     </div>
-                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${getStatusColor(order.status)}`}>
-                      {getStatusIcon(order.status)}
-                      <span className="ml-1 capitalize">{order.status}</span>
-                    </span>
-                  </div>
-                  
-                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 text-sm">
-                    <div>
-                      <span className="font-medium text-gray-600">Service:</span>
-                      <p className="text-gray-900">{order.upsell?.title}</p>
-                    </div>
-                    <div>
-                      <span className="font-medium text-gray-600">Property:</span>
-                      <p className="text-gray-900">{order.property?.name}</p>
-                    </div>
-                    <div>
-                      <span className="font-medium text-gray-600">Vendor:</span>
-                      <p className="text-gray-900">{order.vendor?.name}</p>
-                    </div>
-                  </div>
 
-                  <div className="flex flex-col sm:flex-row sm:items-center gap-2 mt-4 text-sm text-gray-500">
-                    <div className="flex items-center">
-                      <Calendar className="h-4 w-4 mr-1" />
-                      <span>{formatDateTime(order.created_at)}</span>
-                    </div>
-                    <div className="flex items-center">
-                      <DollarSign className="h-4 w-4 mr-1" />
-                      <span className="font-semibold text-gray-900">
-                        {formatCurrency(order.amount, order.currency)}
-                      </span>
+                    <div className="flex flex-col sm:flex-row sm:items-center gap-2 mt-4 text-sm text-gray-500">
+                      <div className="flex items-center">
+                        <Calendar className="h-4 w-4 mr-1" />
+                        <span>{formatDateTime(order.created_at)}</span>
+                      </div>
+                      {order.service_date && (
+                        <div className="flex items-center" title="Service date">
+                          <CalendarClock className="h-4 w-4 mr-1" />
+                          <span>{formatServiceDate(order)}</span>
+                        </div>
+                      )}
+                      <div className="flex items-center">
+                        <DollarSign className="h-4 w-4 mr-1" />
+                        <span className="font-semibold text-gray-900">
+                          {formatCurrency(order.amount, order.currency)}
+                        </span>
+                      </div>
                     </div>
                   </div>
-                </div>
-                
-                <div className="flex items-center justify-end gap-2">
-                  <button className="text-blue-600 hover:text-blue-900 p-2">
-                    <Eye className="h-4 w-4" />
-                  </button>
-                  <div className="relative">
-                    <button
-                      onClick={() => setShowActionsMenu(
-                        showActionsMenu === order.id ? null : order.id
-                      )}
-                      className="p-2 text-gray-400 hover:text-gray-600"
-                    >
-                      <MoreVertical className="h-4 w-4" />
-                    </button>
-                    
-                    {showActionsMenu === order.id && (
-                      <div className="absolute right-0 mt-2 w-48 bg-white rounded-md shadow-lg z-10 border border-gray-200">
-                        <div className="py-1">
-                          {order.status === 'pending' && (
-                            <button
-                              onClick={() => updateStatusMutation.mutate({ 
-                                id: order.id, 
-                                status: 'confirmed' 
-                              })}
-                              className="flex items-center w-full px-4 py-2 text-sm text-blue-600 hover:bg-blue-50"
-                            >
-                              <CheckCircle2 className="h-4 w-4 mr-2" />
-                              Confirm Order
-                            </button>
-                          )}
-                          {order.status === 'confirmed' && (
-                            <button
-                              onClick={() => updateStatusMutation.mutate({ 
-                                id: order.id, 
-                                status: 'fulfilled' 
-                              })}
-                              className="flex items-center w-full px-4 py-2 text-sm text-green-600 hover:bg-green-50"
-                            >
-                              <CheckCircle className="h-4 w-4 mr-2" />
-                              Mark Fulfilled
-                            </button>
-                          )}
-                          {(order.status === 'pending' || order.status === 'confirmed') && (
-                            <button
-                              onClick={() => updateStatusMutation.mutate({ 
-                                id: order.id, 
-                                status: 'cancelled' 
-                              })}
-                              className="flex items-center w-full px-4 py-2 text-sm text-red-600 hover:bg-red-50"
-                            >
-                              <XCircle className="h-4 w-4 mr-2" />
-                              Cancel Order
-                            </button>
-                          )}
+                  
+                  <div className="flex items-center justify-end gap-2">
+                    <Link to={`/orders/${order.id}`} className="text-blue-600 hover:text-blue-900 p-2">
+                      <Eye className="h-4 w-4" />
+                    </Link>
+                    <div className="relative">
+                      <button
+                        onClick={() => setShowActionsMenu(
+                          showActionsMenu === order.id ? null : order.id
+                        )}
+                        className="p-2 text-gray-400 hover:text-gray-600"
+                      >
+                        <MoreVertical className="h-4 w-4" />
+                      </button>
+                      
+                      {showActionsMenu === order.id && (
+                        <div className="absolute right-0 mt-2 w-48 bg-white rounded-md shadow-lg z-10 border border-gray-200">
+                          <OrderStatusActions
+                            order={order}
+                            onTransition={handleOrderTransition}
+                            onRefund={handleRefund}
+                            onDispatch={handleDispatch}
+                          />
                         </div>
-                      </div>
-                    )}
+                      )}
+                    </div>
                   </div>
                 </div>
               </div>
-            </div>
-          ))}
+            )
+          })}
         </div>
       ) : (
         /* Table View - Desktop Only */
@@ -567,7 +937,7 @@ export const Orders: React.FC = () => {
                   <th className="px-6 py-3 text-left">
                     <input
                       type="checkbox"
-                      checked={selectedOrders.length === filteredAndSortedOrders.length && filteredAndSortedOrders.length > 0}
+                      checked={selectedOrders.length === orders.length && orders.length > 0}
                       onChange={handleSelectAll}
                       className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                     />
@@ -598,142 +968,182 @@ export const Orders: React.FC = () => {
                   </th>
                 </tr>
               </thead>
-              <tbody className="bg-white divide-y divide-gray-200">
-                {filteredAndSortedOrders.map((order) => (
-                  <tr key={order.id} className="hover:bg-gray-50">
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <input
-                        type="checkbox"
-                        checked={selectedOrders.includes(order.id)}
-                        onChange={() => handleSelectOrder(order.id)}
-                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                      />
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm font-medium text-gray-900">
-                        #{order.id}
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center">
-                        <div className="h-8 w-8 bg-gray-200 rounded-full flex items-center justify-center mr-3">
-                          <User className="h-4 w-4 text-gray-600" />
+              <tbody ref={tableBodyRef} className="bg-white divide-y divide-gray-200">
+                {orders.map((order, index) => {
+                  const slaState = getSlaState(order, slas, now)
+                  const isFocused = focusedIndex === index
+                  return (
+                    <tr
+                      key={order.id}
+                      onClick={() => setFocusedIndex(index)}
+                      className={
+                        isFocused
+                          ? 'bg-blue-50'
+                          : slaState?.isBreached ? 'bg-red-50 hover:bg-red-100' : 'hover:bg-gray-50'
+                      }
+                    >
+                      <td className={`px-6 py-4 whitespace-nowrap border-l-4 ${isFocused ? 'border-blue-500' : 'border-transparent'}`}>
+                        <input
+                          type="checkbox"
+                          checked={selectedOrders.includes(order.id)}
+                          onChange={() => handleSelectOrder(order.id)}
+                          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center gap-2">
+                          <Link to={`/orders/${order.id}`} className="text-sm font-medium text-gray-900 hover:text-blue-600">
+                            #{order.id}
+                          </Link>
+                          <UnreadNotesBadge order={order} />
                         </div>
-                        <div>
-                          <div className="text-sm font-medium text-gray-900">
-                            {order.guest_name}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center">
+                          <div className="h-8 w-8 bg-gray-200 rounded-full flex items-center justify-center mr-3">
+                            <User className="h-4 w-4 text-gray-600" />
                           </div>
-                          <div className="text-sm text-gray-500 flex items-center">
-                            <Mail className="h-3 w-3 mr-1" />
-                            {order.guest_email}
+                          <div>
+                            <div className="text-sm font-medium text-gray-900">
+                              {order.guest_name}
+                            </div>
+                            <div className="text-sm text-gray-500 flex items-center">
+                              <Mail className="h-3 w-3 mr-1" />
+                              {order.guest_email}
+                            </div>
                           </div>
                         </div>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm text-gray-900">{order.upsell?.title}</div>
-                      <div className="text-sm text-gray-500 flex items-center">
-                        <MapPin className="h-3 w-3 mr-1" />
-                        {order.property?.name}
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm text-gray-900">{order.vendor?.name}</div>
-                      <div className="text-sm text-gray-500">{order.vendor?.service_type}</div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${getStatusColor(order.status)}`}>
-                        {getStatusIcon(order.status)}
-                        <span className="ml-1 capitalize">{order.status}</span>
-                      </span>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm font-semibold text-gray-900">
-                        {formatCurrency(order.amount, order.currency)}
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm text-gray-900">
-                        {formatDateTime(order.created_at)}
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                      <div className="flex items-center justify-end space-x-2">
-                        <button className="text-blue-600 hover:text-blue-900">
-                          <Eye className="h-4 w-4" />
-                        </button>
-                        <div className="relative">
-                          <button
-                            onClick={() => setShowActionsMenu(
-                              showActionsMenu === order.id ? null : order.id
-                            )}
-                            className="text-gray-400 hover:text-gray-600"
-                          >
-                            <MoreVertical className="h-4 w-4" />
-                          </button>
-                          
-                          {showActionsMenu === order.id && (
-                            <div className="absolute right-0 mt-2 w-48 bg-white rounded-md shadow-lg z-10 border border-gray-200">
-                              <div className="py-1">
-                                {order.status === 'pending' && (
-                                  <button
-                                    onClick={() => updateStatusMutation.mutate({ 
-                                      id: order.id, 
-                                      status: 'confirmed' 
-                                    })}
-                                    className="flex items-center w-full px-4 py-2 text-sm text-blue-600 hover:bg-blue-50"
-                                  >
-                                    <CheckCircle2 className="h-4 w-4 mr-2" />
-                                    Confirm Order
-                                  </button>
-                                )}
-                                {order.status === 'confirmed' && (
-                                  <button
-                                    onClick={() => updateStatusMutation.mutate({ 
-                                      id: order.id, 
-                                      status: 'fulfilled' 
-                                    })}
-                                    className="flex items-center w-full px-4 py-2 text-sm text-green-600 hover:bg-green-50"
-                                  >
-                                    <CheckCircle className="h-4 w-4 mr-2" />
-                                    Mark Fulfilled
-                                  </button>
-                                )}
-                                {(order.status === 'pending' || order.status === 'confirmed') && (
-                                  <button
-                                    onClick={() => updateStatusMutation.mutate({ 
-                                      id: order.id, 
-                                      status: 'cancelled' 
-                                    })}
-                                    className="flex items-center w-full px-4 py-2 text-sm text-red-600 hover:bg-red-50"
-                                  >
-                                    <XCircle className="h-4 w-4 mr-2" />
-                                    Cancel Order
-                                  </button>
-                                )}
-                              </div>
-                            </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm text-gray-900">
+                          {order.upsell?.title}
+                          {order.bundle && (
+                            <span
+                              className="ml-2 inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium bg-purple-100 text-purple-800"
+                              title={`Part of the ${order.bundle.title} package`}
+                            >
+                              Package
+                            </span>
                           )}
                         </div>
-                      </div>
-                    </td>
-                  </tr>
-                ))}
+                        {order.configuration && (
+                          <div className="text-xs text-gray-500 truncate max-w-xs">{describeConfiguration(order.configuration)}</div>
+                        )}
+                        <div className="text-sm text-gray-500 flex items-center">
+                          <MapPin className="h-3 w-3 mr-1" />
+                          {order.property?.name}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm text-gray-900">{order.vendor?.name}</div>
+                        <div className="text-sm text-gray-500">{order.vendor?.service_type}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex flex-col items-start gap-1">
+                          <OrderStatusBadge status={order.status} />
+                          <RefundBadge order={order} />
+                          <SlaBadge order={order} state={slaState} />
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-semibold text-gray-900">
+                          {formatCurrency(order.amount, order.currency)}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm text-gray-900">
+                          {formatDateTime(order.created_at)}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        <div className="flex items-center justify-end space-x-2">
+                          <Link to={`/orders/${order.id}`} className="text-blue-600 hover:text-blue-900">
+                            <Eye className="h-4 w-4" />
+                          </Link>
+                          <div className="relative">
+                            <button
+                              onClick={() => setShowActionsMenu(
+                                showActionsMenu === order.id ? null : order.id
+                              )}
+                              className="text-gray-400 hover:text-gray-600"
+                            >
+                              <MoreVertical className="h-4 w-4" />
+                            </button>
+                            
+                            {showActionsMenu === order.id && (
+                              <div className="absolute right-0 mt-2 w-48 bg-white rounded-md shadow-lg z-10 border border-gray-200">
+                                <OrderStatusActions
+                                  order={order}
+                                  onTransition={handleOrderTransition}
+                                  onRefund={handleRefund}
+                                  onDispatch={handleDispatch}
+                                />
+                              </div>
+                            )}
+                          </div>
+                        </div>
+                      </td>
+                    </tr>
+                  )
+                })}
               </tbody>
             </table>
           </div>
         </div>
       )}
 
-      {filteredAndSortedOrders.length === 0 && (
+      {viewMode !== 'calendar' && ordersPage && ordersPage.total > 0 && (
+        <Pagination
+          currentPage={ordersPage.current_page}
+          lastPage={ordersPage.last_page}
+          perPage={ordersPage.per_page}
+          total={ordersPage.total}
+          pageSizeOptions={pageSizeOptions}
+          onPageChange={handlePageChange}
+          onPerPageChange={(size) => updateFilters({ per_page: String(size) })}
+        />
+      )}
+
+      {viewMode !== 'calendar' && orders.length === 0 && (
         <div className="text-center py-12">
           <ShoppingCart className="mx-auto h-12 w-12 text-gray-400" />
           <h3 className="mt-2 text-sm font-medium text-gray-900">No orders found</h3>
           <p className="mt-1 text-sm text-gray-500">
-            {searchTerm || statusFilter ? 'No orders match your search criteria.' : 'Orders will appear here when guests make purchases.'}
+            {searchTerm || statusFilter || dateFilter || vendorFilter || propertyFilter || categoryFilter || overdueFilter ? 'No orders match your search criteria.' : 'Orders will appear here when guests make purchases.'}
           </p>
         </div>
       )}
+
+      {pendingTransition && (
+        <StatusReasonModal
+          status={pendingTransition.status}
+          orderCount={pendingTransition.orders.length}
+          isLoading={updateStatusMutation.isLoading || bulkUpdateMutation.isLoading}
+          onConfirm={confirmPendingTransition}
+          onClose={() => setPendingTransition(null)}
+        />
+      )}
+
+      {refundOrder && (
+        <RefundOrderModal order={refundOrder} onClose={() => setRefundOrder(null)} />
+      )}
+
+      {dispatchOrder && (
+        <DispatchOrderModal order={dispatchOrder} onClose={() => setDispatchOrder(null)} />
+      )}
+
+      {showShortcuts && (
+        <KeyboardShortcutsHelp onClose={() => setShowShortcuts(false)} />
+      )}
+
+      {showExportModal && (
+        <ExportOrdersModal
+          filters={filters}
+          matchingCount={ordersPage?.total ?? stats.total}
+          selectedIds={selectedOrders}
+          onClose={() => setShowExportModal(false)}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
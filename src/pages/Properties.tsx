@@ -14,11 +14,15 @@ import {
 } from 'lucide-react'
 import { api } from '../lib/api'
 import type { Property } from '../types'
+import { useUrlState } from '../hooks/useUrlState'
 import toast from 'react-hot-toast'
 // import { useAuth } from '../contexts/AuthContext'
 
+const defaultListView = { q: '' }
+
 export const Properties: React.FC = () => {
-  const [searchTerm, setSearchTerm] = useState('')
+  const [view, setView] = useUrlState(defaultListView)
+  const searchTerm = view.q
   const [showActionsMenu, setShowActionsMenu] = useState<number | null>(null)
   const queryClient = useQueryClient()
   // const { user, token } = useAuth()
@@ -108,7 +112,7 @@ export const Properties: React.FC = () => {
               type="text"
               placeholder="Search properties, descriptions..."
               value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
+              onChange={(e) => setView({ q: e.target.value })}
               className="input pl-10 w-full"
             />
           </div>
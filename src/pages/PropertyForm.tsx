@@ -4,12 +4,16 @@ import { useForm } from 'react-hook-form'
 import { useQuery, useMutation, useQueryClient } from 'react-query'
 import { ArrowLeft, Upload, X, Copy, ExternalLink, Trash2 } from 'lucide-react'
 import { api } from '../lib/api'
-import type { Property } from '../types'
+import type { Property, Translations } from '../types'
+import { currencies } from '../lib/currency'
+import { cleanTranslations, languages } from '../lib/translations'
+import { TranslationEditor } from '../components/TranslationEditor'
 import toast from 'react-hot-toast'
 
 interface PropertyFormData {
   name: string
   description: string
+  translations: Translations<{ description: string }>
   instagram_url: string
   language: string
   currency: string
@@ -25,28 +29,18 @@ interface PropertyFormData {
     account_holder_name?: string
     instructions?: string
   }
+  invoice_settings?: {
+    legal_name?: string
+    address?: string
+    tax_id?: string
+    tax_label?: string
+    tax_rate?: number
+    prices_include_tax?: boolean
+    number_prefix?: string
+    footer?: string
+  }
 }
 
-const languages = [
-  { code: 'en', name: 'English' },
-  { code: 'es', name: 'Spanish' },
-  { code: 'fr', name: 'French' },
-  { code: 'de', name: 'German' },
-  { code: 'it', name: 'Italian' },
-  { code: 'pt', name: 'Portuguese' },
-  { code: 'nl', name: 'Dutch' },
-]
-
-const currencies = [
-  { code: 'USD', name: 'US Dollar' },
-  { code: 'EUR', name: 'Euro' },
-  { code: 'GBP', name: 'British Pound' },
-  { code: 'CAD', name: 'Canadian Dollar' },
-  { code: 'AUD', name: 'Australian Dollar' },
-  { code: 'CHF', name: 'Swiss Franc' },
-  { code: 'JPY', name: 'Japanese Yen' },
-]
-
 export const PropertyForm: React.FC = () => {
   const { id } = useParams<{ id: string }>()
   const navigate = useNavigate()
@@ -61,6 +55,7 @@ export const PropertyForm: React.FC = () => {
     defaultValues: {
       name: '',
       description: '',
+      translations: {},
       instagram_url: '',
       language: 'en',
       currency: 'USD',
@@ -75,10 +70,20 @@ export const PropertyForm: React.FC = () => {
         account_holder_name: '',
         instructions: '',
       },
+      invoice_settings: {
+        legal_name: '',
+        address: '',
+        tax_id: '',
+        tax_label: '',
+        prices_include_tax: true,
+        number_prefix: '',
+        footer: '',
+      },
     }
   })
 
   const watchedTags = watch('tags')
+  const watchedTranslations = watch('translations')
 
   // Fetch property data if editing
   const { data: property, isLoading } = useQuery<Property>(
@@ -93,6 +98,7 @@ export const PropertyForm: React.FC = () => {
       
       setValue('name', property.name)
       setValue('description', property.description || '')
+      setValue('translations', property.translations || {})
       setValue('instagram_url', property.instagram_url || '')
       setValue('language', property.language)
       setValue('currency', property.currency)
@@ -107,6 +113,16 @@ export const PropertyForm: React.FC = () => {
         account_holder_name: '',
         instructions: '',
       })
+      setValue('invoice_settings', {
+        legal_name: '',
+        address: '',
+        tax_id: '',
+        tax_label: '',
+        prices_include_tax: true,
+        number_prefix: '',
+        footer: '',
+        ...property.invoice_settings,
+      })
       
       if (property.hero_image_url) {
         setImagePreview(property.hero_image_url)
@@ -184,6 +200,7 @@ export const PropertyForm: React.FC = () => {
 
       const submitData = {
         ...data,
+        translations: cleanTranslations(data.translations, data.language),
         hero_image_url: imageUrl,
       }
 
@@ -454,6 +471,20 @@ export const PropertyForm: React.FC = () => {
           </div>
         </div>
 
+        <div className="card p-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-1">Translations</h3>
+          <p className="text-sm text-gray-500 mb-4">
+            Translate the description for guests who use another language. Upsells are translated on their own pages.
+          </p>
+          <TranslationEditor
+            fields={[{ key: 'description', label: 'Description', multiline: true }]}
+            base={{ description: watch('description') }}
+            baseLanguage={watch('language')}
+            value={watchedTranslations}
+            onChange={(next) => setValue('translations', next, { shouldDirty: true })}
+          />
+        </div>
+
         <div className="card p-6">
           <h3 className="text-lg font-medium text-gray-900 mb-4">Payment Settings</h3>
           
@@ -573,6 +604,99 @@ export const PropertyForm: React.FC = () => {
           </div>
         </div>
 
+        <div className="card p-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Invoicing</h3>
+          <p className="text-sm text-gray-500 mb-4">
+            Shown on invoices and receipts, which are issued in the property language. Invoice numbers run in sequence per property.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="label">Legal Name</label>
+              <input
+                {...register('invoice_settings.legal_name')}
+                type="text"
+                className="input"
+                placeholder="Defaults to the property name"
+              />
+            </div>
+            <div>
+              <label className="label">Tax ID</label>
+              <input
+                {...register('invoice_settings.tax_id')}
+                type="text"
+                className="input"
+                placeholder="e.g., VAT or company number"
+              />
+            </div>
+            <div>
+              <label className="label">Tax Rate (%)</label>
+              <input
+                {...register('invoice_settings.tax_rate', {
+                  setValueAs: (value) => (value === '' || value === null ? undefined : Number(value)),
+                  min: { value: 0, message: 'Tax rate cannot be negative' },
+                  max: { value: 100, message: 'Tax rate cannot exceed 100%' },
+                })}
+                type="number"
+                step="0.01"
+                className="input"
+                placeholder="0"
+              />
+              {errors.invoice_settings?.tax_rate && (
+                <p className="mt-1 text-sm text-danger-600">{errors.invoice_settings.tax_rate.message}</p>
+              )}
+            </div>
+            <div>
+              <label className="label">Tax Label</label>
+              <input
+                {...register('invoice_settings.tax_label')}
+                type="text"
+                className="input"
+                placeholder="e.g., VAT, IVA, MwSt."
+              />
+            </div>
+            <div>
+              <label className="label">Invoice Number Prefix</label>
+              <input
+                {...register('invoice_settings.number_prefix')}
+                type="text"
+                className="input"
+                placeholder="e.g., VILLA-"
+              />
+            </div>
+            <div className="flex items-end">
+              <label className="flex items-center text-sm text-gray-700 pb-2">
+                <input
+                  {...register('invoice_settings.prices_include_tax')}
+                  type="checkbox"
+                  className="h-4 w-4 mr-2 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                />
+                Upsell prices include tax
+              </label>
+            </div>
+          </div>
+
+          <div className="mt-4">
+            <label className="label">Billing Address</label>
+            <textarea
+              {...register('invoice_settings.address')}
+              rows={3}
+              className="input"
+              placeholder="Street, city, postcode, country"
+            />
+          </div>
+
+          <div className="mt-4">
+            <label className="label">Invoice Footer</label>
+            <textarea
+              {...register('invoice_settings.footer')}
+              rows={2}
+              className="input"
+              placeholder="e.g., registration details or a thank-you note"
+            />
+          </div>
+        </div>
+
         <div className="card p-6">
           <h3 className="text-lg font-medium text-gray-900 mb-4">Tags</h3>
           <p className="text-sm text-gray-500 mb-4">
@@ -12,10 +12,14 @@ import {
   CheckCircle,
   ExternalLink,
   AlertCircle,
-  RefreshCw
+  RefreshCw,
+  Coins,
+  AlarmClock
 } from 'lucide-react'
 import { api } from '../lib/api'
 import type { User as UserType } from '../types'
+import { ExchangeRateSettings } from '../components/ExchangeRateSettings'
+import { OrderSlaSettings } from '../components/OrderSlaSettings'
 import toast from 'react-hot-toast'
 
 interface ProfileFormData {
@@ -30,7 +34,7 @@ interface PasswordFormData {
 }
 
 export const Settings: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'profile' | 'password' | 'payments'>('profile')
+  const [activeTab, setActiveTab] = useState<'profile' | 'password' | 'payments' | 'currency' | 'slas'>('profile')
   const [showCurrentPassword, setShowCurrentPassword] = useState(false)
   const [showNewPassword, setShowNewPassword] = useState(false)
   const [showConfirmPassword, setShowConfirmPassword] = useState(false)
@@ -220,6 +224,28 @@ export const Settings: React.FC = () => {
             <CreditCard className="h-4 w-4 inline mr-2" />
             Payments
           </button>
+          <button
+            onClick={() => setActiveTab('currency')}
+            className={`py-2 px-1 border-b-2 font-medium text-sm ${
+              activeTab === 'currency'
+                ? 'border-primary-500 text-primary-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            <Coins className="h-4 w-4 inline mr-2" />
+            Currency
+          </button>
+          <button
+            onClick={() => setActiveTab('slas')}
+            className={`py-2 px-1 border-b-2 font-medium text-sm ${
+              activeTab === 'slas'
+                ? 'border-primary-500 text-primary-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            <AlarmClock className="h-4 w-4 inline mr-2" />
+            SLAs
+          </button>
         </nav>
       </div>
 
@@ -570,6 +596,12 @@ export const Settings: React.FC = () => {
           </div>
         </div>
       )}
+
+      {/* Currency Tab */}
+      {activeTab === 'currency' && <ExchangeRateSettings />}
+
+      {/* SLAs Tab */}
+      {activeTab === 'slas' && <OrderSlaSettings />}
     </div>
   )
 }
\ No newline at end of file
@@ -1,10 +1,20 @@
-import React, { useEffect } from 'react'
+import React, { useCallback, useEffect } from 'react'
 import { useNavigate, useParams } from 'react-router-dom'
 import { useForm } from 'react-hook-form'
 import { useQuery, useMutation, useQueryClient } from 'react-query'
 import { ArrowLeft, Save, Upload, X } from 'lucide-react'
 import { api } from '../lib/api'
-import type { Upsell, Property, Vendor } from '../types'
+import type { AvailabilityRules, PriceUnit, PricingRule, Translations, Upsell, UpsellAddon, UpsellVariant, Property, Vendor } from '../types'
+import { upsellCategories } from '../lib/categories'
+import { defaultAvailabilityRules, normalizeAvailabilityRules, validateAvailabilityRules } from '../lib/availability'
+import { AvailabilityRulesEditor } from '../components/AvailabilityRulesEditor'
+import { defaultUpsellPricing, normalizeUpsellPricing, validateUpsellPricing, type UpsellPricing } from '../lib/upsellPricing'
+import { UpsellPricingEditor } from '../components/UpsellPricingEditor'
+import { validatePricingRules } from '../lib/pricingRules'
+import { PricingRulesEditor } from '../components/PricingRulesEditor'
+import { PricePreviewCalendar } from '../components/PricePreviewCalendar'
+import { cleanTranslations, defaultLanguage } from '../lib/translations'
+import { TranslationEditor } from '../components/TranslationEditor'
 import toast from 'react-hot-toast'
 
 interface UpsellFormData {
@@ -13,27 +23,21 @@ interface UpsellFormData {
   secondary_vendor_id: number | null
   title: string
   description: string
+  translations: Translations<{ title: string; description: string }>
   price: number
+  price_unit: PriceUnit
+  variants: UpsellVariant[]
+  addons: UpsellAddon[]
+  min_quantity: number
+  max_quantity: number | null
+  pricing_rules: PricingRule[]
   category: string
   image_url?: string
-  availability_rules: any
+  availability_rules: AvailabilityRules
   is_active: boolean
   sort_order: number
 }
 
-const categories = [
-  'chef',
-  'transport',
-  'cleaning',
-  'concierge',
-  'maintenance',
-  'security',
-  'entertainment',
-  'wellness',
-  'experience',
-  'other'
-]
-
 export const UpsellForm: React.FC = () => {
   const { id } = useParams<{ id: string }>()
   const navigate = useNavigate()
@@ -43,22 +47,33 @@ export const UpsellForm: React.FC = () => {
   const [imagePreview, setImagePreview] = React.useState<string | null>(null)
   const [selectedFile, setSelectedFile] = React.useState<File | null>(null)
 
-  const { register, handleSubmit, formState: { errors }, setValue } = useForm<UpsellFormData>({
+  const { register, handleSubmit, formState: { errors }, setValue, watch } = useForm<UpsellFormData>({
     defaultValues: {
       property_id: 0,
       primary_vendor_id: 0,
       secondary_vendor_id: null,
       title: '',
       description: '',
+      translations: {},
       price: 0,
+      ...defaultUpsellPricing,
+      pricing_rules: [],
       category: 'chef',
       image_url: '',
-      availability_rules: {},
+      availability_rules: defaultAvailabilityRules,
       is_active: true,
       sort_order: 0,
     }
   })
 
+  const updatePricing = useCallback((next: UpsellPricing) => {
+    setValue('price_unit', next.price_unit, { shouldDirty: true })
+    setValue('variants', next.variants, { shouldDirty: true })
+    setValue('addons', next.addons, { shouldDirty: true })
+    setValue('min_quantity', next.min_quantity, { shouldDirty: true })
+    setValue('max_quantity', next.max_quantity, { shouldDirty: true })
+  }, [setValue])
+
   // Fetch upsell data if editing
   const { data: upsell, isLoading: upsellLoading } = useQuery<Upsell>(
     ['upsell', id],
@@ -85,17 +100,20 @@ export const UpsellForm: React.FC = () => {
       setValue('secondary_vendor_id', upsell.secondary_vendor_id || null)
       setValue('title', upsell.title)
       setValue('description', upsell.description || '')
+      setValue('translations', upsell.translations || {})
       setValue('price', upsell.price)
+      updatePricing(normalizeUpsellPricing(upsell))
+      setValue('pricing_rules', upsell.pricing_rules || [])
       setValue('category', upsell.category)
       setValue('image_url', upsell.image_url || '')
-      setValue('availability_rules', upsell.availability_rules || {})
+      setValue('availability_rules', normalizeAvailabilityRules(upsell.availability_rules))
       setValue('is_active', upsell.is_active)
       setValue('sort_order', upsell.sort_order)
       if (upsell.image_url) {
         setImagePreview(upsell.image_url)
       }
     }
-  }, [upsell, setValue])
+  }, [upsell, setValue, updatePricing])
 
   const createMutation = useMutation(
     (data: UpsellFormData) => api.post('/upsells', data),
@@ -128,7 +146,33 @@ export const UpsellForm: React.FC = () => {
     }
   )
 
+  const availabilityRules = watch('availability_rules')
+  const pricing: UpsellPricing = {
+    price_unit: watch('price_unit'),
+    variants: watch('variants'),
+    addons: watch('addons'),
+    min_quantity: watch('min_quantity'),
+    max_quantity: watch('max_quantity'),
+  }
+  const pricingRules = watch('pricing_rules')
+  const basePrice = watch('price')
+  const selectedProperty = properties?.find(property => property.id === watch('property_id'))
+  const currency = selectedProperty?.currency
+  const translations = watch('translations')
+
   const onSubmit = async (data: UpsellFormData) => {
+    const pricingErrors = [...validateUpsellPricing(data), ...validatePricingRules(data.pricing_rules)]
+    if (pricingErrors.length > 0) {
+      toast.error(pricingErrors[0])
+      return
+    }
+
+    const availabilityErrors = validateAvailabilityRules(data.availability_rules)
+    if (availabilityErrors.length > 0) {
+      toast.error(availabilityErrors[0])
+      return
+    }
+
     try {
       let imageUrl = data.image_url
 
@@ -148,6 +192,7 @@ export const UpsellForm: React.FC = () => {
 
       const submitData = {
         ...data,
+        translations: cleanTranslations(data.translations, selectedProperty?.language || defaultLanguage),
         image_url: imageUrl,
       }
 
@@ -287,7 +332,7 @@ export const UpsellForm: React.FC = () => {
                 {...register('category', { required: 'Category is required' })}
                 className="input"
               >
-                {categories.map((category) => (
+                {upsellCategories.map((category) => (
                   <option key={category} value={category}>
                     {category.charAt(0).toUpperCase() + category.slice(1)}
                   </option>
@@ -324,7 +369,7 @@ export const UpsellForm: React.FC = () => {
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6">
             <div>
-              <label className="label">Price *</label>
+              <label className="label">Base Price *</label>
               <input
                 {...register('price', { 
                   required: 'Price is required', 
@@ -349,6 +394,7 @@ export const UpsellForm: React.FC = () => {
                 className="input"
                 placeholder="0"
               />
+              <p className="mt-1 text-xs text-gray-500">Lower numbers come first. Use Reorder on the Upsells page to drag a whole menu into place.</p>
             </div>
           </div>
 
@@ -411,6 +457,61 @@ export const UpsellForm: React.FC = () => {
           </div>
         </div>
 
+        <div className="card p-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-1">Translations</h3>
+          <p className="text-sm text-gray-500 mb-4">
+            The title and description above are shown in the property language. Add translations for guests who use another language.
+          </p>
+          <TranslationEditor
+            fields={[
+              { key: 'title', label: 'Title' },
+              { key: 'description', label: 'Description', multiline: true },
+            ]}
+            base={{ title: watch('title'), description: watch('description') }}
+            baseLanguage={selectedProperty?.language || defaultLanguage}
+            value={translations}
+            onChange={(next) => setValue('translations', next, { shouldDirty: true })}
+          />
+        </div>
+
+        <div className="card p-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-1">Pricing Options</h3>
+          <p className="text-sm text-gray-500 mb-4">How the price scales, and the variants and extras guests can choose.</p>
+          <UpsellPricingEditor
+            value={pricing}
+            onChange={updatePricing}
+            basePrice={Number.isFinite(basePrice) ? basePrice : 0}
+            currency={currency}
+          />
+        </div>
+
+        <div className="card p-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-1">Seasonal Pricing</h3>
+          <p className="text-sm text-gray-500 mb-4">Change the price by date, weekday or how far ahead guests book.</p>
+          <PricingRulesEditor
+            value={pricingRules}
+            onChange={(rules) => setValue('pricing_rules', rules, { shouldDirty: true })}
+            currency={currency}
+          />
+          <div className="border-t mt-6 pt-6">
+            <h4 className="text-md font-medium text-gray-900 mb-3">Price over the next 12 months</h4>
+            <PricePreviewCalendar
+              basePrice={Number.isFinite(basePrice) ? basePrice : 0}
+              rules={pricingRules}
+              currency={currency}
+            />
+          </div>
+        </div>
+
+        <div className="card p-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-1">Availability</h3>
+          <p className="text-sm text-gray-500 mb-4">When guests can book this upsell and for how many people.</p>
+          <AvailabilityRulesEditor
+            value={availabilityRules}
+            onChange={(rules) => setValue('availability_rules', rules, { shouldDirty: true })}
+          />
+        </div>
+
         <div className="flex justify-end space-x-4">
           <button
             type="button"
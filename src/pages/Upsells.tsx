@@ -1,4 +1,4 @@
-import React, { useState } from 'react'
+import React, { useEffect, useState } from 'react'
 import { Link } from 'react-router-dom'
 import { useQuery, useMutation, useQueryClient } from 'react-query'
 import { 
@@ -10,16 +10,48 @@ import {
   Trash2, 
   Package,
   Eye,
-  EyeOff
+  EyeOff,
+  ArrowUpDown,
+  Check,
+  Boxes,
+  Copy,
+  CheckSquare,
+  Square
 } from 'lucide-react'
 import { api } from '../lib/api'
-import type { Upsell } from '../types'
-import { formatCurrency } from '../lib/utils'
+import type { Upsell, UpsellBundle } from '../types'
+import { formatUpsellPrice } from '../lib/upsellPricing'
+import { useUrlState } from '../hooks/useUrlState'
+import { groupUpsellsByProperty, toSortOrders } from '../lib/upsellOrder'
+import { UpsellReorderGrid } from '../components/UpsellReorderGrid'
+import { BundleCard } from '../components/BundleCard'
+import { CopyUpsellsModal } from '../components/CopyUpsellsModal'
+import {
+  getLanguageName,
+  getOfferedLanguages,
+  getTranslationStatus,
+  getUpsellTranslationBase,
+  languages,
+  resolveTranslation,
+  translationStatusStyles
+} from '../lib/translations'
 import toast from 'react-hot-toast'
 
+// lang previews the menu as guests using that language see it
+const defaultListView = { q: '', lang: '' }
+
 export const Upsells: React.FC = () => {
-  const [searchTerm, setSearchTerm] = useState('')
+  const [view, setView] = useUrlState(defaultListView)
+  const searchTerm = view.q
   const [showActionsMenu, setShowActionsMenu] = useState<number | null>(null)
+  const [reorderingPropertyId, setReorderingPropertyId] = useState<number | null>(null)
+  const [selectedUpsells, setSelectedUpsells] = useState<number[]>([])
+  const [showCopyModal, setShowCopyModal] = useState(false)
+
+  // Reordering renumbers the whole visible menu, so a filtered one would clash with the hidden upsells
+  useEffect(() => {
+    setReorderingPropertyId(null)
+  }, [searchTerm])
   const queryClient = useQueryClient()
 
   const { data: upsells, isLoading } = useQuery<Upsell[]>(
@@ -33,6 +65,24 @@ export const Upsells: React.FC = () => {
     }
   )
 
+  const { data: bundles } = useQuery<UpsellBundle[]>(
+    'upsell-bundles',
+    () => api.get('/upsell-bundles').then(res => res.data.bundles)
+  )
+
+  const deleteBundleMutation = useMutation(
+    (id: number) => api.delete(`/upsell-bundles/${id}`),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries('upsell-bundles')
+        toast.success('Package deleted successfully')
+      },
+      onError: (error: any) => {
+        toast.error(error.response?.data?.message || 'Failed to delete package')
+      }
+    }
+  )
+
   const deleteUpsellMutation = useMutation(
     (id: number) => api.delete(`/upsells/${id}`),
     {
@@ -62,11 +112,54 @@ export const Upsells: React.FC = () => {
     }
   )
 
+  const reorderMutation = useMutation(
+    ({ propertyId, upsellIds }: { propertyId: number; upsellIds: number[] }) =>
+      api.put('/upsells/reorder', { property_id: propertyId, upsells: toSortOrders(upsellIds) }),
+    {
+      // Apply the new order straight away, the drop shouldn't wait on the round trip
+      onMutate: async ({ upsellIds }) => {
+        await queryClient.cancelQueries('upsells')
+        const previousUpsells = queryClient.getQueryData<Upsell[]>('upsells')
+        if (previousUpsells) {
+          const sortOrders = new Map(toSortOrders(upsellIds).map(({ id, sort_order }) => [id, sort_order]))
+          queryClient.setQueryData<Upsell[]>('upsells', previousUpsells.map(upsell => (
+            sortOrders.has(upsell.id) ? { ...upsell, sort_order: sortOrders.get(upsell.id)! } : upsell
+          )))
+        }
+        return { previousUpsells }
+      },
+      onSuccess: () => {
+        toast.success('Upsell order saved')
+      },
+      onError: (error: any, _, context) => {
+        if (context?.previousUpsells) {
+          queryClient.setQueryData('upsells', context.previousUpsells)
+        }
+        toast.error(error.response?.data?.message || 'Failed to save upsell order')
+      },
+      onSettled: () => {
+        queryClient.invalidateQueries('upsells')
+      }
+    }
+  )
+
   const filteredUpsells = upsells?.filter(upsell =>
     upsell.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
     upsell.description?.toLowerCase().includes(searchTerm.toLowerCase()) ||
     upsell.category.toLowerCase().includes(searchTerm.toLowerCase())
   ) || []
+  const filteredBundles = bundles?.filter(bundle =>
+    bundle.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    bundle.description?.toLowerCase().includes(searchTerm.toLowerCase())
+  ) || []
+  const propertyGroups = groupUpsellsByProperty(filteredUpsells, filteredBundles)
+  const selectedUpsellObjects = upsells?.filter(upsell => selectedUpsells.includes(upsell.id)) || []
+
+  const toggleSelectUpsell = (upsellId: number) => {
+    setSelectedUpsells(prev =>
+      prev.includes(upsellId) ? prev.filter(id => id !== upsellId) : [...prev, upsellId]
+    )
+  }
 
   if (isLoading) {
     return (
@@ -96,13 +189,19 @@ export const Upsells: React.FC = () => {
             Manage your upsell services and offerings
           </p>
         </div>
-        <Link 
-          to="/upsells/new" 
-          className="inline-flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg shadow-sm transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          Add Upsell
-        </Link>
+        <div className="flex gap-2">
+          <Link to="/upsells/packages/new" className="btn-secondary btn-md">
+            <Boxes className="h-4 w-4 mr-2" />
+            Add Package
+          </Link>
+          <Link 
+            to="/upsells/new" 
+            className="inline-flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg shadow-sm transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Upsell
+          </Link>
+        </div>
       </div>
 
       {/* Search and Filters */}
@@ -114,11 +213,24 @@ export const Upsells: React.FC = () => {
               type="text"
               placeholder="Search upsells, categories, descriptions..."
               value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
+              onChange={(e) => setView({ q: e.target.value })}
+              disabled={reorderingPropertyId !== null}
+              title={reorderingPropertyId !== null ? 'Finish reordering to search' : undefined}
               className="input pl-10 w-full"
             />
           </div>
           <div className="flex gap-2">
+            <select
+              value={view.lang}
+              onChange={(e) => setView({ lang: e.target.value })}
+              className="input w-auto"
+              title="Preview titles and descriptions in another language"
+            >
+              <option value="">Property language</option>
+              {languages.map(language => (
+                <option key={language.code} value={language.code}>{language.name}</option>
+              ))}
+            </select>
             <button className="btn-secondary px-3 py-2 text-sm font-medium rounded-lg border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors">
               <Filter className="h-4 w-4 mr-2" />
               <span>Filter</span>
@@ -127,155 +239,288 @@ export const Upsells: React.FC = () => {
         </div>
       </div>
 
+      {/* Bulk Actions */}
+      {selectedUpsells.length > 0 && (
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <span className="text-sm font-medium text-blue-900">
+              {selectedUpsells.length} upsell{selectedUpsells.length > 1 ? 's' : ''} selected
+            </span>
+            <div className="flex flex-wrap items-center gap-2">
+              <button onClick={() => setShowCopyModal(true)} className="btn-primary btn-sm">
+                <Copy className="h-4 w-4 mr-1" />
+                Copy to properties…
+              </button>
+              <button onClick={() => setSelectedUpsells([])} className="btn-secondary btn-sm">
+                Clear
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Upsells Grid */}
-      {filteredUpsells.length > 0 ? (
-        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
-          {filteredUpsells.map((upsell) => (
-            <Link key={upsell.id} to={`/upsells/${upsell.id}/edit`} className="group relative bg-white rounded-lg shadow-md overflow-hidden hover:shadow-xl transition-all duration-300 transform hover:-translate-y-1 cursor-pointer block">
-              {/* Image Section - Compact */}
-              <div className="relative aspect-square overflow-hidden">
-                {upsell.image_url ? (
-                  <img
-                    src={upsell.image_url}
-                    alt={upsell.title}
-                    className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-110"
-                    onLoad={() => {}}
-                    onError={() => {}}
-                  />
-                ) : (
-                  <div className="w-full h-full bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
-                    <Package className="h-8 w-8 text-blue-400" />
-                  </div>
-                )}
-                
-                {/* Hover Overlay with Details */}
-                <div className="absolute inset-0 bg-black/70 opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex flex-col justify-between p-3">
-                  {/* Top Section - Actions */}
-                  <div className="flex justify-between items-start">
-                    <div className="relative">
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation()
-                          setShowActionsMenu(
-                            showActionsMenu === upsell.id ? null : upsell.id
-                          )
-                        }}
-                        className="p-1.5 bg-white/20 backdrop-blur-sm rounded-full hover:bg-white/30 transition-colors"
-                      >
-                        <MoreVertical className="h-3 w-3 text-white" />
-                      </button>
-                      
-                      {showActionsMenu === upsell.id && (
-                        <div className="absolute left-0 mt-2 w-40 bg-white rounded-lg shadow-xl z-20 border border-gray-200">
-                          <div className="py-1">
-                            <Link
-                              to={`/upsells/${upsell.id}/edit`}
-                              className="flex items-center px-3 py-2 text-xs text-gray-700 hover:bg-gray-50 transition-colors"
-                            >
-                              <Edit className="h-3 w-3 mr-2" />
-                              Edit
-                            </Link>
-                            <button
-                              onClick={(e) => {
-                                e.stopPropagation()
-                                toggleActiveMutation.mutate({ 
-                                  id: upsell.id, 
-                                  isActive: upsell.is_active 
-                                })
-                              }}
-                              className="flex items-center w-full px-3 py-2 text-xs text-gray-700 hover:bg-gray-50 transition-colors"
-                            >
-                              {upsell.is_active ? (
-                                <>
-                                  <EyeOff className="h-3 w-3 mr-2" />
-                                  Deactivate
-                                </>
-                              ) : (
-                                <>
-                                  <Eye className="h-3 w-3 mr-2" />
-                                  Activate
-                                </>
-                              )}
-                            </button>
-                            <hr className="my-1" />
-                            <button
-                              onClick={(e) => {
-                                e.stopPropagation()
-                                if (window.confirm('Are you sure you want to delete this upsell?')) {
-                                  deleteUpsellMutation.mutate(upsell.id)
-                                }
-                              }}
-                              className="flex items-center w-full px-3 py-2 text-xs text-red-600 hover:bg-red-50 transition-colors"
-                            >
-                              <Trash2 className="h-3 w-3 mr-2" />
-                              Delete
-                            </button>
-                          </div>
-                        </div>
-                      )}
-                    </div>
-                    
-                    <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium backdrop-blur-sm ${
-                      upsell.is_active 
-                        ? 'bg-green-500/80 text-white' 
-                        : 'bg-gray-500/80 text-white'
-                    }`}>
-                      {upsell.is_active ? 'Active' : 'Inactive'}
-                    </span>
-                  </div>
-                  
-                  {/* Bottom Section - Upsell Info */}
-                  <div className="text-white">
-                    <h3 className="font-bold text-sm mb-1 line-clamp-1">
-                      {upsell.title}
-                    </h3>
-                    <p className="text-xs text-white/80 line-clamp-2 mb-2">
-                      {upsell.description || 'No description provided'}
+      {propertyGroups.length > 0 ? (
+        <div className="space-y-8">
+          {propertyGroups.map((group) => {
+            const isReordering = reorderingPropertyId === group.propertyId
+            const groupBundles = filteredBundles.filter(bundle => bundle.property_id === group.propertyId)
+            const offeredLanguages = getOfferedLanguages(
+              group.property ? [group.property, ...group.upsells] : group.upsells,
+              group.property?.language || ''
+            )
+
+            return (
+              <section key={group.propertyId}>
+                <div className="flex items-center justify-between mb-3">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900">
+                      {group.property?.name || `Property #${group.propertyId}`}
+                    </h2>
+                    <p className="text-sm text-gray-500">
+                      {isReordering
+                        ? 'Drag the cards into the order guests should see them'
+                        : group.upsells.length === 0
+                          ? `No ${searchTerm ? 'matching ' : ''}upsells, only packages`
+                          : `${group.upsells.length} upsell${group.upsells.length === 1 ? '' : 's'}, in menu order`}
                     </p>
-                    
-                    {/* Quick Details */}
-                    <div className="space-y-1 text-xs">
-                      <div className="flex justify-between">
-                        <span className="text-white/70">Price:</span>
-                        <span className="font-medium">{formatCurrency(upsell.price)}</span>
-                      </div>
-                      <div className="flex justify-between">
-                        <span className="text-white/70">Category:</span>
-                        <span className="font-medium capitalize">{upsell.category}</span>
-                      </div>
-                      {upsell.primary_vendor && (
-                        <div className="flex justify-between">
-                          <span className="text-white/70">Vendor:</span>
-                          <span className="font-medium truncate ml-2">{upsell.primary_vendor.name}</span>
-                        </div>
-                      )}
-                    </div>
-                    
-                    {/* Property Info */}
-                    {upsell.property && (
-                      <div className="mt-2 pt-2 border-t border-white/20">
-                        <div className="text-xs text-white/70">
-                          <span className="font-medium">Property:</span>
-                          <span className="ml-1">{upsell.property.name}</span>
-                        </div>
+                    {offeredLanguages.length > 0 && group.upsells.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mt-1">
+                        {offeredLanguages.map((code) => {
+                          const statuses = group.upsells.map(upsell => getTranslationStatus(getUpsellTranslationBase(upsell), upsell.translations?.[code]))
+                          const complete = statuses.filter(status => status === 'complete').length
+                          const status = complete === statuses.length ? 'complete' : statuses.some(s => s !== 'missing') ? 'partial' : 'missing'
+
+                          return (
+                            <span
+                              key={code}
+                              className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700"
+                              title={`${getLanguageName(code)}: ${complete} of ${statuses.length} upsells fully translated`}
+                            >
+                              <span className={`h-2 w-2 rounded-full mr-1.5 ${translationStatusStyles[status]}`} />
+                              {code.toUpperCase()} {complete}/{statuses.length}
+                            </span>
+                          )
+                        })}
                       </div>
                     )}
                   </div>
+                  {isReordering ? (
+                    <button onClick={() => setReorderingPropertyId(null)} className="btn-primary btn-sm">
+                      <Check className="h-4 w-4 mr-1" />
+                      Done
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => setReorderingPropertyId(group.propertyId)}
+                      disabled={Boolean(searchTerm) || group.upsells.length < 2}
+                      title={searchTerm ? 'Clear the search to reorder the full menu' : undefined}
+                      className="btn-secondary btn-sm"
+                    >
+                      <ArrowUpDown className="h-4 w-4 mr-1" />
+                      Reorder
+                    </button>
+                  )}
                 </div>
-              </div>
-              
-              {/* Bottom Label - Always Visible */}
-              <div className="p-2 bg-white">
-                <h3 className="text-sm font-semibold text-gray-900 truncate">
-                  {upsell.title}
-                </h3>
-                <div className="flex items-center justify-between text-xs text-gray-500">
-                  <span className="truncate">{formatCurrency(upsell.price)}</span>
-                  <span className="capitalize">{upsell.category}</span>
-                </div>
-              </div>
-            </Link>
-          ))}
+
+                {isReordering ? (
+                  <UpsellReorderGrid
+                    upsells={group.upsells}
+                    onReorder={(upsellIds) => reorderMutation.mutate({ propertyId: group.propertyId, upsellIds })}
+                  />
+                ) : group.upsells.length > 0 && (
+                  <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
+                    {group.upsells.map((upsell) => {
+                      const text = resolveTranslation(getUpsellTranslationBase(upsell), upsell.translations, view.lang)
+                      const isSelected = selectedUpsells.includes(upsell.id)
+
+                      return (
+                        <Link key={upsell.id} to={`/upsells/${upsell.id}/edit`} className={`group relative bg-white rounded-lg shadow-md overflow-hidden hover:shadow-xl transition-all duration-300 transform hover:-translate-y-1 cursor-pointer block ${isSelected ? 'ring-2 ring-blue-500' : ''}`}>
+                          {/* Image Section - Compact */}
+                          <div className="relative aspect-square overflow-hidden">
+                            {upsell.image_url ? (
+                              <img
+                                src={upsell.image_url}
+                                alt={upsell.title}
+                                className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-110"
+                                onLoad={() => {}}
+                                onError={() => {}}
+                              />
+                            ) : (
+                              <div className="w-full h-full bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
+                                <Package className="h-8 w-8 text-blue-400" />
+                              </div>
+                            )}
+                            
+                            {/* Hover Overlay with Details */}
+                            <div className="absolute inset-0 bg-black/70 opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex flex-col justify-between p-3">
+                              {/* Top Section - Actions */}
+                              <div className="flex justify-between items-start">
+                                <div className="relative">
+                                  <button
+                                    onClick={(e) => {
+                                      e.stopPropagation()
+                                      setShowActionsMenu(
+                                        showActionsMenu === upsell.id ? null : upsell.id
+                                      )
+                                    }}
+                                    className="p-1.5 bg-white/20 backdrop-blur-sm rounded-full hover:bg-white/30 transition-colors"
+                                  >
+                                    <MoreVertical className="h-3 w-3 text-white" />
+                                  </button>
+                                  
+                                  {showActionsMenu === upsell.id && (
+                                    <div className="absolute left-0 mt-2 w-40 bg-white rounded-lg shadow-xl z-20 border border-gray-200">
+                                      <div className="py-1">
+                                        <Link
+                                          to={`/upsells/${upsell.id}/edit`}
+                                          className="flex items-center px-3 py-2 text-xs text-gray-700 hover:bg-gray-50 transition-colors"
+                                        >
+                                          <Edit className="h-3 w-3 mr-2" />
+                                          Edit
+                                        </Link>
+                                        <button
+                                          onClick={(e) => {
+                                            e.stopPropagation()
+                                            toggleActiveMutation.mutate({ 
+                                              id: upsell.id, 
+                                              isActive: upsell.is_active 
+                                            })
+                                          }}
+                                          className="flex items-center w-full px-3 py-2 text-xs text-gray-700 hover:bg-gray-50 transition-colors"
+                                        >
+                                          {upsell.is_active ? (
+                                            <>
+                                              <EyeOff className="h-3 w-3 mr-2" />
+                                              Deactivate
+                                            </>
+                                          ) : (
+                                            <>
+                                              <Eye className="h-3 w-3 mr-2" />
+                                              Activate
+                                            </>
+                                          )}
+                                        </button>
+                                        <hr className="my-1" />
+                                        <button
+                                          onClick={(e) => {
+                                            e.stopPropagation()
+                                            if (window.confirm('Are you sure you want to delete this upsell?')) {
+                                              deleteUpsellMutation.mutate(upsell.id)
+                                            }
+                                          }}
+                                          className="flex items-center w-full px-3 py-2 text-xs text-red-600 hover:bg-red-50 transition-colors"
+                                        >
+                                          <Trash2 className="h-3 w-3 mr-2" />
+                                          Delete
+                                        </button>
+                                      </div>
+                                    </div>
+                                  )}
+                                </div>
+                                
+                                <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium backdrop-blur-sm ${
+                                  upsell.is_active 
+                                    ? 'bg-green-500/80 text-white' 
+                                    : 'bg-gray-500/80 text-white'
+                                }`}>
+                                  {upsell.is_active ? 'Active' : 'Inactive'}
+                                </span>
+                              </div>
+                              
+                              {/* Bottom Section - Upsell Info */}
+                              <div className="text-white">
+                                <h3 className="font-bold text-sm mb-1 line-clamp-1">
+                                  {text.title}
+                                </h3>
+                                <p className="text-xs text-white/80 line-clamp-2 mb-2">
+                                  {text.description || 'No description provided'}
+                                </p>
+                                
+                                {/* Quick Details */}
+                                <div className="space-y-1 text-xs">
+                                  <div className="flex justify-between">
+                                    <span className="text-white/70">Price:</span>
+                                    <span className="font-medium">{formatUpsellPrice(upsell)}</span>
+                                  </div>
+                                  <div className="flex justify-between">
+                                    <span className="text-white/70">Category:</span>
+                                    <span className="font-medium capitalize">{upsell.category}</span>
+                                  </div>
+                                  {upsell.primary_vendor && (
+                                    <div className="flex justify-between">
+                                      <span className="text-white/70">Vendor:</span>
+                                      <span className="font-medium truncate ml-2">{upsell.primary_vendor.name}</span>
+                                    </div>
+                                  )}
+                                </div>
+                                
+                                {/* Property Info */}
+                                {upsell.property && (
+                                  <div className="mt-2 pt-2 border-t border-white/20">
+                                    <div className="text-xs text-white/70">
+                                      <span className="font-medium">Property:</span>
+                                      <span className="ml-1">{upsell.property.name}</span>
+                                    </div>
+                                  </div>
+                                )}
+                              </div>
+                            </div>
+                          </div>
+                          
+                          {/* Bottom Label - Always Visible */}
+                          <div className="p-2 bg-white">
+                            <div className="flex items-center gap-1">
+                              <button
+                                onClick={(e) => {
+                                  // The card is a link, selecting shouldn't open the upsell
+                                  e.preventDefault()
+                                  e.stopPropagation()
+                                  toggleSelectUpsell(upsell.id)
+                                }}
+                                className="flex-shrink-0 text-gray-400 hover:text-blue-600"
+                                title={isSelected ? 'Deselect' : 'Select'}
+                              >
+                                {isSelected ? (
+                                  <CheckSquare className="h-4 w-4 text-blue-600" />
+                                ) : (
+                                  <Square className="h-4 w-4" />
+                                )}
+                              </button>
+                              <h3 className="text-sm font-semibold text-gray-900 truncate">
+                                {text.title}
+                              </h3>
+                            </div>
+                            <div className="flex items-center justify-between text-xs text-gray-500">
+                              <span className="truncate">{formatUpsellPrice(upsell)}</span>
+                              <span className="capitalize">{upsell.category}</span>
+                            </div>
+                          </div>
+                        </Link>
+                      )
+                    })}
+                  </div>
+                )}
+
+                {groupBundles.length > 0 && !isReordering && (
+                  <div className={`grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4 ${group.upsells.length > 0 ? 'mt-4' : ''}`}>
+                    {groupBundles.map((bundle) => (
+                      <BundleCard
+                        key={bundle.id}
+                        bundle={bundle}
+                        upsells={upsells || []}
+                        onDelete={() => {
+                          if (window.confirm(`Delete the package "${bundle.title}"? Its upsells are kept.`)) {
+                            deleteBundleMutation.mutate(bundle.id)
+                          }
+                        }}
+                      />
+                    ))}
+                  </div>
+                )}
+              </section>
+            )
+          })}
         </div>
       ) : (
         <div className="text-center py-12">
@@ -294,6 +539,18 @@ export const Upsells: React.FC = () => {
           )}
         </div>
       )}
+
+      {showCopyModal && (
+        <CopyUpsellsModal
+          upsells={selectedUpsellObjects}
+          allUpsells={upsells || []}
+          onClose={() => setShowCopyModal(false)}
+          onCopied={() => {
+            setShowCopyModal(false)
+            setSelectedUpsells([])
+          }}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -13,10 +13,14 @@ import {
 import { api } from '../lib/api'
 import type { Vendor } from '../types'
 import { formatDate } from '../lib/utils'
+import { useUrlState } from '../hooks/useUrlState'
 import toast from 'react-hot-toast'
 
+const defaultListView = { q: '' }
+
 export const Vendors: React.FC = () => {
-  const [searchTerm, setSearchTerm] = useState('')
+  const [view, setView] = useUrlState(defaultListView)
+  const searchTerm = view.q
   const [showActionsMenu, setShowActionsMenu] = useState<number | null>(null)
   const queryClient = useQueryClient()
 
@@ -92,7 +96,7 @@ export const Vendors: React.FC = () => {
               type="text"
               placeholder="Search vendors, services, emails..."
               value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
+              onChange={(e) => setView({ q: e.target.value })}
               className="input pl-10 w-full"
             />
           </div>
@@ -12,11 +12,15 @@ export interface User {
   updated_at: string
 }
 
+// Keyed by language code. The base fields are written in the property language, so it never appears here
+export type Translations<T> = Record<string, Partial<T>>
+
 export interface Property {
   id: number
   user_id: number
   name: string
   description?: string
+  translations?: Translations<{ description: string }>
   instagram_url?: string
   hero_image_url?: string
   language: string
@@ -33,6 +37,16 @@ export interface Property {
     account_holder_name?: string
     instructions?: string
   }
+  invoice_settings?: {
+    legal_name?: string
+    address?: string
+    tax_id?: string
+    tax_label?: string
+    tax_rate?: number
+    prices_include_tax?: boolean
+    number_prefix?: string
+    footer?: string
+  }
   created_at: string
   updated_at: string
   owner?: User
@@ -53,6 +67,72 @@ export interface Vendor {
   updated_at: string
 }
 
+// 0 is Sunday, matching Date.getDay()
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6
+
+export interface TimeSlot {
+  // HH:mm, local to the property
+  start: string
+  end?: string
+}
+
+export interface BlackoutRange {
+  // YYYY-MM-DD, both ends inclusive
+  from: string
+  to: string
+  reason?: string
+}
+
+export interface AvailabilityRules {
+  days_of_week: Weekday[]
+  // No slots means the service is booked for the whole day
+  time_slots: TimeSlot[]
+  min_lead_time_hours: number
+  max_advance_days: number | null
+  blackouts: BlackoutRange[]
+  // Bookings per day across all slots; null is unlimited
+  daily_capacity: number | null
+  min_guests: number
+  max_guests: number | null
+}
+
+export type PriceUnit = 'booking' | 'person' | 'hour' | 'night'
+
+// Variants replace the base price, e.g. "4-seater" and "7-seater" for a transfer
+export interface UpsellVariant {
+  id: string
+  name: string
+  price: number
+}
+
+// Optional extras charged on top of the base or variant price
+export interface UpsellAddon {
+  id: string
+  name: string
+  price: number
+  price_unit: PriceUnit
+}
+
+export type PricingRuleKind = 'date_range' | 'weekdays' | 'last_minute' | 'early_booking'
+
+// 'price' replaces the unit price, 'percent' and 'amount' adjust it and may be negative
+export type PriceAdjustmentType = 'price' | 'percent' | 'amount'
+
+export interface PricingRule {
+  id: string
+  name: string
+  kind: PricingRuleKind
+  // date_range, inclusive yyyy-MM-dd
+  from?: string
+  to?: string
+  // weekdays
+  days_of_week?: Weekday[]
+  // last_minute: booked this many days ahead or fewer; early_booking: this many days ahead or more
+  days?: number
+  adjustment_type: PriceAdjustmentType
+  value: number
+}
+
 export interface Upsell {
   id: number
   property_id: number
@@ -60,10 +140,18 @@ export interface Upsell {
   secondary_vendor_id?: number
   title: string
   description?: string
+  translations?: Translations<{ title: string; description: string }>
   price: number
+  // Upsells saved before pricing options existed are priced per booking with no variants or add-ons
+  price_unit?: PriceUnit
+  variants?: UpsellVariant[]
+  addons?: UpsellAddon[]
+  min_quantity?: number
+  max_quantity?: number | null
+  pricing_rules?: PricingRule[]
   category: string
   image_url?: string
-  availability_rules?: any
+  availability_rules?: AvailabilityRules | null
   is_active: boolean
   sort_order: number
   created_at: string
@@ -74,6 +162,30 @@ export interface Upsell {
   orders?: Order[]
 }
 
+// A package of upsells from one property sold as a unit, e.g. airport transfer + groceries + welcome dinner
+export interface UpsellBundle {
+  id: number
+  property_id: number
+  title: string
+  description?: string
+  image_url?: string
+  // 'price' charges bundle_price for the package, 'discount' takes discount_percent off the component prices
+  pricing_type: 'price' | 'discount'
+  bundle_price?: number
+  discount_percent?: number
+  upsell_ids: number[]
+  is_active: boolean
+  sort_order: number
+  created_at: string
+  updated_at: string
+  property?: Property
+  upsells?: Upsell[]
+}
+
+export type OrderStatus = 'pending' | 'confirmed' | 'fulfilled' | 'cancelled'
+export type OrderSource = 'guest_app' | 'phone' | 'walk_in'
+export type OrderPaymentMethod = 'stripe' | 'payment_link' | 'cash' | 'bank_transfer' | 'card_terminal'
+
 export interface Order {
   id: number
   property_id: number
@@ -85,16 +197,164 @@ export interface Order {
   guest_passport?: string
   amount: number
   currency: string
-  status: 'pending' | 'confirmed' | 'fulfilled' | 'cancelled'
+  status: OrderStatus
+  // When the order entered its current status, used to measure SLAs
+  status_changed_at?: string
+  // Local to the property; service_time is absent for all-day services
+  service_date?: string
+  service_time?: string
+  source?: OrderSource
+  payment_method?: OrderPaymentMethod
+  payment_reference?: string
+  payment_link_url?: string
+  paid_at?: string
   stripe_payment_intent_id?: string
   stripe_charge_id?: string
   order_details?: any
+  configuration?: OrderConfiguration
+  // Set on the sub-orders created for a package, one per component upsell, all sharing bundle_reference
+  bundle_id?: number
+  bundle_reference?: string
+  bundle?: Pick<UpsellBundle, 'id' | 'title'>
   fulfilled_at?: string
   created_at: string
   updated_at: string
   property?: Property
   upsell?: Upsell
   vendor?: Vendor
+  status_history?: OrderStatusChange[]
+  refunded_amount?: number
+  refunds?: OrderRefund[]
+  dispatches?: OrderDispatch[]
+  notes?: OrderNote[]
+  invoice?: OrderInvoice
+  // Notes the current user has not read yet
+  unread_notes_count?: number
+}
+
+// What the guest picked, with names and prices as they were when the order was placed
+export interface OrderConfiguration {
+  price_unit: PriceUnit
+  quantity: number
+  unit_price: number
+  variant?: Pick<UpsellVariant, 'id' | 'name'>
+  addons: UpsellAddon[]
+}
+
+// e.g. "pending must be confirmed within 2 hours" or "confirmed must be fulfilled by the service date"
+export interface OrderSla {
+  status: 'pending' | 'confirmed'
+  // Counted from when the order entered the status, or from the service date and time
+  measured_from: 'status_change' | 'service_date'
+  hours: number
+  is_enabled: boolean
+}
+
+export interface OrderStatusChange {
+  id: number
+  order_id: number
+  from_status: OrderStatus | null
+  to_status: OrderStatus
+  reason?: string
+  changed_by?: Pick<User, 'id' | 'name' | 'email'>
+  created_at: string
+}
+
+export interface OrderRefund {
+  id: number
+  order_id: number
+  amount: number
+  currency: string
+  reason: string
+  status: 'pending' | 'succeeded' | 'failed'
+  stripe_refund_id?: string
+  created_by?: Pick<User, 'id' | 'name' | 'email'>
+  created_at: string
+}
+
+// Numbers are assigned by the server in sequence per property when the invoice is first issued
+export interface OrderInvoice {
+  id: number
+  order_id: number
+  property_id: number
+  number: string
+  language: string
+  currency: string
+  subtotal: number
+  tax_rate: number
+  tax_amount: number
+  total: number
+  issued_at: string
+}
+
+export interface OrderNote {
+  id: number
+  order_id: number
+  body: string
+  author?: Pick<User, 'id' | 'name' | 'email'>
+  mentions?: Pick<User, 'id' | 'name' | 'email'>[]
+  created_at: string
+  updated_at: string
+}
+
+export type DispatchChannel = 'email' | 'whatsapp'
+export type DispatchStatus = 'sent' | 'accepted' | 'declined' | 'expired'
+
+export interface OrderDispatch {
+  id: number
+  order_id: number
+  vendor_id: number
+  vendor?: Pick<Vendor, 'id' | 'name' | 'email' | 'whatsapp_number'>
+  channel: DispatchChannel
+  subject?: string
+  message: string
+  status: DispatchStatus
+  is_escalation: boolean
+  // The server marks a dispatch expired once this passes without a reply
+  respond_by: string
+  responded_at?: string
+  sent_by?: Pick<User, 'id' | 'name' | 'email'>
+  created_at: string
+}
+
+// Amounts keyed by ISO currency code, never summed across currencies on the server
+export type CurrencyAmounts = Record<string, number>
+
+export interface ExchangeRate {
+  currency: string
+  // Units of the reporting currency for one unit of this currency
+  rate: number
+  updated_at?: string
+}
+
+export interface ExchangeRateSettings {
+  reporting_currency: string
+  rates: ExchangeRate[]
+}
+
+export interface OrderSummary {
+  total: number
+  revenue_by_currency: CurrencyAmounts
+  pending: number
+  confirmed: number
+  fulfilled: number
+  cancelled: number
+  // Orders breaching an SLA, counted by the server with the same rules as getSlaState
+  overdue?: number
+  amounts_by_status?: Record<OrderStatus, CurrencyAmounts>
+}
+
+export interface SavedOrderView {
+  id: number
+  user_id: number
+  name: string
+  filters: Record<string, string>
+  // Pinning is per user; the API reports it for the current user
+  is_pinned: boolean
+  is_shared: boolean
+  owner?: Pick<User, 'id' | 'name' | 'email'>
+  created_at: string
+  updated_at: string
 }
 
 export interface ApiResponse<T> {